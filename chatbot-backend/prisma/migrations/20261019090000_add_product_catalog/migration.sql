@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Product" (
+    "id" TEXT NOT NULL,
+    "sku" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "price" DECIMAL(12,2) NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'USD',
+    "stock" INTEGER NOT NULL DEFAULT 0,
+    "attributes" JSONB NOT NULL DEFAULT '{}',
+    "category" TEXT,
+    "searchVector" tsvector,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Product_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_sku_key" ON "Product"("sku");
+
+-- CreateIndex
+CREATE INDEX "Product_category_idx" ON "Product"("category");
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "Product" USING GIN ("searchVector");
+
+-- Keep "searchVector" in sync with the searchable columns
+CREATE FUNCTION product_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW."searchVector" :=
+    setweight(to_tsvector('english', coalesce(NEW."title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW."sku", '') || ' ' || coalesce(NEW."category", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW."description", '')), 'C') ||
+    setweight(jsonb_to_tsvector('english', NEW."attributes", '["string"]'), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Product_searchVector_update"
+BEFORE INSERT OR UPDATE OF "sku", "title", "description", "category", "attributes" ON "Product"
+FOR EACH ROW EXECUTE FUNCTION product_search_vector_update();
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ToolInvocation" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "messageId" TEXT,
+    "name" TEXT NOT NULL,
+    "arguments" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "durationMs" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ToolInvocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_conversationId_idx" ON "ToolInvocation"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "ToolInvocation_messageId_idx" ON "ToolInvocation"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ToolInvocation" ADD CONSTRAINT "ToolInvocation_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
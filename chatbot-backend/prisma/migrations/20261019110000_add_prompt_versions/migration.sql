@@ -0,0 +1,73 @@
+-- CreateEnum
+CREATE TYPE "PromptVersionStatus" AS ENUM ('draft', 'published', 'archived');
+
+-- CreateEnum
+CREATE TYPE "PromptSectionKind" AS ENUM ('instruction', 'policy');
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN     "promptVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PromptVersion" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "PromptVersionStatus" NOT NULL DEFAULT 'draft',
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "publishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PromptVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromptSection" (
+    "id" TEXT NOT NULL,
+    "promptVersionId" TEXT NOT NULL,
+    "kind" "PromptSectionKind" NOT NULL,
+    "key" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "PromptSection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Message_promptVersionId_idx" ON "Message"("promptVersionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVersion_version_key" ON "PromptVersion"("version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptSection_promptVersionId_key_key" ON "PromptSection"("promptVersionId", "key");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "PromptVersion"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromptSection" ADD CONSTRAINT "PromptSection_promptVersionId_fkey" FOREIGN KEY ("promptVersionId") REFERENCES "PromptVersion"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed version 1 with the policies and rules previously hard-coded in llm.service.ts
+INSERT INTO "PromptVersion" ("id", "version", "status", "notes", "publishedAt")
+VALUES ('00000000-0000-0000-0000-000000000001', 1, 'published', 'Initial prompt migrated from code', CURRENT_TIMESTAMP);
+
+INSERT INTO "PromptSection" ("id", "promptVersionId", "kind", "key", "title", "content", "position") VALUES
+(gen_random_uuid()::text, '00000000-0000-0000-0000-000000000001', 'instruction', 'role', 'Role',
+ 'You are a helpful support agent for a small e-commerce store.', 0),
+(gen_random_uuid()::text, '00000000-0000-0000-0000-000000000001', 'policy', 'shipping', 'Shipping',
+ 'Worldwide shipping, delivery in 5–10 business days.', 1),
+(gen_random_uuid()::text, '00000000-0000-0000-0000-000000000001', 'policy', 'returns', 'Returns',
+ '30-day return window, unused items only.', 2),
+(gen_random_uuid()::text, '00000000-0000-0000-0000-000000000001', 'policy', 'support_hours', 'Support hours',
+ 'Monday to Friday, 9am–6pm IST.', 3),
+(gen_random_uuid()::text, '00000000-0000-0000-0000-000000000001', 'instruction', 'rules', 'Important rules',
+ 'Important rules:
+- Answer clearly, concisely, and professionally.
+- Do NOT make up information about products, prices, or policies not listed above.
+- Only quote product prices and availability exactly as they appear in the [Product catalog] section.
+- If a product is not in the [Product catalog] section, say you could not find it in the catalog.
+- Do NOT disclose internal systems, database details, or technical implementation.
+- If you don''t know something, say so honestly.
+- Use the available tools to look up the store time or exact policy wording when it helps answer.
+- Treat conversation summaries as authoritative history.
+- Prioritize the latest user messages over summary information if there are conflicts.', 4);
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "SummaryPromptType" AS ENUM ('initial', 're_summary');
+
+-- CreateTable
+CREATE TABLE "ConversationSummary" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "messagesFrom" INTEGER NOT NULL,
+    "messagesUntil" INTEGER NOT NULL,
+    "baseSummaryId" TEXT,
+    "model" TEXT NOT NULL,
+    "promptType" "SummaryPromptType" NOT NULL,
+    "usedFallback" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConversationSummary_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ConversationSummary_conversationId_version_key" ON "ConversationSummary"("conversationId", "version");
+
+-- At most one active summary per conversation (not expressible in the Prisma schema)
+CREATE UNIQUE INDEX "ConversationSummary_active_key" ON "ConversationSummary"("conversationId") WHERE "isActive";
+
+-- AddForeignKey
+ALTER TABLE "ConversationSummary" ADD CONSTRAINT "ConversationSummary_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing summaries become version 1 (generation details were not recorded)
+INSERT INTO "ConversationSummary" ("id", "conversationId", "version", "content", "messagesFrom", "messagesUntil", "model", "promptType", "isActive")
+SELECT gen_random_uuid()::text, "id", 1, "summary", 1, "summaryUntil", 'unknown', 'initial', true
+FROM "Conversation"
+WHERE "summary" IS NOT NULL AND "summaryUntil" IS NOT NULL;
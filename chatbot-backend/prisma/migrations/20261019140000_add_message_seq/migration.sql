@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "seq" INTEGER;
+
+-- Backfill: number existing messages in creation order (id breaks timestamp ties)
+UPDATE "Message" AS m
+SET "seq" = numbered."seq"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "conversationId" ORDER BY "createdAt", "id") AS "seq"
+    FROM "Message"
+) AS numbered
+WHERE m."id" = numbered."id";
+
+ALTER TABLE "Message" ALTER COLUMN "seq" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Message_conversationId_seq_key" ON "Message"("conversationId", "seq");
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "lastSeq" INTEGER NOT NULL DEFAULT 0;
+
+UPDATE "Conversation" AS c
+SET "lastSeq" = counts."lastSeq"
+FROM (
+    SELECT "conversationId", MAX("seq") AS "lastSeq"
+    FROM "Message"
+    GROUP BY "conversationId"
+) AS counts
+WHERE c."id" = counts."conversationId";
+
+-- Coverage was a message count over the same ordering, so count N is seq N
+ALTER TABLE "Conversation" RENAME COLUMN "summaryUntil" TO "summaryUntilSeq";
+ALTER TABLE "ConversationSummary" RENAME COLUMN "messagesFrom" TO "fromSeq";
+ALTER TABLE "ConversationSummary" RENAME COLUMN "messagesUntil" TO "untilSeq";
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "clientId" TEXT,
+ADD COLUMN "title" TEXT,
+ADD COLUMN "lastMessageAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN "archivedAt" TIMESTAMP(3),
+ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- Backfill last activity from existing messages
+UPDATE "Conversation" AS c
+SET "lastMessageAt" = latest."createdAt"
+FROM (
+    SELECT "conversationId", MAX("createdAt") AS "createdAt"
+    FROM "Message"
+    GROUP BY "conversationId"
+) AS latest
+WHERE c."id" = latest."conversationId";
+
+-- DropIndex
+DROP INDEX "Conversation_userId_idx";
+
+-- CreateIndex
+CREATE INDEX "Conversation_userId_lastMessageAt_idx" ON "Conversation"("userId", "lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "Conversation_clientId_lastMessageAt_idx" ON "Conversation"("clientId", "lastMessageAt");
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "FeedbackRating" AS ENUM ('up', 'down');
+
+-- CreateEnum
+CREATE TYPE "FeedbackReason" AS ENUM ('helpful', 'incorrect', 'incomplete', 'off_topic', 'not_helpful', 'other');
+
+-- CreateTable
+CREATE TABLE "MessageFeedback" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "rating" "FeedbackRating" NOT NULL,
+    "reason" "FeedbackReason",
+    "comment" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessageFeedback_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageFeedback_messageId_key" ON "MessageFeedback"("messageId");
+
+-- CreateIndex
+CREATE INDEX "MessageFeedback_createdAt_idx" ON "MessageFeedback"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "MessageFeedback" ADD CONSTRAINT "MessageFeedback_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "parentId" TEXT;
+
+-- Backfill: existing conversations are a single branch in seq order
+UPDATE "Message" AS m
+SET "parentId" = linked."parentId"
+FROM (
+    SELECT "id", LAG("id") OVER (PARTITION BY "conversationId" ORDER BY "seq") AS "parentId"
+    FROM "Message"
+) AS linked
+WHERE m."id" = linked."id";
+
+-- CreateIndex
+CREATE INDEX "Message_parentId_idx" ON "Message"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "Message" ADD CONSTRAINT "Message_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "activeLeafId" TEXT;
+
+UPDATE "Conversation" AS c
+SET "activeLeafId" = m."id"
+FROM "Message" AS m
+WHERE m."conversationId" = c."id" AND m."seq" = c."lastSeq";
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('customer', 'agent');
+
+-- CreateEnum
+CREATE TYPE "ConversationStatus" AS ENUM ('bot', 'escalated', 'assigned');
+
+-- AlterEnum
+ALTER TYPE "Sender" ADD VALUE 'agent';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" "UserRole" NOT NULL DEFAULT 'customer';
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "status" "ConversationStatus" NOT NULL DEFAULT 'bot',
+ADD COLUMN "escalatedAt" TIMESTAMP(3),
+ADD COLUMN "escalationReason" TEXT,
+ADD COLUMN "handoffNote" TEXT,
+ADD COLUMN "assignedAgentId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Conversation_status_escalatedAt_idx" ON "Conversation"("status", "escalatedAt");
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_assignedAgentId_fkey" FOREIGN KEY ("assignedAgentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateEnum
+CREATE TYPE "PiiType" AS ENUM ('card', 'email', 'phone', 'ssn', 'address');
+
+-- CreateTable
+CREATE TABLE "PiiVaultEntry" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "placeholder" TEXT NOT NULL,
+    "type" "PiiType" NOT NULL,
+    "ciphertext" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PiiVaultEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PiiVaultEntry_messageId_placeholder_key" ON "PiiVaultEntry"("messageId", "placeholder");
+
+-- AddForeignKey
+ALTER TABLE "PiiVaultEntry" ADD CONSTRAINT "PiiVaultEntry_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
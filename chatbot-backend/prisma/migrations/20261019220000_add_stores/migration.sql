@@ -0,0 +1,85 @@
+-- CreateTable
+CREATE TABLE "Store" (
+    "id" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "allowedOrigins" TEXT[],
+    "rateLimits" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Store_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ApiKey" (
+    "id" TEXT NOT NULL,
+    "storeId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "prefix" TEXT NOT NULL,
+    "keyHash" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "revokedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ApiKey_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the default store: everything created so far belongs to it
+INSERT INTO "Store" ("id", "slug", "name", "allowedOrigins") VALUES
+('00000000-0000-0000-0000-000000000001', 'default', 'Default store', ARRAY['http://localhost:5173']);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "User" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "Conversation" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "PromptVersion" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "PromptVersion" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "User_email_key";
+
+-- DropIndex
+DROP INDEX "Conversation_clientId_lastMessageAt_idx";
+
+-- DropIndex
+DROP INDEX "Conversation_status_escalatedAt_idx";
+
+-- DropIndex
+DROP INDEX "PromptVersion_version_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Store_slug_key" ON "Store"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiKey_keyHash_key" ON "ApiKey"("keyHash");
+
+-- CreateIndex
+CREATE INDEX "ApiKey_storeId_idx" ON "ApiKey"("storeId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "User_storeId_email_key" ON "User"("storeId", "email");
+
+-- CreateIndex
+CREATE INDEX "Conversation_storeId_clientId_lastMessageAt_idx" ON "Conversation"("storeId", "clientId", "lastMessageAt");
+
+-- CreateIndex
+CREATE INDEX "Conversation_storeId_status_escalatedAt_idx" ON "Conversation"("storeId", "status", "escalatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptVersion_storeId_version_key" ON "PromptVersion"("storeId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ApiKey" ADD CONSTRAINT "ApiKey_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Conversation" ADD CONSTRAINT "Conversation_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromptVersion" ADD CONSTRAINT "PromptVersion_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "TokenUsageKind" AS ENUM ('reply', 'summary', 'handoff_note');
+
+-- CreateTable
+CREATE TABLE "TokenUsage" (
+    "id" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "kind" "TokenUsageKind" NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "messageId" TEXT,
+    "summaryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TokenUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_conversationId_idx" ON "TokenUsage"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_messageId_idx" ON "TokenUsage"("messageId");
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_createdAt_idx" ON "TokenUsage"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "TokenUsage" ADD CONSTRAINT "TokenUsage_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TokenUsage" ADD CONSTRAINT "TokenUsage_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TokenUsage" ADD CONSTRAINT "TokenUsage_summaryId_fkey" FOREIGN KEY ("summaryId") REFERENCES "ConversationSummary"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- Products and help-center articles imported so far belong to the default store
+
+-- AlterTable
+ALTER TABLE "Product" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "Product" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "KnowledgeDocument" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "KnowledgeDocument" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "KnowledgeChunk" ADD COLUMN     "storeId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000001';
+ALTER TABLE "KnowledgeChunk" ALTER COLUMN "storeId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "Product_sku_key";
+
+-- DropIndex
+DROP INDEX "Product_category_idx";
+
+-- DropIndex
+DROP INDEX "KnowledgeDocument_source_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Product_storeId_sku_key" ON "Product"("storeId", "sku");
+
+-- CreateIndex
+CREATE INDEX "Product_storeId_category_idx" ON "Product"("storeId", "category");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KnowledgeDocument_storeId_source_key" ON "KnowledgeDocument"("storeId", "source");
+
+-- CreateIndex
+CREATE INDEX "KnowledgeChunk_storeId_idx" ON "KnowledgeChunk"("storeId");
+
+-- AddForeignKey
+ALTER TABLE "Product" ADD CONSTRAINT "Product_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "KnowledgeDocument" ADD CONSTRAINT "KnowledgeDocument_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "Store"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
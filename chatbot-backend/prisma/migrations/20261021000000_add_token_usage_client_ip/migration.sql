@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TokenUsage" ADD COLUMN "clientIp" TEXT;
+
+-- CreateIndex
+CREATE INDEX "TokenUsage_clientIp_createdAt_idx" ON "TokenUsage"("clientIp", "createdAt");
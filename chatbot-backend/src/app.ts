@@ -1,18 +1,55 @@
 // Load environment variables FIRST before any other imports
-import "./lib/env";
+import { appConfig } from "./lib/env";
 import express from "express";
 import cors from "cors";
 import router from "./routes/chat.route";
+import adminRouter from "./routes/admin.route";
+import authRouter from "./routes/auth.route";
+import agentRouter from "./routes/agent.route";
+import storeRouter from "./routes/store.route";
+import { attachChatSocket } from "./routes/chat.socket";
 import { errorHandler } from "./middleware/errorHandler";
+import { identifyStore } from "./middleware/store";
+import { requestContext } from "./middleware/requestContext";
+import { storeService } from "./services/store.service";
 import { getRedisClient } from "./lib/redis";
+import { createLogger } from "./lib/logger";
+import { metricsRegistry } from "./lib/metrics";
+import { summaryWorker } from "./workers/summary.worker";
+
+const log = createLogger("app");
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Same proxy trust as the rate limiter's client IPs (req.ip, req.protocol)
+app.set("trust proxy", appConfig.trustProxyHops);
+
 // Middleware
+// Request ID and root span first, so everything after runs in the request's context
+app.use(requestContext);
 app.use(cors({
-  origin: process.env.FRONTEND_URL || "http://localhost:5173",
+  // Origins allowed by any store; identifyStore then checks the key's store
+  origin: (origin, callback) => {
+    if (!origin) {
+      return callback(null, true);
+    }
+    storeService
+      .isKnownOrigin(origin)
+      .then((allowed) => callback(null, allowed))
+      .catch((error) => callback(error));
+  },
   credentials: true,
+  // Let the frontend read limits and replays
+  exposedHeaders: [
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "RateLimit-Policy",
+    "Retry-After",
+    "Idempotent-Replayed",
+    "X-Request-Id",
+  ],
 }));
 app.use(express.json());
 
@@ -58,6 +95,16 @@ app.get("/health", async (req, res) => {
   }
 });
 
+// Prometheus metrics (see lib/metrics.ts for names and labels)
+app.get("/metrics", async (req, res, next) => {
+  try {
+    res.setHeader("Content-Type", metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Debug endpoint to view Redis data (development only)
 app.get("/debug/redis", async (req, res) => {
   try {
@@ -68,7 +115,8 @@ app.get("/debug/redis", async (req, res) => {
     const data: Record<string, any> = {};
     
     for (const key of allKeys) {
-      const value = await redis.get(key);
+      // Sliding windows: one sorted-set entry per request in the window
+      const value = await redis.zcard(key);
       const ttl = await redis.ttl(key);
       data[key] = {
         value,
@@ -85,7 +133,7 @@ app.get("/debug/redis", async (req, res) => {
       totalKeysInRedis: totalKeys,
       rateLimitKeys: allKeys.length,
       keys: data,
-      note: "Keys expire after 60 seconds. Make a request to see new keys!",
+      note: "Keys expire one window after the last request. Make a request to see new keys!",
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
@@ -97,11 +145,25 @@ app.get("/debug/redis", async (req, res) => {
 });
 
 // API routes
+// Store management needs no store API key; every other route does
+app.use("/api/v1", storeRouter);
+app.use("/api/v1", identifyStore);
+app.use("/api/v1", authRouter);
 app.use("/api/v1", router);
+app.use("/api/v1", adminRouter);
+app.use("/api/v1", agentRouter);
 
 // Error handler (must be last)
 app.use(errorHandler);
 
-app.listen(port, () => {
-  console.log(`Chatbot API listening on port ${port}`);
+const server = app.listen(port, () => {
+  log.info("Chatbot API listening", { port });
 });
+
+// Real-time chat shares the HTTP server
+attachChatSocket(server);
+
+// Summarization runs off the request path
+if (appConfig.summaryWorkerInline) {
+  summaryWorker.start();
+}
@@ -0,0 +1,58 @@
+/**
+ * Minimal RFC 4180 CSV parser
+ * Supports quoted fields, escaped quotes ("") and newlines inside quotes.
+ * The first row is treated as the header.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row without trailing newline
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter((r) => r.some((v) => v.trim() !== ""));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map((h) => h.trim());
+  return records.map((values) =>
+    Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ""]))
+  );
+}
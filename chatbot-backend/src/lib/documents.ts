@@ -0,0 +1,131 @@
+const MAX_CHUNK_CHARS = 1200; // Roughly 300 tokens per chunk
+
+export type DocumentChunk = {
+  heading: string;
+  content: string;
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Convert help-center HTML into Markdown-like plain text
+ * Keeps headings (as #) and paragraph/list boundaries, drops everything else
+ */
+export function htmlToMarkdown(html: string): string {
+  return html
+    .replace(/<(script|style|nav|header|footer)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, text: string) =>
+      `\n\n${"#".repeat(Number(level))} ${text.replace(/<[^>]+>/g, "").trim()}\n\n`
+    )
+    .replace(/<li[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|ul|ol|table|tr|section|article)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#\d+|#x[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith("#x")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Title of a Markdown document: its first H1, or the fallback
+ */
+export function extractTitle(markdown: string, fallback: string): string {
+  return markdown.match(/^#\s+(.+)$/m)?.[1].trim() || fallback;
+}
+
+/**
+ * Split a long paragraph on sentence boundaries so no piece exceeds the limit
+ */
+function splitParagraph(paragraph: string): string[] {
+  if (paragraph.length <= MAX_CHUNK_CHARS) {
+    return [paragraph];
+  }
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (current && current.length + sentence.length + 1 > MAX_CHUNK_CHARS) {
+      pieces.push(current);
+      current = "";
+    }
+    // A single oversized sentence is hard-split
+    for (let i = 0; i < sentence.length; i += MAX_CHUNK_CHARS) {
+      const part = sentence.slice(i, i + MAX_CHUNK_CHARS);
+      current = current ? `${current} ${part}` : part;
+      if (current.length >= MAX_CHUNK_CHARS) {
+        pieces.push(current);
+        current = "";
+      }
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Chunk a Markdown document along its sections
+ *
+ * Each chunk stays within one section and carries a breadcrumb heading
+ * ("Title > Section > Subsection") so it is self-explanatory when retrieved.
+ * Paragraphs are packed together up to MAX_CHUNK_CHARS.
+ */
+export function chunkMarkdown(markdown: string, title: string): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  const headingStack: { level: number; text: string }[] = [];
+  let paragraphs: string[] = [];
+
+  const breadcrumb = () =>
+    [title, ...headingStack.map((h) => h.text).filter((text) => text !== title)].join(" > ");
+
+  const flush = () => {
+    let current = "";
+    for (const piece of paragraphs.flatMap(splitParagraph)) {
+      if (current && current.length + piece.length + 2 > MAX_CHUNK_CHARS) {
+        chunks.push({ heading: breadcrumb(), content: current });
+        current = "";
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+    if (current) {
+      chunks.push({ heading: breadcrumb(), content: current });
+    }
+    paragraphs = [];
+  };
+
+  // Headings become blocks of their own, even without surrounding blank lines
+  const blocks = markdown.replace(/^(#{1,6}\s.+)$/gm, "\n$1\n").split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const text = block.trim();
+    if (!text) continue;
+
+    const heading = text.match(/^(#{1,6})\s+(.+)$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (headingStack.length && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, text: heading[2].trim() });
+      continue;
+    }
+
+    paragraphs.push(text);
+  }
+  flush();
+
+  return chunks;
+}
@@ -1,12 +1,147 @@
 import { config } from "dotenv";
+import { LLMProviderName } from "../types/llm";
+import { PII_TYPES, PiiType } from "../types/pii";
+import {
+  LOG_LEVELS,
+  LogLevel,
+  TRACE_EXPORTERS,
+  TraceExporterName,
+} from "../types/observability";
+import {
+  RateLimitFailMode,
+  RateLimitPolicy,
+  RateLimitPolicyName,
+} from "../types/rateLimit";
 
 // Load environment variables from .env file
 config();
 
+const LLM_PROVIDERS: LLMProviderName[] = ["gemini", "openai", "mock"];
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+const llmProvider = (process.env.LLM_PROVIDER || "gemini") as LLMProviderName;
+
+if (!LLM_PROVIDERS.includes(llmProvider)) {
+  console.error(
+    `Invalid LLM_PROVIDER "${llmProvider}". Expected one of: ${LLM_PROVIDERS.join(", ")}`
+  );
+  process.exit(1);
+}
+
+const openaiBaseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+
+const RATE_LIMIT_FAIL_MODES: RateLimitFailMode[] = ["open", "closed"];
+
+const rateLimitFailMode = (process.env.RATE_LIMIT_FAIL_MODE || "open") as RateLimitFailMode;
+
+if (!RATE_LIMIT_FAIL_MODES.includes(rateLimitFailMode)) {
+  console.error(
+    `Invalid RATE_LIMIT_FAIL_MODE "${rateLimitFailMode}". Expected one of: ${RATE_LIMIT_FAIL_MODES.join(", ")}`
+  );
+  process.exit(1);
+}
+
+const rateLimitWindowSeconds = parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60", 10);
+
+const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // Sending, streaming, regenerating and editing messages (REST and WebSocket)
+  chat: {
+    ip: {
+      limit: parseInt(process.env.RATE_LIMIT_CHAT_PER_IP || "20", 10),
+      windowSeconds: rateLimitWindowSeconds,
+    },
+    user: {
+      limit: parseInt(process.env.RATE_LIMIT_CHAT_PER_USER || "10", 10),
+      windowSeconds: rateLimitWindowSeconds,
+    },
+  },
+  // Sign-in and registration (password guessing)
+  auth: {
+    ip: {
+      limit: parseInt(process.env.RATE_LIMIT_AUTH_PER_IP || "10", 10),
+      windowSeconds: rateLimitWindowSeconds,
+    },
+  },
+};
+
+// PII types to redact from user messages: all by default, "none" to disable
+const piiRedactionTypes = (
+  process.env.PII_REDACTION_TYPES === "none"
+    ? []
+    : (process.env.PII_REDACTION_TYPES || PII_TYPES.join(","))
+        .split(",")
+        .map((type) => type.trim())
+        .filter(Boolean)
+) as PiiType[];
+
+const invalidPiiTypes = piiRedactionTypes.filter((type) => !PII_TYPES.includes(type));
+if (invalidPiiTypes.length > 0) {
+  console.error(
+    `Invalid PII_REDACTION_TYPES "${invalidPiiTypes.join(", ")}". Expected any of: ${PII_TYPES.join(", ")} (or "none")`
+  );
+  process.exit(1);
+}
+
+// AES-256 key for the PII vault: 32 bytes, base64
+const piiVaultKey = process.env.PII_VAULT_KEY
+  ? Buffer.from(process.env.PII_VAULT_KEY, "base64")
+  : null;
+
+if (piiVaultKey && piiVaultKey.length !== 32) {
+  console.error("Invalid PII_VAULT_KEY. Expected 32 bytes, base64-encoded");
+  process.exit(1);
+}
+
+if (!piiVaultKey && piiRedactionTypes.length > 0) {
+  console.warn(
+    "PII_VAULT_KEY is not set: redacted values will be discarded instead of stored in the vault"
+  );
+}
+
+const logLevel = (
+  process.env.LOG_LEVEL || (process.env.NODE_ENV === "production" ? "info" : "debug")
+) as LogLevel;
+
+if (!LOG_LEVELS.includes(logLevel)) {
+  console.error(
+    `Invalid LOG_LEVEL "${logLevel}". Expected one of: ${LOG_LEVELS.join(", ")}`
+  );
+  process.exit(1);
+}
+
+const traceExporter = (process.env.TRACE_EXPORTER || "none") as TraceExporterName;
+
+if (!TRACE_EXPORTERS.includes(traceExporter)) {
+  console.error(
+    `Invalid TRACE_EXPORTER "${traceExporter}". Expected one of: ${TRACE_EXPORTERS.join(", ")}`
+  );
+  process.exit(1);
+}
+
+// Log fields and span attributes replaced with [REDACTED]; "none" to keep them all
+const DEFAULT_REDACT_FIELDS = "text,prompt,completion,password,token";
+
+const logRedactFields =
+  process.env.LOG_REDACT_FIELDS === "none"
+    ? []
+    : (process.env.LOG_REDACT_FIELDS || DEFAULT_REDACT_FIELDS)
+        .split(",")
+        .map((field) => field.trim().toLowerCase())
+        .filter(Boolean);
+
 // Validate required environment variables
-const requiredEnvVars = {
+// Only the credentials of the selected LLM provider are required
+const requiredEnvVars: Record<string, string | undefined> = {
   DATABASE_URL: process.env.DATABASE_URL,
-  GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+  JWT_SECRET: process.env.JWT_SECRET,
+  ...(llmProvider === "gemini" && {
+    GEMINI_API_KEY: process.env.GEMINI_API_KEY,
+  }),
+  // Local OpenAI-compatible servers usually don't need a key; the hosted API does
+  ...(llmProvider === "openai" &&
+    openaiBaseUrl === DEFAULT_OPENAI_BASE_URL && {
+      OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+    }),
 };
 
 const missingVars = Object.entries(requiredEnvVars)
@@ -21,7 +156,66 @@ if (missingVars.length > 0) {
 
 export const appConfig = {
   databaseUrl: process.env.DATABASE_URL!,
-  geminiApiKey: process.env.GEMINI_API_KEY!,
   redisUrl: process.env.REDIS_URL || "redis://localhost:6379",
   nodeEnv: process.env.NODE_ENV || "development",
+  adminApiKey: process.env.ADMIN_API_KEY,
+  // Reverse proxies in front of the API; their X-Forwarded-For entries are trusted
+  trustProxyHops: parseInt(process.env.TRUST_PROXY_HOPS || "0", 10),
+  rateLimit: {
+    failMode: rateLimitFailMode,
+    // IPs and user IDs that are never limited (monitoring, load tests)
+    allowlist: (process.env.RATE_LIMIT_ALLOWLIST || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    policies: RATE_LIMIT_POLICIES,
+  },
+  auth: {
+    jwtSecret: process.env.JWT_SECRET!,
+    tokenTtl: process.env.JWT_EXPIRES_IN || "7d",
+  },
+  llm: {
+    provider: llmProvider,
+    gemini: {
+      apiKey: process.env.GEMINI_API_KEY,
+      model: process.env.GEMINI_MODEL || "gemini-2.5-flash",
+    },
+    openai: {
+      baseUrl: openaiBaseUrl,
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+    },
+    mock: {
+      scriptPath: process.env.MOCK_LLM_SCRIPT,
+      chunkDelayMs: parseInt(process.env.MOCK_LLM_CHUNK_DELAY_MS || "0", 10),
+    },
+  },
+  // Run the summary worker inside the API process (disable when running `npm run worker`)
+  summaryWorkerInline: process.env.SUMMARY_WORKER_INLINE !== "false",
+  pii: {
+    redactTypes: piiRedactionTypes,
+    // Without a key, redacted values are not kept anywhere
+    vaultKey: piiVaultKey,
+  },
+  observability: {
+    logLevel,
+    redactFields: logRedactFields,
+    traceExporter,
+    // OTLP/HTTP collector; spans are posted to <endpoint>/v1/traces
+    otlpEndpoint: (
+      process.env.OTEL_EXPORTER_OTLP_ENDPOINT || "http://localhost:4318"
+    ).replace(/\/+$/, ""),
+    serviceName: process.env.OTEL_SERVICE_NAME || "chatbot-backend",
+  },
+  context: {
+    // Upper bound on prompt size, applied on top of the model's context window
+    maxPromptTokens: parseInt(process.env.CONTEXT_MAX_TOKENS || "6000", 10),
+  },
+  // Caps on prompt + completion tokens; once reached, replies are the limit
+  // message instead of an LLM call (0 = unlimited)
+  tokenBudget: {
+    perConversation: parseInt(process.env.TOKEN_BUDGET_PER_CONVERSATION || "0", 10),
+    // Per signed-in user, or per IP address for guests, per UTC day
+    perClientDaily: parseInt(process.env.TOKEN_BUDGET_PER_CLIENT_DAILY || "0", 10),
+  },
 };
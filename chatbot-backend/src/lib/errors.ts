@@ -0,0 +1,41 @@
+/**
+ * Application errors with a known HTTP mapping
+ * The global error handler maps them by `name`
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConflictError";
+  }
+}
+
+export class UnauthorizedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * The LLM failed after part of a streamed reply was sent
+ */
+export class ReplyInterruptedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplyInterruptedError";
+  }
+}
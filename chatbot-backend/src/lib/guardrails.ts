@@ -0,0 +1,350 @@
+import { PromptSectionInput } from "../types/prompt";
+import {
+  GuardrailContext,
+  GuardrailDecision,
+  GuardrailRule,
+  GuardrailStage,
+} from "../types/guardrail";
+
+const LEAK_SHINGLE_WORDS = 8; // Consecutive prompt words that count as a leak
+const MAX_MATCH_LENGTH = 80;
+
+const OFF_TOPIC_RESPONSE =
+  "I can only help with questions about our store, products and orders. What can I help you with?";
+const INTERNAL_RESPONSE =
+  "Sorry, I can't share details about how this assistant works. Is there anything I can help you with about our products or orders?";
+
+// Aimed at the assistant's own instructions, not any "instructions" or
+// "rules" (washing instructions, rules for refunds)
+const INJECTION_PATTERNS = [
+  /\b(?:ignore|disregard|forget|override|bypass)\b[^.?!\n]{0,30}\b(?:(?:previous|prior|above|earlier|preceding|original|initial|system|your|all(?: the| your)?)\s+(?:instructions?|rules|guidelines|prompts?|directives)|system prompt|guardrails)\b/i,
+  /\b(?:reveal|show|print|repeat|output|tell me|what (?:is|are))\b[^.?!\n]{0,30}\b(?:system prompt|hidden (?:prompt|instructions)|initial instructions|your (?:instructions|prompt)\b(?!\s+(?:for|on|about|regarding)\b))/i,
+  /\b(?:you are|you're) now (?:DAN\b|in \w+ mode\b|(?:an?|the) (?:\w+ )?(?:AI|assistant|bot|model|character)\b)/i,
+  /\bpretend (?:to be|you are|you're)\b/i,
+  /\b(?:developer|god|debug|DAN) mode\b/i,
+  /\bjailbreak/i,
+  // Fake conversation roles and chat-template tokens
+  /^\s*(?:system|assistant|developer)\s*:/im,
+  /<\|?(?:im_start|im_end|system|endoftext)\|?>/i,
+  /\[\/?(?:system|INST)\]/i,
+];
+
+const DISALLOWED_PATTERNS = [
+  /\b(?:stolen|cloned|skimmed)\s+(?:credit |debit )?cards?\b/i,
+  /\bcarding\b/i,
+  /\b(?:fake|fraudulent)\s+(?:reviews?|receipts?|invoices?|refunds?)\b/i,
+  /\brefund (?:scam|fraud)\b/i,
+  /\b(?:pipe bomb|explosives?|ghost gun|untraceable gun|methamphetamine)\b/i,
+  /\b(?:hack|ddos|phish)\w*\b[^.?!\n]{0,30}\b(?:account|site|store|website|server|password)s?\b/i,
+];
+
+// Prompt section labels (see llm.service) and implementation details
+const PROMPT_MARKER_PATTERN =
+  /\[(?:Product catalog|Reference material|Previous conversation summary|Recent conversation|End of [a-z ]+)\]|Important rules:/i;
+const INTERNAL_PATTERN =
+  /\b(?:system prompt|prisma|postgres(?:ql)?|redis|database tables?|sql quer(?:y|ies)|api keys?|jwt|stack traces?|node_modules|process\.env|[A-Z]+_API_KEY|tool invocations?|get_store_time|get_store_policy|escalate_to_human)\b/i;
+
+const PRICE_PATTERN =
+  /(?:[$€£₹]|\b(?:USD|EUR|GBP|INR|Rs\.?)\s?)\s?(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)|\b(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)\s?(?:USD|EUR|GBP|INR|dollars|euros|pounds|rupees)\b/gi;
+const NUMBER_PATTERN = /\d[\d,]*(?:\.\d+)?/g;
+const MAX_QUANTITY = 20; // Largest quantity a quoted total may multiply a price by
+// Return windows and delivery times ("30-day", "5-10 business days")
+const DURATION_PATTERN =
+  /\b(\d+)(?:\s?(?:-|–|to)\s?(\d+))?[- ]?(?:business |working |calendar )?(hour|day|week|month|year)s?\b/gi;
+const DISCOUNT_PATTERN = /\b(\d+(?:\.\d+)?)\s?% (?:off|discount)\b/gi;
+const UNIT_HOURS: Record<string, number> = { hour: 1, day: 24, week: 168, month: 720, year: 8760 };
+// What a duration is about, from the words of its sentence
+const POLICY_TOPICS: Record<string, RegExp> = {
+  returns: /\b(?:return|exchang)/i,
+  refunds: /\brefund/i,
+  dispatch: /\b(?:dispatch|ships?\b|shipped\b)/i,
+  delivery: /\b(?:deliver|arriv|transit)/i,
+  warranty: /\b(?:warrant|guarantee)/i,
+};
+
+type PolicyDuration = {
+  min: number; // Hours
+  max: number;
+  topics: string[];
+  match: string;
+};
+
+/**
+ * Lowercase words only, so formatting doesn't hide a repeated passage
+ */
+function normalizeWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_MATCH_LENGTH ? `${text.slice(0, MAX_MATCH_LENGTH)}…` : text;
+}
+
+function firstMatch(text: string, patterns: RegExp[]): string | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return match[0];
+    }
+  }
+  return null;
+}
+
+function toNumber(value: string): number {
+  return Number(value.replace(/,/g, ""));
+}
+
+function samePrice(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+function extractPrices(text: string): number[] {
+  return [...text.matchAll(PRICE_PATTERN)].map((match) => toNumber(match[1] ?? match[2]));
+}
+
+/**
+ * A price is known when a fact states the number, or when it is worked out
+ * from prices: a quantity (2 × 89.99), a sum or difference (price plus
+ * shipping, an order total of the prices quoted before it) or a discount
+ * Only amounts written as prices are worked from, so any number in the
+ * facts can't be multiplied into any price
+ */
+function isKnownPrice(
+  value: number,
+  context: { numbers: Set<number>; prices: number[]; discounts: number[] },
+  quoted: number[]
+): boolean {
+  if (context.numbers.has(value)) {
+    return true;
+  }
+  const bases = [...context.prices, ...quoted];
+  if (bases.some((base) => samePrice(base, value))) {
+    return true;
+  }
+  for (let quantity = 2; quantity <= MAX_QUANTITY; quantity++) {
+    if (bases.some((base) => samePrice(base * quantity, value))) {
+      return true;
+    }
+  }
+  if (quoted.length > 1 && samePrice(quoted.reduce((sum, price) => sum + price, 0), value)) {
+    return true;
+  }
+  if (
+    bases.some((a) =>
+      bases.some((b) => samePrice(a + b, value) || samePrice(a - b, value))
+    )
+  ) {
+    return true;
+  }
+  return context.discounts.some((percent) =>
+    bases.some((base) => samePrice(base * (1 - percent / 100), value))
+  );
+}
+
+function policyTopics(text: string): string[] {
+  return Object.keys(POLICY_TOPICS).filter((topic) => POLICY_TOPICS[topic].test(text));
+}
+
+/**
+ * Durations in a text with the topics of their sentence
+ * inheritTopics: a sentence naming no topic takes the whole text's (a policy
+ * section's later sentences are still about its title)
+ */
+function extractDurations(text: string, inheritTopics: boolean): PolicyDuration[] {
+  const textTopics = inheritTopics ? policyTopics(text) : [];
+
+  return text.split(/(?<=[.!?])\s+|\n+/).flatMap((sentence) => {
+    const sentenceTopics = policyTopics(sentence);
+    const topics = sentenceTopics.length > 0 ? sentenceTopics : textTopics;
+
+    return [...sentence.matchAll(DURATION_PATTERN)].map((match) => {
+      const hours = UNIT_HOURS[match[3].toLowerCase()];
+      const from = Number(match[1]) * hours;
+      const to = match[2] ? Number(match[2]) * hours : from;
+      return { min: Math.min(from, to), max: Math.max(from, to), topics, match: match[0] };
+    });
+  });
+}
+
+/**
+ * Discounts in a text, in percent
+ */
+function extractDiscounts(text: string): { percent: number; match: string }[] {
+  return [...text.matchAll(DISCOUNT_PATTERN)].map((match) => ({
+    percent: Number(match[1]),
+    match: match[0],
+  }));
+}
+
+/**
+ * A duration contradicts the facts when every topic it is about has
+ * durations in the facts and none of them covers it; durations the facts
+ * say nothing about pass
+ */
+function contradictsFacts(duration: PolicyDuration, stated: PolicyDuration[]): boolean {
+  return (
+    duration.topics.length > 0 &&
+    duration.topics.every((topic) => {
+      const known = stated.filter((fact) => fact.topics.includes(topic));
+      return (
+        known.length > 0 &&
+        !known.some((fact) => duration.min >= fact.min && duration.max <= fact.max)
+      );
+    })
+  );
+}
+
+/**
+ * Guardrail rules, checked in order; the first that fires decides
+ * Patterns favour precision: a rule that fires replaces the whole reply
+ */
+export const GUARDRAIL_RULES: GuardrailRule[] = [
+  {
+    id: "prompt_injection",
+    stage: "input",
+    description: "Attempts to override, reveal or role-play around the assistant's instructions",
+    check: (text) => firstMatch(text, INJECTION_PATTERNS),
+    safeResponse: OFF_TOPIC_RESPONSE,
+  },
+  {
+    id: "disallowed_content",
+    stage: "input",
+    description: "Requests for fraud, weapons or attacks on accounts and sites",
+    check: (text) => firstMatch(text, DISALLOWED_PATTERNS),
+    safeResponse:
+      "Sorry, I can't help with that. I'm happy to help with questions about our products, orders, shipping or returns.",
+  },
+  {
+    id: "system_prompt_leak",
+    stage: "output",
+    description: "Repeats the system prompt instructions or its section labels",
+    check: (text, context) => {
+      const marker = text.match(PROMPT_MARKER_PATTERN);
+      if (marker) {
+        return marker[0];
+      }
+
+      const reply = ` ${normalizeWords(text).join(" ")} `;
+      for (const instruction of context.instructions) {
+        const words = normalizeWords(instruction);
+        for (let i = 0; i + LEAK_SHINGLE_WORDS <= words.length; i++) {
+          const shingle = words.slice(i, i + LEAK_SHINGLE_WORDS).join(" ");
+          if (reply.includes(` ${shingle} `)) {
+            return shingle;
+          }
+        }
+      }
+      return null;
+    },
+    safeResponse: INTERNAL_RESPONSE,
+  },
+  {
+    id: "internal_details",
+    stage: "output",
+    description: "Mentions the system prompt, tools, infrastructure or credentials",
+    check: (text) => text.match(INTERNAL_PATTERN)?.[0] ?? null,
+    safeResponse: INTERNAL_RESPONSE,
+  },
+  {
+    id: "invented_price",
+    stage: "output",
+    description:
+      "Quotes a price that neither appears in nor is worked out from the catalog, policies or conversation",
+    check: (text, context) => {
+      const known = {
+        numbers: new Set(
+          context.facts.flatMap((fact) => (fact.match(NUMBER_PATTERN) ?? []).map(toNumber))
+        ),
+        prices: [...new Set(context.facts.flatMap(extractPrices))],
+        discounts: context.facts.flatMap((fact) =>
+          extractDiscounts(fact).map(({ percent }) => percent)
+        ),
+      };
+      const quoted: number[] = [];
+      for (const match of text.matchAll(PRICE_PATTERN)) {
+        const price = toNumber(match[1] ?? match[2]);
+        if (!isKnownPrice(price, known, quoted)) {
+          return match[0];
+        }
+        quoted.push(price);
+      }
+      return null;
+    },
+    safeResponse:
+      "Sorry, I couldn't confirm that price. Please check the product page for current pricing, or ask me about a specific product and I'll look it up in our catalog.",
+  },
+  {
+    id: "invented_policy",
+    stage: "output",
+    description:
+      "States a return window or delivery time that contradicts the store's policies, or a discount they don't offer",
+    check: (text, context) => {
+      const stated = context.facts.flatMap((fact) => extractDurations(fact, true));
+      const contradicted = extractDurations(text, false).find((duration) =>
+        contradictsFacts(duration, stated)
+      );
+      if (contradicted) {
+        return contradicted.match;
+      }
+
+      const discounts = new Set(
+        context.facts.flatMap((fact) => extractDiscounts(fact).map(({ percent }) => percent))
+      );
+      return extractDiscounts(text).find(({ percent }) => !discounts.has(percent))?.match ?? null;
+    },
+    safeResponse:
+      "Sorry, I couldn't confirm that from our store policies. A support agent can confirm the details for you.",
+  },
+];
+
+/**
+ * Build the context output checks run against
+ * Instruction sections must not be repeated; policy sections and the other
+ * facts (catalog, help center, conversation, tool results) may be quoted
+ */
+export function createGuardrailContext(
+  sections: PromptSectionInput[],
+  facts: string[]
+): GuardrailContext {
+  return {
+    instructions: sections
+      .filter((section) => section.kind === "instruction")
+      .map((section) => section.content),
+    facts: [
+      ...sections
+        .filter((section) => section.kind === "policy")
+        .map((section) => `${section.title}: ${section.content}`),
+      ...facts,
+    ],
+  };
+}
+
+/**
+ * Run the rules of a stage against a text
+ * Pure function, so rules can be checked against the fixture corpus
+ */
+export function runGuardrails(
+  stage: GuardrailStage,
+  text: string,
+  context: GuardrailContext,
+  rules: GuardrailRule[] = GUARDRAIL_RULES
+): GuardrailDecision {
+  for (const rule of rules) {
+    if (rule.stage !== stage) {
+      continue;
+    }
+
+    const match = rule.check(text, context);
+    if (match !== null) {
+      return {
+        allowed: false,
+        stage,
+        ruleId: rule.id,
+        match: truncate(match),
+        safeResponse: rule.safeResponse,
+      };
+    }
+  }
+
+  return { allowed: true, stage };
+}
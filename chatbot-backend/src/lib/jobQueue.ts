@@ -0,0 +1,132 @@
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import { getRedisClient } from "./redis";
+import { getRequestContext } from "./requestContext";
+import { currentTraceparent } from "./tracing";
+
+export type Job<TPayload> = {
+  id: string;
+  payload: TPayload;
+  attempts: number; // Failed attempts so far
+  enqueuedAt: string;
+  lastError?: string;
+  requestId?: string; // Request that enqueued the job, for log correlation
+  traceparent?: string; // Span that enqueued the job; the job continues its trace
+};
+
+type JobQueueOptions = {
+  maxAttempts: number; // Jobs failing this many times go to the dead-letter list
+  backoffMs: number; // Delay before the first retry, doubled on every retry
+};
+
+// Move due retries back to the ready list atomically (no double delivery)
+const PROMOTE_DUE_SCRIPT = `
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 100)
+for _, job in ipairs(due) do
+  redis.call('ZREM', KEYS[1], job)
+  redis.call('LPUSH', KEYS[2], job)
+end
+return #due
+`;
+
+/**
+ * Redis-backed job queue
+ *
+ * Keys (per queue name):
+ * - queue:<name>:ready   list of jobs waiting for a worker (FIFO)
+ * - queue:<name>:delayed sorted set of retries, scored by when they are due
+ * - queue:<name>:dead    list of jobs that exhausted their attempts
+ *
+ * Delivery is at-most-once: a job taken by a worker that crashes is lost,
+ * so job handlers must be idempotent and producers able to re-enqueue.
+ */
+export function createJobQueue<TPayload>(
+  name: string,
+  { maxAttempts, backoffMs }: JobQueueOptions
+) {
+  const keys = {
+    ready: `queue:${name}:ready`,
+    delayed: `queue:${name}:delayed`,
+    dead: `queue:${name}:dead`,
+  };
+
+  return {
+    name,
+
+    async enqueue(payload: TPayload): Promise<Job<TPayload>> {
+      const job: Job<TPayload> = {
+        id: randomUUID(),
+        payload,
+        attempts: 0,
+        enqueuedAt: new Date().toISOString(),
+        requestId: getRequestContext()?.requestId,
+        traceparent: currentTraceparent(),
+      };
+      await getRedisClient().lpush(keys.ready, JSON.stringify(job));
+      return job;
+    },
+
+    /**
+     * Wait for the next job
+     * Blocks its connection, so workers pass a dedicated client
+     *
+     * @returns null when no job arrived within timeoutSeconds
+     */
+    async next(
+      connection: Redis,
+      timeoutSeconds: number
+    ): Promise<Job<TPayload> | null> {
+      await connection.eval(
+        PROMOTE_DUE_SCRIPT,
+        2,
+        keys.delayed,
+        keys.ready,
+        Date.now()
+      );
+
+      const entry = await connection.brpop(keys.ready, timeoutSeconds);
+      return entry ? (JSON.parse(entry[1]) as Job<TPayload>) : null;
+    },
+
+    /**
+     * Run a job again after a delay without counting it as a failure
+     */
+    async postpone(job: Job<TPayload>, delayMs: number): Promise<void> {
+      await getRedisClient().zadd(
+        keys.delayed,
+        Date.now() + delayMs,
+        JSON.stringify(job)
+      );
+    },
+
+    /**
+     * Record a failed attempt: retry with exponential backoff, or dead-letter
+     *
+     * @returns true if the job was moved to the dead-letter list
+     */
+    async fail(job: Job<TPayload>, error: unknown): Promise<boolean> {
+      const failed: Job<TPayload> = {
+        ...job,
+        attempts: job.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+
+      if (failed.attempts >= maxAttempts) {
+        await getRedisClient().lpush(keys.dead, JSON.stringify(failed));
+        return true;
+      }
+
+      await this.postpone(failed, backoffMs * 2 ** (failed.attempts - 1));
+      return false;
+    },
+
+    /**
+     * True if the next attempt is the last one before dead-lettering
+     */
+    isLastAttempt(job: Job<TPayload>): boolean {
+      return job.attempts + 1 >= maxAttempts;
+    },
+  };
+}
+
+export type JobQueue<TPayload> = ReturnType<typeof createJobQueue<TPayload>>;
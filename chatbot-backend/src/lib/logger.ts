@@ -0,0 +1,102 @@
+import { appConfig } from "./env";
+import { getRequestContext } from "./requestContext";
+import { LOG_LEVELS, LogFields, LogLevel } from "../types/observability";
+
+const REDACTED = "[REDACTED]";
+const MAX_DEPTH = 5; // Deeper values are logged as "[Object]"
+
+const { logLevel, redactFields } = appConfig.observability;
+const minSeverity = LOG_LEVELS.indexOf(logLevel);
+
+/**
+ * Whether a field is redacted by LOG_REDACT_FIELDS
+ * Dotted span attributes match on their last segment (llm.prompt → prompt)
+ */
+function isRedacted(key: string): boolean {
+  const name = key.toLowerCase();
+  return (
+    redactFields.includes(name) ||
+    redactFields.includes(name.slice(name.lastIndexOf(".") + 1))
+  );
+}
+
+function serializeError(error: Error): LogFields {
+  return { name: error.name, message: error.message, stack: error.stack };
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (value === null || typeof value !== "object" || value instanceof Date) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isRedacted(key) ? REDACTED : redactValue(item, depth + 1),
+    ])
+  );
+}
+
+/**
+ * Replace the fields named in LOG_REDACT_FIELDS, at any depth
+ * Applied to every log line and span attribute
+ */
+export function redact(fields: LogFields): LogFields {
+  return redactValue(fields, 0) as LogFields;
+}
+
+function write(level: LogLevel, component: string, msg: string, fields?: LogFields): void {
+  if (LOG_LEVELS.indexOf(level) < minSeverity) {
+    return;
+  }
+
+  const context = getRequestContext();
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    component,
+    msg,
+    requestId: context?.requestId,
+    traceId: context?.span?.traceId,
+    spanId: context?.span?.spanId,
+  };
+
+  let line: string;
+  try {
+    line = JSON.stringify({ ...entry, ...(fields && redact(fields)) });
+  } catch {
+    // BigInt or other unserializable fields: keep the line without them
+    line = JSON.stringify({ ...entry, fields: "[Unserializable]" });
+  }
+  process.stdout.write(`${line}\n`);
+}
+
+export type Logger = Record<LogLevel, (msg: string, fields?: LogFields) => void>;
+
+/**
+ * Structured JSON logger
+ *
+ * One line per entry on stdout with the level, the component that logged
+ * it and, inside a request or job, its requestId, traceId and spanId, so
+ * every line of one chat turn can be found across route, service,
+ * repository and LLM call. Errors go in an `err` field.
+ *
+ * Levels below LOG_LEVEL (default: debug in development, info otherwise)
+ * are dropped.
+ */
+export function createLogger(component: string): Logger {
+  return {
+    debug: (msg, fields) => write("debug", component, msg, fields),
+    info: (msg, fields) => write("info", component, msg, fields),
+    warn: (msg, fields) => write("warn", component, msg, fields),
+    error: (msg, fields) => write("error", component, msg, fields),
+  };
+}
@@ -0,0 +1,227 @@
+import type Redis from "ioredis";
+import type { Pool } from "pg";
+import {
+  Counter,
+  Gauge,
+  Histogram,
+  Registry,
+  collectDefaultMetrics,
+} from "prom-client";
+
+/**
+ * Prometheus metrics, served at GET /metrics
+ *
+ * Names and labels are part of the dashboards and alerts built on them:
+ * don't rename them, add new ones instead. Label values are bounded
+ * (routes are route patterns, never URLs; unmatched requests share one
+ * value) so series don't grow with traffic.
+ */
+export const metricsRegistry = new Registry();
+
+// process_* and nodejs_* (CPU, memory, event loop lag, GC)
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Read when scraped (see observeDbPool, observeRedis)
+let dbPool: Pool | null = null;
+let redisClient: Redis | null = null;
+
+const LLM_BUCKETS = [0.25, 0.5, 1, 2, 4, 8, 16, 32, 64]; // Seconds
+const SUMMARY_BUCKETS = [0.5, 1, 2, 4, 8, 16, 32, 64, 128];
+
+/**
+ * http_requests_total{method, route, status}
+ * HTTP requests by route pattern (e.g. /api/v1/chat/history/:sessionId;
+ * "unmatched" for requests answered before reaching a route: 404s, missing
+ * API keys) and status code
+ */
+export const httpRequestsTotal = new Counter({
+  name: "http_requests_total",
+  help: "HTTP requests by method, route pattern and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * http_request_duration_seconds{method, route, status}
+ * Until the response is finished (streams: until the last event)
+ */
+export const httpRequestDuration = new Histogram({
+  name: "http_request_duration_seconds",
+  help: "HTTP request duration in seconds by method, route pattern and status code",
+  labelNames: ["method", "route", "status"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * llm_request_duration_seconds{provider, model, operation, outcome}
+ * One LLM call (one iteration of the reply loop, or a summary)
+ * - operation: generate | stream
+ * - outcome: success | error | aborted (client disconnected mid-stream)
+ * The _count series with outcome="error" counts failures
+ */
+export const llmRequestDuration = new Histogram({
+  name: "llm_request_duration_seconds",
+  help: "LLM call duration in seconds by provider, model, operation and outcome",
+  labelNames: ["provider", "model", "operation", "outcome"] as const,
+  buckets: LLM_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * llm_stream_first_chunk_seconds{provider, model}
+ * Time until a streamed call produced its first text or tool call
+ */
+export const llmStreamFirstChunk = new Histogram({
+  name: "llm_stream_first_chunk_seconds",
+  help: "Seconds until a streamed LLM call produced its first event",
+  labelNames: ["provider", "model"] as const,
+  buckets: LLM_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * llm_fallback_replies_total{mode}
+ * Replies that were the apology text because the LLM failed
+ * - mode: generate (generateReply) | stream (streamReply)
+ */
+export const llmFallbackReplies = new Counter({
+  name: "llm_fallback_replies_total",
+  help: "Replies replaced with the fallback apology after an LLM failure",
+  labelNames: ["mode"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * llm_tokens_total{kind, model, type}
+ * Tokens recorded in the usage ledger (estimated when the provider
+ * reports none)
+ * - kind: reply | summary | handoff_note
+ * - type: prompt | completion
+ */
+export const llmTokensTotal = new Counter({
+  name: "llm_tokens_total",
+  help: "LLM tokens consumed by kind, model and type (prompt, completion)",
+  labelNames: ["kind", "model", "type"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * token_budget_rejections_total{scope}
+ * Messages answered with the limit message instead of an LLM call
+ * - scope: conversation | client_daily
+ */
+export const tokenBudgetRejections = new Counter({
+  name: "token_budget_rejections_total",
+  help: "Messages refused because a token budget was reached, by scope",
+  labelNames: ["scope"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * summary_runs_total{kind, outcome}
+ * - kind: initial | re_summary
+ * - outcome: success | fallback (placeholder summary saved) | error (job retried)
+ */
+export const summaryRunsTotal = new Counter({
+  name: "summary_runs_total",
+  help: "Summarization runs by kind and outcome",
+  labelNames: ["kind", "outcome"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * summary_duration_seconds{kind}
+ * Generating one summary, fallbacks and errors included
+ */
+export const summaryDuration = new Histogram({
+  name: "summary_duration_seconds",
+  help: "Summary generation duration in seconds by kind",
+  labelNames: ["kind"] as const,
+  buckets: SUMMARY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * rate_limit_rejections_total{policy, identity, store}
+ * Requests rejected by the rate limiter (REST and WebSocket)
+ * - policy: chat | auth
+ * - identity: ip | user (the window that was full), or "unavailable" when
+ *   Redis was down and RATE_LIMIT_FAIL_MODE=closed
+ * - store: store slug
+ */
+export const rateLimitRejections = new Counter({
+  name: "rate_limit_rejections_total",
+  help: "Requests rejected by the rate limiter by policy, identity and store",
+  labelNames: ["policy", "identity", "store"] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * db_pool_connections{state}
+ * Postgres pool: total | idle | waiting (queries queued for a connection)
+ */
+export const dbPoolConnections = new Gauge({
+  name: "db_pool_connections",
+  help: "Postgres connection pool by state (total, idle, waiting)",
+  labelNames: ["state"] as const,
+  registers: [metricsRegistry],
+  collect() {
+    if (dbPool) {
+      this.set({ state: "total" }, dbPool.totalCount);
+      this.set({ state: "idle" }, dbPool.idleCount);
+      this.set({ state: "waiting" }, dbPool.waitingCount);
+    }
+  },
+});
+
+/**
+ * db_pool_max_connections
+ */
+export const dbPoolMaxConnections = new Gauge({
+  name: "db_pool_max_connections",
+  help: "Size limit of the Postgres connection pool",
+  registers: [metricsRegistry],
+  collect() {
+    if (dbPool) {
+      this.set(dbPool.options.max ?? 0);
+    }
+  },
+});
+
+/**
+ * redis_connected
+ * 1 while the shared Redis client is ready to accept commands
+ */
+export const redisConnected = new Gauge({
+  name: "redis_connected",
+  help: "Whether the shared Redis client is ready (1) or not (0)",
+  registers: [metricsRegistry],
+  collect() {
+    this.set(redisClient?.status === "ready" ? 1 : 0);
+  },
+});
+
+/**
+ * redis_errors_total
+ * Connection errors reported by the shared Redis client
+ */
+export const redisErrors = new Counter({
+  name: "redis_errors_total",
+  help: "Connection errors reported by the shared Redis client",
+  registers: [metricsRegistry],
+});
+
+/**
+ * Report the Postgres pool's connections on every scrape
+ */
+export function observeDbPool(pool: Pool): void {
+  dbPool = pool;
+}
+
+/**
+ * Report the shared Redis client's state and errors
+ */
+export function observeRedis(client: Redis): void {
+  redisClient = client;
+  client.on("error", () => redisErrors.inc());
+}
@@ -0,0 +1,118 @@
+import { PiiFinding, PiiRule, PiiType, RedactionResult } from "../types/pii";
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Luhn checksum, so order numbers and other long digit runs aren't taken
+ * for card numbers
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function countDigits(value: string): number {
+  return value.replace(/\D/g, "").length;
+}
+
+/**
+ * Detection rules, applied in order: a span claimed by an earlier rule
+ * isn't matched again (card numbers before phone numbers)
+ * Patterns favour precision over recall: a missed value stays in the
+ * text, a false positive hides something the assistant needed.
+ */
+export const PII_RULES: PiiRule[] = [
+  {
+    type: "card",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: (match) => passesLuhn(match),
+  },
+  {
+    type: "email",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    type: "ssn",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    // International (+44 20 7946 0958), North American (555-123-4567,
+    // (555) 123 4567) or national with a trunk 0 (020 7946 0958, 07700
+    // 900123). Numbers touching letters or hyphens are references, not
+    // phones: ORD-2024-55831
+    type: "phone",
+    pattern:
+      /(?<![\w+-])(?:\+\d{1,3}(?:[ .-]?\(?\d{1,5}\)?){2,5}|\(\d{2,5}\)[ .-]?\d{3,4}[ .-]?\d{3,4}|\d{3}(?:-\d{3}-|\.\d{3}\.| \d{3} )\d{4}|0\d{2,4}[ .-]\d{3,4}[ .-]\d{3,4}|0\d{4}[ .-]\d{6})(?![\w-])/g,
+    validate: (match) =>
+      countDigits(match) >= (match.startsWith("+") ? 8 : 10) &&
+      countDigits(match) <= 15 &&
+      !ISO_DATE_PATTERN.test(match),
+  },
+  {
+    // Street addresses: "221B Baker Street", "1600 Pennsylvania Ave"
+    // Not quantities ("bought 2 Ocean Way Sandals"): no counting word
+    // before the number, no capitalised word after the suffix
+    type: "address",
+    pattern:
+      /(?<!(?:\b(?:bought|buy|buying|ordered|order|purchased|want|need|get|add|added|and|plus|of|qty:?|x)|×)\s*)(?<![\w-])\d{1,5}[A-Za-z]?\s+(?:[A-Z][A-Za-z'-]*\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Square|Sq)\b\.?(?!\s+[A-Z][a-z])/g,
+  },
+];
+
+/**
+ * Replace PII in a text with typed placeholders ([CARD_1], [EMAIL_2]...)
+ * Pure function: the rules to apply are passed in, numbering restarts for
+ * every text and a repeated value reuses its placeholder.
+ */
+export function redactPii(text: string, rules: PiiRule[]): RedactionResult {
+  // 1. Collect matches; earlier rules win overlapping spans
+  const spans: { start: number; end: number; type: PiiType; value: string }[] = [];
+  for (const rule of rules) {
+    for (const match of text.matchAll(rule.pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = spans.some((span) => start < span.end && end > span.start);
+      if (overlaps || (rule.validate && !rule.validate(match[0]))) {
+        continue;
+      }
+      spans.push({ start, end, type: rule.type, value: match[0] });
+    }
+  }
+
+  if (spans.length === 0) {
+    return { text, findings: [] };
+  }
+
+  // 2. Number placeholders per type in reading order
+  spans.sort((a, b) => a.start - b.start);
+  const findings: PiiFinding[] = [];
+  const placeholders = new Map<string, string>();
+  const counters: Partial<Record<PiiType, number>> = {};
+
+  let redacted = "";
+  let cursor = 0;
+  for (const span of spans) {
+    const key = `${span.type}:${span.value}`;
+    let placeholder = placeholders.get(key);
+    if (!placeholder) {
+      counters[span.type] = (counters[span.type] ?? 0) + 1;
+      placeholder = `[${span.type.toUpperCase()}_${counters[span.type]}]`;
+      placeholders.set(key, placeholder);
+      findings.push({ type: span.type, placeholder, value: span.value });
+    }
+
+    redacted += text.slice(cursor, span.start) + placeholder;
+    cursor = span.end;
+  }
+  redacted += text.slice(cursor);
+
+  return { text: redacted, findings };
+}
@@ -3,6 +3,11 @@ import { PrismaClient } from "@prisma/client";
 import { PrismaPg } from "@prisma/adapter-pg";
 import { Pool } from "pg";
 import { appConfig } from "./env";
+import { createLogger } from "./logger";
+import { withChildSpan } from "./tracing";
+import { observeDbPool } from "./metrics";
+
+const log = createLogger("prisma");
 
 // Create connection pool
 const pool = new Pool({
@@ -18,16 +23,42 @@ const pool = new Pool({
       : false,
 });
 
+observeDbPool(pool);
+
 const adapter = new PrismaPg(pool);
 
 // Singleton Prisma Client instance
 // This ensures only ONE Prisma client exists across the entire application
 // All repositories and services import this same instance
-let prismaInstance: PrismaClient | null = null;
+let prismaInstance: ReturnType<typeof createPrismaClient> | null = null;
+
+/**
+ * Client with a span around every query (model operations and raw SQL)
+ */
+function createPrismaClient() {
+  return new PrismaClient({ adapter }).$extends({
+    query: {
+      async $allOperations({ model, operation, args, query }) {
+        return withChildSpan(
+          `prisma ${model ? `${model}.` : ""}${operation}`,
+          {
+            kind: "client",
+            attributes: {
+              "db.system": "postgresql",
+              "db.operation": operation,
+              "db.model": model,
+            },
+          },
+          () => query(args)
+        );
+      },
+    },
+  });
+}
 
-function getPrismaClient(): PrismaClient {
+function getPrismaClient() {
   if (!prismaInstance) {
-    prismaInstance = new PrismaClient({ adapter });
+    prismaInstance = createPrismaClient();
   }
   return prismaInstance;
 }
@@ -37,8 +68,8 @@ export const prisma = getPrismaClient();
 (async () => {
   try {
     await prisma.$connect();
-    console.log("Prisma initial connection OK");
+    log.info("Prisma initial connection OK");
   } catch (err) {
-    console.error("Prisma failed to connect", err);
+    log.error("Prisma failed to connect", { err });
   }
 })();
@@ -0,0 +1,60 @@
+import Redis from "ioredis";
+import { getRedisClient } from "./redis";
+import { createLogger } from "./logger";
+import { ConversationEvent } from "../types/realtime";
+
+const log = createLogger("realtime");
+
+const CHANNEL = "conversation_events";
+
+type Listener = (event: ConversationEvent) => void;
+
+const listeners = new Set<Listener>();
+let subscriber: Redis | null = null;
+
+/**
+ * Broadcast a conversation event to every API instance
+ * Sockets may be connected to any instance, so events go through Redis
+ * pub/sub. Never throws: a lost event only delays the client's update
+ */
+export async function publishConversationEvent(
+  event: ConversationEvent
+): Promise<void> {
+  try {
+    await getRedisClient().publish(CHANNEL, JSON.stringify(event));
+  } catch (error) {
+    log.error("Failed to publish conversation event", { err: error });
+  }
+}
+
+/**
+ * Listen to conversation events published by any instance
+ *
+ * @returns a function that removes the listener
+ */
+export function onConversationEvent(listener: Listener): () => void {
+  if (!subscriber) {
+    // A subscribed connection can't run other commands: use a dedicated one,
+    // which waits for Redis instead of giving up on the subscription
+    subscriber = getRedisClient().duplicate({ maxRetriesPerRequest: null });
+    subscriber.on("error", (err) => {
+      log.error("Redis subscriber error", { err: err.message });
+    });
+    subscriber.on("message", (channel: string, payload: string) => {
+      if (channel !== CHANNEL) return;
+
+      const event = JSON.parse(payload) as ConversationEvent;
+      for (const notify of listeners) {
+        notify(event);
+      }
+    });
+    subscriber.subscribe(CHANNEL).catch((error) => {
+      log.error("Failed to subscribe to conversation events", { err: error });
+    });
+  }
+
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
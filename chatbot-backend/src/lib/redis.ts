@@ -1,12 +1,51 @@
 import Redis from "ioredis";
 import { appConfig } from "./env";
+import { createLogger } from "./logger";
+import { withChildSpan } from "./tracing";
+import { observeRedis } from "./metrics";
+
+const log = createLogger("redis");
 
 let redisClient: Redis | null = null;
 
+function redactCredentials(url: string): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = "***";
+    }
+    return parsed.toString();
+  } catch {
+    return "[invalid URL]";
+  }
+}
+
+/**
+ * Put a span around every command sent on a client
+ * (duplicated connections - blocking pops, pub/sub - are left untraced)
+ */
+function traceCommands(client: Redis): void {
+  const sendCommand = client.sendCommand.bind(client);
+
+  client.sendCommand = (command, stream) => {
+    void withChildSpan(
+      `redis ${command.name}`,
+      {
+        kind: "client",
+        attributes: { "db.system": "redis", "db.operation": command.name },
+      },
+      () => command.promise
+    ).catch(() => {
+      // The caller handles the command's own promise
+    });
+    return sendCommand(command, stream);
+  };
+}
+
 export function getRedisClient(): Redis {
   if (!redisClient) {
-    console.log(`Connecting to Redis at ${appConfig.redisUrl}...`);
-    
+    log.info("Connecting to Redis", { url: redactCredentials(appConfig.redisUrl) });
+
     redisClient = new Redis(appConfig.redisUrl, {
       maxRetriesPerRequest: 3,
       retryStrategy: (times) => {
@@ -18,24 +57,27 @@ export function getRedisClient(): Redis {
     });
 
     redisClient.on("error", (err) => {
-      console.error("Redis Client Error:", err.message);
+      log.error("Redis client error", { err: err.message });
     });
 
     redisClient.on("connect", () => {
-      console.log("Redis connected successfully");
+      log.info("Redis connected");
     });
 
     redisClient.on("ready", () => {
-      console.log("Redis ready to accept commands");
+      log.info("Redis ready to accept commands");
     });
 
     redisClient.on("close", () => {
-      console.log("Redis connection closed");
+      log.info("Redis connection closed");
     });
 
     redisClient.on("reconnecting", () => {
-      console.log("Redis reconnecting...");
+      log.warn("Redis reconnecting");
     });
+
+    traceCommands(redisClient);
+    observeRedis(redisClient);
   }
 
   return redisClient;
@@ -0,0 +1,21 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { RequestContext } from "../types/observability";
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run fn (and everything it awaits or schedules) with a request context
+ * Services, repositories and providers never receive it as a parameter:
+ * the logger and the tracer read it from here
+ */
+export function runWithContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request or job being handled, if any
+ * (undefined at startup and in background loops between jobs)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,29 @@
+const MIN_TERM_LENGTH = 2;
+const MAX_TERMS = 16;
+
+/**
+ * Build a Postgres tsquery string that matches ANY of the words in the text
+ *
+ * plainto_tsquery ANDs every word, which is too strict for chat messages
+ * ("do you have red running shoes in size 42?"). Terms are reduced to
+ * [a-z0-9] so user input can never inject tsquery operators, and get a
+ * prefix wildcard so partial words still match.
+ *
+ * Returns null if the text contains no searchable terms.
+ */
+export function buildAnyTermTsQuery(text: string): string | null {
+  const terms = Array.from(
+    new Set(
+      text
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter((term) => term.length >= MIN_TERM_LENGTH)
+    )
+  ).slice(0, MAX_TERMS);
+
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `${term}:*`).join(" | ");
+}
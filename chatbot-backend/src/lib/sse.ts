@@ -0,0 +1,29 @@
+import { Response } from "express";
+
+/**
+ * Prepare a response for Server-Sent Events
+ * Headers are flushed immediately so the client starts reading right away
+ */
+export function openSseStream(res: Response): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  // Disable proxy buffering (nginx) so chunks are delivered as they are written
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+}
+
+/**
+ * Write a single named SSE event with a JSON payload
+ */
+export function writeSseEvent(
+  res: Response,
+  event: string,
+  data: unknown
+): void {
+  if (res.writableEnded) {
+    return;
+  }
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
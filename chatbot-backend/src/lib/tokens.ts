@@ -0,0 +1,23 @@
+import { LLMUsage } from "../types/llm";
+
+const CHARS_PER_TOKEN = 4; // Conservative average for English text across tokenizers
+
+export const NO_USAGE: LLMUsage = { promptTokens: 0, completionTokens: 0 };
+
+/**
+ * Estimate how many tokens a text uses
+ * Provider tokenizers differ; budgets are sized with headroom for the error
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Add up the usage of several LLM calls
+ */
+export function addUsage(a: LLMUsage, b: LLMUsage): LLMUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+  };
+}
@@ -0,0 +1,251 @@
+import { randomBytes } from "crypto";
+import { performance } from "perf_hooks";
+import { appConfig } from "./env";
+import { createLogger, redact } from "./logger";
+import { getRequestContext, runWithContext } from "./requestContext";
+import {
+  SpanAttributes,
+  SpanContext,
+  SpanKind,
+  SpanRecord,
+} from "../types/observability";
+
+const log = createLogger("tracing");
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+const OTLP_BATCH_SIZE = 100; // Spans per export request
+const OTLP_FLUSH_INTERVAL_MS = 5000; // Longest a finished span waits for export
+
+// OTLP enums
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_ERROR = 2;
+
+const { traceExporter, otlpEndpoint, serviceName } = appConfig.observability;
+
+// Finished spans waiting to be posted to the collector
+const pendingSpans: SpanRecord[] = [];
+let flushTimer: NodeJS.Timeout | null = null;
+
+export type Span = SpanContext & {
+  setAttributes(attributes: SpanAttributes): void;
+  updateName(name: string): void;
+  /** Finish the span, failed if an error is given; later calls are ignored */
+  end(error?: unknown): void;
+};
+
+type SpanOptions = {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /** Defaults to the span in progress in the current context */
+  parent?: SpanContext | null;
+};
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function toNanos(ms: number): string {
+  return BigInt(Math.round(ms * 1e6)).toString();
+}
+
+function toOtlpValue(value: string | number | boolean) {
+  if (typeof value === "string") return { stringValue: value };
+  if (typeof value === "boolean") return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string | number | boolean] => entry[1] !== undefined)
+    .map(([key, value]) => ({ key, value: toOtlpValue(value) }));
+}
+
+function toOtlpSpan(span: SpanRecord) {
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+    name: span.name,
+    kind: OTLP_SPAN_KINDS[span.kind],
+    startTimeUnixNano: toNanos(span.startTime),
+    endTimeUnixNano: toNanos(span.endTime),
+    attributes: toOtlpAttributes(span.attributes),
+    status: span.error ? { code: OTLP_STATUS_ERROR, message: span.error } : {},
+  };
+}
+
+function scheduleFlush(): void {
+  if (pendingSpans.length >= OTLP_BATCH_SIZE) {
+    void flushSpans();
+  } else if (!flushTimer) {
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void flushSpans();
+    }, OTLP_FLUSH_INTERVAL_MS);
+    // Don't keep a finished script alive just to export
+    flushTimer.unref();
+  }
+}
+
+function exportSpan(span: SpanRecord): void {
+  switch (traceExporter) {
+    case "none":
+      return;
+    case "stdout":
+      process.stdout.write(
+        `${JSON.stringify({
+          time: new Date(span.endTime).toISOString(),
+          type: "span",
+          ...span,
+          durationMs: Math.round((span.endTime - span.startTime) * 100) / 100,
+        })}\n`
+      );
+      return;
+    case "otlp":
+      pendingSpans.push(span);
+      scheduleFlush();
+      return;
+  }
+}
+
+/**
+ * Start a span; it is exported when ended
+ *
+ * The span doesn't become the current one: code that should run inside it
+ * (so its own spans and log lines point to it) goes through withSpan.
+ */
+export function startSpan(name: string, options: SpanOptions = {}): Span {
+  const parent =
+    options.parent !== undefined ? options.parent : getRequestContext()?.span ?? null;
+  const traceId = parent?.traceId ?? randomBytes(16).toString("hex");
+  const spanId = randomBytes(8).toString("hex");
+  const startTime = now();
+  const attributes: SpanAttributes = { ...options.attributes };
+  let ended = false;
+
+  return {
+    traceId,
+    spanId,
+    setAttributes(values) {
+      Object.assign(attributes, values);
+    },
+    updateName(value) {
+      name = value;
+    },
+    end(error) {
+      if (ended) {
+        return;
+      }
+      ended = true;
+
+      exportSpan({
+        traceId,
+        spanId,
+        parentSpanId: parent?.spanId ?? null,
+        name,
+        kind: options.kind ?? "internal",
+        startTime,
+        endTime: now(),
+        attributes: redact(attributes) as SpanAttributes,
+        error:
+          error === undefined
+            ? null
+            : error instanceof Error
+              ? error.message
+              : String(error),
+      });
+    },
+  };
+}
+
+/**
+ * Run fn inside a new span, ending it when fn settles (failed if it throws)
+ * Everything fn awaits sees the span as the current one
+ */
+export async function withSpan<T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, options);
+  const context = getRequestContext();
+  const run = () => fn(span);
+
+  try {
+    const result = await (context
+      ? runWithContext({ ...context, span: { traceId: span.traceId, spanId: span.spanId } }, run)
+      : run());
+    span.end();
+    return result;
+  } catch (error) {
+    span.end(error);
+    throw error;
+  }
+}
+
+/**
+ * Like withSpan, but only inside a trace
+ * Used for Postgres and Redis calls, so startup queries and background
+ * polling don't produce one trace per query
+ */
+export function withChildSpan<T>(
+  name: string,
+  options: Omit<SpanOptions, "parent">,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!getRequestContext()?.span) {
+    return fn();
+  }
+  return withSpan(name, options, () => fn());
+}
+
+/**
+ * Parse a W3C traceparent header (version 00), null if absent or malformed
+ */
+export function parseTraceparent(header: string | undefined): SpanContext | null {
+  const match = header ? TRACEPARENT_PATTERN.exec(header.trim()) : null;
+  return match ? { traceId: match[1], spanId: match[2] } : null;
+}
+
+/**
+ * traceparent of the current span, to continue the trace elsewhere (queued jobs)
+ */
+export function currentTraceparent(): string | undefined {
+  const span = getRequestContext()?.span;
+  return span ? `00-${span.traceId}-${span.spanId}-01` : undefined;
+}
+
+/**
+ * Post the pending spans to the collector (TRACE_EXPORTER=otlp)
+ * Called on a timer and on shutdown; a failed export is logged and dropped
+ */
+export async function flushSpans(): Promise<void> {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (pendingSpans.length === 0) {
+    return;
+  }
+
+  const spans = pendingSpans.splice(0);
+  try {
+    const response = await fetch(`${otlpEndpoint}/v1/traces`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        resourceSpans: [
+          {
+            resource: { attributes: toOtlpAttributes({ "service.name": serviceName }) },
+            scopeSpans: [{ scope: { name: serviceName }, spans: spans.map(toOtlpSpan) }],
+          },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Collector responded with ${response.status}`);
+    }
+  } catch (error) {
+    log.warn("Failed to export spans", { spans: spans.length, err: error });
+  }
+}
@@ -0,0 +1,16 @@
+import { ChatHistoryMessage } from "../types/chat";
+
+// The bot is the "Agent" in prompts; human agents are labelled apart so the
+// model and summaries can tell who said what
+const SPEAKER_LABELS: Record<ChatHistoryMessage["sender"], string> = {
+  user: "Customer",
+  ai: "Agent",
+  agent: "Human agent",
+};
+
+/**
+ * Render messages as "Speaker: text" lines for prompts
+ */
+export function formatTranscript(messages: ChatHistoryMessage[]): string {
+  return messages.map((m) => `${SPEAKER_LABELS[m.sender]}: ${m.text}`).join("\n");
+}
@@ -0,0 +1,37 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12; // Recommended nonce size for GCM
+
+/**
+ * Encrypt a secret with AES-256-GCM
+ * A fresh IV per value; the auth tag makes tampering detectable
+ *
+ * @returns "iv.authTag.data", each part base64
+ */
+export function encryptSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), data]
+    .map((part) => part.toString("base64"))
+    .join(".");
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * Throws if the key is wrong or the ciphertext was altered
+ */
+export function decryptSecret(ciphertext: string, key: Buffer): string {
+  const [iv, authTag, data] = ciphertext
+    .split(".")
+    .map((part) => Buffer.from(part, "base64"));
+  if (!iv || !authTag || !data) {
+    throw new Error("Malformed ciphertext");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString("utf8");
+}
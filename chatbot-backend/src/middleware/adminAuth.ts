@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from "express";
+import { timingSafeEqual } from "crypto";
+import { appConfig } from "../lib/env";
+
+/**
+ * Constant-time string comparison (avoids leaking the key through timing)
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Admin authentication middleware
+ * Requires "Authorization: Bearer <ADMIN_API_KEY>"
+ * The admin API is disabled entirely when ADMIN_API_KEY is not configured.
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!appConfig.adminApiKey) {
+    res.status(503).json({
+      error: "Service unavailable",
+      message: "Admin API is not configured",
+    });
+    return;
+  }
+
+  const header = req.headers.authorization ?? "";
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+  if (!token || !safeEqual(token, appConfig.adminApiKey)) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: "Valid admin credentials are required",
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction } from "express";
+import { authService } from "../services/auth.service";
+import { userRepo } from "../repositories/user.repo";
+import { UnauthorizedError } from "../lib/errors";
+
+/**
+ * User authentication middleware
+ * Attaches req.user when "Authorization: Bearer <token>" is present.
+ * Requests without a token continue anonymously; an invalid or expired
+ * token, or one issued by another store, is rejected so the client knows
+ * to sign in again. Use after identifyStore
+ */
+export function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const header = req.headers.authorization ?? "";
+  if (!header) {
+    return next();
+  }
+
+  const token = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+  try {
+    const user = authService.verifyToken(token);
+    if (user.storeId !== req.store!.id) {
+      throw new UnauthorizedError("Invalid or expired access token");
+    }
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+/**
+ * Accept a client ID only if it is well-formed
+ */
+export function parseClientId(value: unknown): string | undefined {
+  return typeof value === "string" && CLIENT_ID_PATTERN.test(value)
+    ? value
+    : undefined;
+}
+
+/**
+ * Anonymous client identification middleware
+ * Reads the browser's persistent "X-Client-Id" so guests can list and
+ * manage the conversations they started. Malformed IDs are ignored.
+ */
+export function identifyClient(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const clientId = parseClientId(req.headers["x-client-id"]);
+  if (clientId) {
+    req.clientId = clientId;
+  }
+
+  next();
+}
+
+/**
+ * Reject anonymous requests (use after authenticate)
+ */
+export function requireUser(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.user) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: "Sign in to continue",
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Only let support agents through (use after requireUser)
+ * The role is read from the database, so promotions and demotions apply
+ * without signing in again
+ */
+export async function requireAgent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const user = await userRepo.findById(req.store!.id, req.user!.id);
+    if (user?.role !== "agent") {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "Only support agents can access this",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
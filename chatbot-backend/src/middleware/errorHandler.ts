@@ -1,4 +1,82 @@
 import { Request, Response, NextFunction } from "express";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("http");
+
+export type ErrorResponse = {
+  status: number;
+  body: { error: string; message: string; details?: string };
+};
+
+/**
+ * Map an error to its HTTP status and client-safe body
+ * Shared by the HTTP error handler and the WebSocket
+ */
+export function toErrorResponse(err: Error): ErrorResponse {
+  // Don't expose internal errors
+  const isProduction = process.env.NODE_ENV === "production";
+
+  // Handle known error types
+  if (err.name === "ValidationError") {
+    return {
+      status: 400,
+      body: {
+        error: "Validation error",
+        message: err.message || "Invalid input",
+      },
+    };
+  }
+
+  if (err.name === "UnauthorizedError") {
+    return {
+      status: 401,
+      body: {
+        error: "Unauthorized",
+        message: err.message || "Authentication required",
+      },
+    };
+  }
+
+  if (err.name === "NotFoundError") {
+    return {
+      status: 404,
+      body: {
+        error: "Not found",
+        message: err.message || "Resource not found",
+      },
+    };
+  }
+
+  if (err.name === "ConflictError") {
+    return {
+      status: 409,
+      body: {
+        error: "Conflict",
+        message: err.message || "Request conflicts with the current state",
+      },
+    };
+  }
+
+  if (err.name === "ReplyInterruptedError") {
+    return {
+      status: 502,
+      body: {
+        error: "Reply interrupted",
+        message: err.message || "The reply was interrupted. Please try again.",
+      },
+    };
+  }
+
+  // Generic error response
+  return {
+    status: 500,
+    body: {
+      error: "Internal server error",
+      message: "An unexpected error occurred. Please try again later.",
+      ...(isProduction ? {} : { details: err.message }),
+    },
+  };
+}
 
 /**
  * Global error handler middleware
@@ -10,25 +88,12 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ): void {
-  console.error("Error:", err);
-
-  // Don't expose internal errors
-  const isProduction = process.env.NODE_ENV === "production";
-
-  // Handle known error types
-  if (err.name === "ValidationError") {
-    res.status(400).json({
-      error: "Validation error",
-      message: err.message || "Invalid input",
-    });
-    return;
+  const { status, body } = toErrorResponse(err);
+  if (status >= 500) {
+    log.error("Unhandled error", { method: req.method, path: req.originalUrl, err });
+  } else {
+    log.debug("Request rejected", { status, message: body.message });
   }
 
-  // Generic error response
-  res.status(500).json({
-    error: "Internal server error",
-    message: "An unexpected error occurred. Please try again later.",
-    ...(isProduction ? {} : { details: err.message }),
-  });
+  res.status(status).json(body);
 }
-
@@ -0,0 +1,155 @@
+import { createHash } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { getRedisClient } from "../lib/redis";
+import { createLogger } from "../lib/logger";
+import { getClientIp } from "./rateLimiter";
+
+/**
+ * Idempotency configuration
+ */
+const log = createLogger("idempotency");
+
+const IDEMPOTENCY = {
+  inProgressTtlSeconds: 2 * 60, // Longer than a reply takes, tools included
+  completedTtlSeconds: 24 * 60 * 60, // How long a retry can get the original reply
+};
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+
+type IdempotencyRecord =
+  | { state: "in_progress"; fingerprint: string }
+  | { state: "completed"; fingerprint: string; status: number; body: unknown };
+
+/**
+ * Keys are scoped to the store and whoever sent the request, so guessing
+ * another client's key can't reveal its reply
+ */
+function getRecordKey(req: Request, idempotencyKey: string): string {
+  const owner = req.user
+    ? `user:${req.user.id}`
+    : req.clientId
+      ? `client:${req.clientId}`
+      : `ip:${getClientIp(req)}`;
+  return `idempotency:${req.store!.id}:${req.baseUrl}${req.path}:${owner}:${idempotencyKey}`;
+}
+
+/**
+ * Hash of the request body: a key may only be reused for the same request
+ */
+function getFingerprint(req: Request): string {
+  return createHash("sha256")
+    .update(JSON.stringify(req.body ?? {}))
+    .digest("hex");
+}
+
+/**
+ * Idempotency middleware
+ * Requests with an "Idempotency-Key" header are answered once: retries with
+ * the same key and body get the original response back (with
+ * "Idempotent-Replayed: true") instead of being processed again.
+ *
+ * - 409 while the first request with the key is still being processed
+ * - 422 if the key was used for a different request body
+ * - Only successful responses are kept; after an error the key can be retried
+ *
+ * Requests without the header are processed as usual. If Redis is
+ * unavailable, requests are processed without idempotency (fail open).
+ */
+export async function idempotency(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const idempotencyKey = req.header("Idempotency-Key");
+  if (idempotencyKey === undefined) {
+    return next();
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+    res.status(400).json({
+      error: "Validation error",
+      message: "Idempotency-Key must be 8-128 letters, digits, dashes or underscores",
+    });
+    return;
+  }
+
+  const recordKey = getRecordKey(req, idempotencyKey);
+  const fingerprint = getFingerprint(req);
+
+  let acquired: boolean;
+  let existing: IdempotencyRecord | null = null;
+  try {
+    const redis = getRedisClient();
+    const inProgress: IdempotencyRecord = { state: "in_progress", fingerprint };
+
+    // Only one request per key gets through
+    acquired =
+      (await redis.set(
+        recordKey,
+        JSON.stringify(inProgress),
+        "EX",
+        IDEMPOTENCY.inProgressTtlSeconds,
+        "NX"
+      )) === "OK";
+
+    if (!acquired) {
+      const stored = await redis.get(recordKey);
+      existing = stored ? (JSON.parse(stored) as IdempotencyRecord) : null;
+    }
+  } catch (error) {
+    // If Redis fails, process the request (fail open for availability)
+    log.error("Idempotency check failed, processing the request", { err: error });
+    return next();
+  }
+
+  if (!acquired) {
+    // Expired between SET and GET: rare enough to ask the client to retry
+    if (!existing || existing.state === "in_progress") {
+      res.status(409).json({
+        error: "Conflict",
+        message: "A request with this Idempotency-Key is still being processed",
+      });
+      return;
+    }
+
+    if (existing.fingerprint !== fingerprint) {
+      res.status(422).json({
+        error: "Unprocessable entity",
+        message: "This Idempotency-Key was already used for a different request",
+      });
+      return;
+    }
+
+    res.setHeader("Idempotent-Replayed", "true");
+    res.status(existing.status).json(existing.body);
+    return;
+  }
+
+  // Record the response as it is sent, even if the client is gone by then:
+  // that is exactly when it will retry
+  const sendJson = res.json.bind(res);
+  res.json = (body: unknown) => {
+    const redis = getRedisClient();
+    const saved =
+      res.statusCode >= 200 && res.statusCode < 300
+        ? redis.set(
+            recordKey,
+            JSON.stringify({
+              state: "completed",
+              fingerprint,
+              status: res.statusCode,
+              body,
+            } satisfies IdempotencyRecord),
+            "EX",
+            IDEMPOTENCY.completedTtlSeconds
+          )
+        : redis.del(recordKey);
+    saved.catch((error) => {
+      log.error("Failed to save idempotent response", { err: error });
+    });
+
+    return sendJson(body);
+  };
+
+  next();
+}
@@ -1,105 +1,256 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage } from "http";
 import { Request, Response, NextFunction } from "express";
 import { getRedisClient } from "../lib/redis";
+import { appConfig } from "../lib/env";
+import { createLogger } from "../lib/logger";
+import { rateLimitRejections } from "../lib/metrics";
+import {
+  RateLimitIdentity,
+  RateLimitPolicyName,
+  RateLimitResult,
+  RateLimitStatus,
+  RateLimitWindow,
+} from "../types/rateLimit";
+import { StoreContext } from "../types/store";
+
+const log = createLogger("rateLimiter");
+
+const UNAVAILABLE_RETRY_AFTER_SECONDS = 5;
+
+// Sliding-window log: one sorted-set entry per accepted request, scored by
+// Redis time in ms. Every window is checked before any is recorded, so a
+// rejected request doesn't use up the others; the script runs atomically.
+// KEYS: one per window. ARGV: member, then limit and window (ms) per key.
+// Returns: allowed (1/0), then count and ms until a slot frees per key.
+const SLIDING_WINDOW_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local member = ARGV[1]
+local counts = {}
+local allowed = 1
+
+for i, key in ipairs(KEYS) do
+  local limit = tonumber(ARGV[i * 2])
+  local window = tonumber(ARGV[i * 2 + 1])
+  redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+  counts[i] = redis.call('ZCARD', key)
+  if counts[i] >= limit then
+    allowed = 0
+  end
+end
+
+local result = { allowed }
+for i, key in ipairs(KEYS) do
+  local window = tonumber(ARGV[i * 2 + 1])
+  if allowed == 1 then
+    redis.call('ZADD', key, now, member)
+    redis.call('PEXPIRE', key, window)
+    counts[i] = counts[i] + 1
+  end
+
+  local resetMs = window
+  local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+  if oldest[2] then
+    resetMs = tonumber(oldest[2]) + window - now
+  end
+  table.insert(result, counts[i])
+  table.insert(result, resetMs)
+end
+return result
+`;
+
+type WindowCheck = RateLimitWindow & {
+  identity: RateLimitIdentity;
+  key: string;
+};
 
 /**
- * Rate limiting configuration
+ * Get client IP address from a request (HTTP or WebSocket upgrade)
+ * X-Forwarded-For is only trusted for the configured number of proxies:
+ * each proxy appends the address it got the request from, so the client is
+ * that many entries from the right. Entries further left can be forged.
  */
-const RATE_LIMITS = {
-  IP: {
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 20, // 20 requests per minute per IP
-  },
-  SESSION: {
-    windowMs: 60 * 1000, // 1 minute
-    maxRequests: 5, // 5 requests per minute per session
-  },
-};
+export function getClientIp(req: IncomingMessage): string {
+  const remoteAddress = req.socket.remoteAddress || "unknown";
+  const hops = appConfig.trustProxyHops;
+
+  let ip = remoteAddress;
+  if (hops > 0) {
+    const forwarded = ((req.headers["x-forwarded-for"] as string) || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+    const chain = [...forwarded, remoteAddress];
+    ip = chain[Math.max(0, chain.length - 1 - hops)];
+  }
+
+  // IPv4 clients of a dual-stack server show up as ::ffff:1.2.3.4
+  return ip.replace(/^::ffff:/, "");
+}
 
 /**
- * Get client IP address from request
+ * Windows of a policy that apply to the request
+ * A store's override replaces the default policy; each store counts
+ * requests separately
  */
-function getClientIp(req: Request): string {
-  return (
-    (req.headers["x-forwarded-for"] as string)?.split(",")[0]?.trim() ||
-    (req.headers["x-real-ip"] as string) ||
-    req.socket.remoteAddress ||
-    "unknown"
-  );
+function getWindows(
+  policyName: RateLimitPolicyName,
+  store: StoreContext,
+  identities: Record<RateLimitIdentity, string | undefined>
+): WindowCheck[] {
+  const policy = store.rateLimits[policyName] ?? appConfig.rateLimit.policies[policyName];
+
+  return (Object.entries(policy) as [RateLimitIdentity, RateLimitWindow][])
+    .filter(([identity]) => identities[identity])
+    .map(([identity, window]) => ({
+      identity,
+      key: `rate_limit:${store.id}:${policyName}:${identity}:${identities[identity]}`,
+      ...window,
+    }));
+}
+
+function describeIdentity(identity: RateLimitIdentity): string {
+  return identity === "ip" ? "IP" : "account";
 }
 
 /**
- * Rate limiting middleware
- * Applies both IP-based and session-based rate limiting
+ * Count a request against the windows of a policy
+ * Shared by the REST routes and the WebSocket, so both transports draw from
+ * the same budget
  */
-export async function rateLimiter(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): Promise<void> {
+export async function checkRateLimit(
+  policyName: RateLimitPolicyName,
+  params: { store: StoreContext; ip: string; userId?: string }
+): Promise<RateLimitResult> {
+  const { allowlist, failMode } = appConfig.rateLimit;
+  if (
+    allowlist.includes(params.ip) ||
+    (params.userId && allowlist.includes(params.userId))
+  ) {
+    return { allowed: true, status: null };
+  }
+
+  const windows = getWindows(policyName, params.store, {
+    ip: params.ip,
+    user: params.userId,
+  });
+  if (windows.length === 0) {
+    return { allowed: true, status: null };
+  }
+
+  let reply: number[];
   try {
-    const redis = getRedisClient();
-    const ip = getClientIp(req);
-    const sessionId = (req.body?.sessionId as string) || "anonymous";
+    reply = (await getRedisClient().eval(
+      SLIDING_WINDOW_SCRIPT,
+      windows.length,
+      ...windows.map((window) => window.key),
+      `${Date.now()}-${randomUUID()}`,
+      ...windows.flatMap((window) => [window.limit, window.windowSeconds * 1000])
+    )) as number[];
+  } catch (error) {
+    log.error("Rate limiter error", { policy: policyName, failMode, err: error });
 
-    // Debug logging (can be removed in production)
-    if (process.env.NODE_ENV === "development") {
-      console.log(`[Rate Limiter] IP: ${ip}, SessionId: ${sessionId}`);
+    // Fail open for availability, or closed to protect the LLM budget
+    if (failMode === "open") {
+      return { allowed: true, status: null };
     }
+    rateLimitRejections.inc({
+      policy: policyName,
+      identity: "unavailable",
+      store: params.store.slug,
+    });
+    return {
+      allowed: false,
+      reason: "unavailable",
+      message: "Service temporarily unavailable. Please try again shortly.",
+      retryAfter: UNAVAILABLE_RETRY_AFTER_SECONDS,
+    };
+  }
 
-    // IP-based rate limiting
-    const ipKey = `rate_limit:ip:${ip}`;
-    const ipCount = await redis.incr(ipKey);
-    
-    // Debug logging
-    if (process.env.NODE_ENV === "development") {
-      console.log(`[Rate Limiter] Created/Updated key: ${ipKey}, Count: ${ipCount}`);
-    }
-    
-    if (ipCount === 1) {
-      await redis.expire(ipKey, Math.ceil(RATE_LIMITS.IP.windowMs / 1000));
-    }
+  const [allowed, ...counts] = reply;
+  const statuses: RateLimitStatus[] = windows.map((window, i) => ({
+    identity: window.identity,
+    limit: window.limit,
+    remaining: Math.max(0, window.limit - counts[i * 2]),
+    resetSeconds: Math.max(1, Math.ceil(counts[i * 2 + 1] / 1000)),
+    windowSeconds: window.windowSeconds,
+  }));
 
-    if (ipCount > RATE_LIMITS.IP.maxRequests) {
-      res.status(429).json({
-        error: "Too many requests",
-        message: `Rate limit exceeded: ${RATE_LIMITS.IP.maxRequests} requests per minute per IP`,
-        retryAfter: Math.ceil(RATE_LIMITS.IP.windowMs / 1000),
-      });
-      return;
-    }
+  // Report the window closest to its limit (the longest wait on a tie)
+  const status = statuses.reduce((closest, current) =>
+    current.remaining < closest.remaining ||
+    (current.remaining === closest.remaining &&
+      current.resetSeconds > closest.resetSeconds)
+      ? current
+      : closest
+  );
 
-    // Session-based rate limiting (only if sessionId is provided)
-    if (sessionId && sessionId !== "anonymous") {
-      const sessionKey = `rate_limit:session:${sessionId}`;
-      const sessionCount = await redis.incr(sessionKey);
-      
-      // Debug logging
-      if (process.env.NODE_ENV === "development") {
-        console.log(`[Rate Limiter] Created/Updated session key: ${sessionKey}, Count: ${sessionCount}`);
-      }
-      
-      if (sessionCount === 1) {
-        await redis.expire(
-          sessionKey,
-          Math.ceil(RATE_LIMITS.SESSION.windowMs / 1000)
-        );
-      }
+  log.debug("Rate limit checked", {
+    policy: policyName,
+    store: params.store.slug,
+    ip: params.ip,
+    userId: params.userId,
+    allowed: allowed === 1,
+    remaining: status.remaining,
+  });
+
+  if (allowed === 1) {
+    return { allowed: true, status };
+  }
+
+  rateLimitRejections.inc({
+    policy: policyName,
+    identity: status.identity,
+    store: params.store.slug,
+  });
+  return {
+    allowed: false,
+    reason: "limited",
+    status,
+    message: `Rate limit exceeded: ${status.limit} requests per ${status.windowSeconds} seconds per ${describeIdentity(status.identity)}`,
+    retryAfter: status.resetSeconds,
+  };
+}
 
-      if (sessionCount > RATE_LIMITS.SESSION.maxRequests) {
-        res.status(429).json({
-          error: "Too many requests",
-          message: `Rate limit exceeded: ${RATE_LIMITS.SESSION.maxRequests} requests per minute per session`,
-          retryAfter: Math.ceil(RATE_LIMITS.SESSION.windowMs / 1000),
-        });
-        return;
+/**
+ * RateLimit-* headers (IETF draft) describing the most constrained window
+ */
+function setRateLimitHeaders(res: Response, status: RateLimitStatus): void {
+  res.setHeader("RateLimit-Limit", status.limit);
+  res.setHeader("RateLimit-Remaining", status.remaining);
+  res.setHeader("RateLimit-Reset", status.resetSeconds);
+  res.setHeader("RateLimit-Policy", `${status.limit};w=${status.windowSeconds}`);
+}
+
+/**
+ * Rate limiting middleware for a policy (limits declared in appConfig,
+ * overridable per store)
+ * Use after authenticate so signed-in users get their account's window
+ */
+export function rateLimiter(policyName: RateLimitPolicyName) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const result = await checkRateLimit(policyName, {
+      store: req.store!,
+      ip: getClientIp(req),
+      userId: req.user?.id,
+    });
+
+    if (result.allowed) {
+      if (result.status) {
+        setRateLimitHeaders(res, result.status);
       }
+      return next();
     }
 
-    next();
-  } catch (error) {
-    // If Redis fails, allow the request (fail open for availability)
-    console.error("Rate limiter error:", error);
-    next();
-  }
+    res.setHeader("Retry-After", result.retryAfter);
+    if (result.reason === "limited") {
+      setRateLimitHeaders(res, result.status);
+    }
+    res.status(result.reason === "limited" ? 429 : 503).json({
+      error: result.reason === "limited" ? "Too many requests" : "Service unavailable",
+      message: result.message,
+      retryAfter: result.retryAfter,
+    });
+  };
 }
-
@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from "express";
+import { randomUUID } from "crypto";
+import { createLogger } from "../lib/logger";
+import { httpRequestDuration, httpRequestsTotal } from "../lib/metrics";
+import { runWithContext } from "../lib/requestContext";
+import { parseTraceparent, startSpan } from "../lib/tracing";
+
+const log = createLogger("http");
+
+// Route label of requests no route matched (404s), so URLs never become labels
+const UNMATCHED_ROUTE = "unmatched";
+
+// IDs set by a proxy or the caller are kept if they look like IDs
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Resolve the request ID: the caller's X-Request-Id, or a new UUID
+ */
+export function resolveRequestId(header: string | undefined): string {
+  return header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+}
+
+/**
+ * Request context middleware (mounted first)
+ *
+ * - Assigns the request ID and returns it as X-Request-Id
+ * - Opens the request's root span, continuing the caller's trace when a
+ *   traceparent header is sent
+ * - Runs the rest of the request inside that context, so every log line
+ *   and span of the request carries its IDs
+ * - Logs each request once it completes and counts it in the HTTP metrics
+ */
+export function requestContext(req: Request, res: Response, next: NextFunction): void {
+  const requestId = resolveRequestId(req.header("x-request-id"));
+  res.setHeader("X-Request-Id", requestId);
+
+  // Routers rewrite req.url (and so req.path) while routing
+  const { method, path } = req;
+  const startedAt = Date.now();
+  const span = startSpan(`${method} ${path}`, {
+    kind: "server",
+    parent: parseTraceparent(req.header("traceparent")),
+    attributes: {
+      "http.method": method,
+      "http.target": path,
+      "request.id": requestId,
+    },
+  });
+  const context = {
+    requestId,
+    span: { traceId: span.traceId, spanId: span.spanId },
+  };
+
+  res.on("close", () => {
+    // Name spans after the matched route, not the URL (/chat/history/:sessionId)
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : undefined;
+    if (route) {
+      span.updateName(`${method} ${route}`);
+    }
+    span.setAttributes({
+      "http.route": route,
+      "http.status_code": res.statusCode,
+      "store.slug": req.store?.slug,
+    });
+
+    const fields = {
+      method,
+      path,
+      status: res.statusCode,
+      durationMs: Date.now() - startedAt,
+      store: req.store?.slug,
+      aborted: !res.writableFinished || undefined,
+    };
+    runWithContext(context, () => {
+      if (res.statusCode >= 500) {
+        log.error("Request failed", fields);
+      } else {
+        log.info("Request completed", fields);
+      }
+    });
+    span.end(res.statusCode >= 500 ? `HTTP ${res.statusCode}` : undefined);
+
+    const labels = {
+      method,
+      route: route ?? UNMATCHED_ROUTE,
+      status: String(res.statusCode),
+    };
+    httpRequestsTotal.inc(labels);
+    httpRequestDuration.observe(labels, fields.durationMs / 1000);
+  });
+
+  runWithContext(context, next);
+}
@@ -0,0 +1,47 @@
+import { Request, Response, NextFunction } from "express";
+import { storeService } from "../services/store.service";
+
+/**
+ * Store identification middleware
+ * Requires "X-Api-Key: <store API key>" and attaches req.store. Browser
+ * requests must also come from one of the store's allowed origins, so a
+ * key copied from one storefront can't be used from another site.
+ */
+export async function identifyStore(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const apiKey = req.header("x-api-key");
+  if (!apiKey) {
+    res.status(401).json({
+      error: "Unauthorized",
+      message: "An X-Api-Key header identifying the store is required",
+    });
+    return;
+  }
+
+  try {
+    const store = await storeService.resolveApiKey(apiKey);
+    if (!store) {
+      res.status(401).json({
+        error: "Unauthorized",
+        message: "Invalid or revoked API key",
+      });
+      return;
+    }
+
+    if (!storeService.isOriginAllowed(store, req.header("origin"))) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "This origin is not allowed for the store",
+      });
+      return;
+    }
+
+    req.store = store;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,58 +1,428 @@
 import { Request, Response, NextFunction } from "express";
+import { FEEDBACK_RATINGS, FEEDBACK_REASONS } from "../types/feedback";
+import { RATE_LIMIT_IDENTITIES, RATE_LIMIT_POLICY_NAMES } from "../types/rateLimit";
+import { ValidationError } from "../lib/errors";
 
 const MAX_MESSAGE_LENGTH = 5000; // Maximum message length in characters
 
 /**
- * Input validation middleware
- * Validates message content before processing
+ * Check and trim a chat message
+ * Shared by the REST routes and the WebSocket
+ *
+ * @throws ValidationError with the reason the message was rejected
  */
-export function validateMessage(
-  req: Request,
-  res: Response,
-  next: NextFunction
-): void {
-  const { message } = req.body;
-
+export function normalizeMessage(message: unknown): string {
   // Check if message exists
   if (!message) {
-    res.status(400).json({
-      error: "Validation error",
-      message: "Message is required",
-    });
-    return;
+    throw new ValidationError("Message is required");
   }
 
   // Check if message is a string
   if (typeof message !== "string") {
-    res.status(400).json({
-      error: "Validation error",
-      message: "Message must be a string",
-    });
-    return;
+    throw new ValidationError("Message must be a string");
   }
 
   // Check if message is not empty or whitespace-only
   const trimmedMessage = message.trim();
   if (trimmedMessage.length === 0) {
-    res.status(400).json({
-      error: "Validation error",
-      message: "Message cannot be empty or whitespace-only",
-    });
-    return;
+    throw new ValidationError("Message cannot be empty or whitespace-only");
   }
 
   // Check message length
   if (trimmedMessage.length > MAX_MESSAGE_LENGTH) {
+    throw new ValidationError(
+      `Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`
+    );
+  }
+
+  return trimmedMessage;
+}
+
+/**
+ * Input validation middleware
+ * Validates message content before processing
+ */
+export function validateMessage(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  try {
+    // Replace the message with trimmed version
+    req.body.message = normalizeMessage(req.body?.message);
+  } catch (error) {
     res.status(400).json({
       error: "Validation error",
-      message: `Message exceeds maximum length of ${MAX_MESSAGE_LENGTH} characters`,
+      message: (error as Error).message,
     });
     return;
   }
 
-  // Replace the message with trimmed version
-  req.body.message = trimmedMessage;
+  next();
+}
+
+const PROMPT_SECTION_KINDS = ["instruction", "policy"];
+const SECTION_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * Prompt version validation middleware
+ * Validates optional { notes, sections } for draft create/update
+ */
+export function validatePromptVersion(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { notes, sections } = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (notes !== undefined && notes !== null && typeof notes !== "string") {
+    return fail("notes must be a string");
+  }
+
+  if (sections === undefined) {
+    return next();
+  }
+
+  if (!Array.isArray(sections) || sections.length === 0) {
+    return fail("sections must be a non-empty array");
+  }
+
+  const keys = new Set<string>();
+  for (const [index, section] of sections.entries()) {
+    const label = `sections[${index}]`;
+
+    if (!section || typeof section !== "object") {
+      return fail(`${label} must be an object`);
+    }
+    if (!PROMPT_SECTION_KINDS.includes(section.kind)) {
+      return fail(`${label}.kind must be one of: ${PROMPT_SECTION_KINDS.join(", ")}`);
+    }
+    if (typeof section.key !== "string" || !SECTION_KEY_PATTERN.test(section.key)) {
+      return fail(`${label}.key must be snake_case`);
+    }
+    if (keys.has(section.key)) {
+      return fail(`${label}.key "${section.key}" is duplicated`);
+    }
+    keys.add(section.key);
+
+    for (const field of ["title", "content"]) {
+      if (typeof section[field] !== "string" || !section[field].trim()) {
+        return fail(`${label}.${field} is required`);
+      }
+    }
+  }
+
+  // Keep only known fields
+  req.body.sections = sections.map(({ kind, key, title, content }) => ({
+    kind,
+    key,
+    title: title.trim(),
+    content: content.trim(),
+  }));
+
+  next();
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_PASSWORD_LENGTH = 72; // bcrypt ignores bytes beyond 72
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Credentials validation middleware
+ * Validates { email, password, name? } for register and login
+ */
+export function validateCredentials(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { email, password, name } = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (typeof email !== "string" || !EMAIL_PATTERN.test(email.trim())) {
+    return fail("A valid email is required");
+  }
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    return fail(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (Buffer.byteLength(password) > MAX_PASSWORD_LENGTH) {
+    return fail(`Password must be at most ${MAX_PASSWORD_LENGTH} bytes`);
+  }
+  if (name !== undefined && name !== null) {
+    if (typeof name !== "string" || name.length > MAX_NAME_LENGTH) {
+      return fail(`name must be a string of at most ${MAX_NAME_LENGTH} characters`);
+    }
+  }
 
   next();
 }
 
+const MAX_TITLE_LENGTH = 100;
+
+/**
+ * Conversation update validation middleware
+ * Validates { title?, archived? }, at least one of them
+ */
+export function validateConversationUpdate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { title, archived } = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (title === undefined && archived === undefined) {
+    return fail("Provide a title or archived");
+  }
+  if (title !== undefined) {
+    if (typeof title !== "string" || !title.trim()) {
+      return fail("title must be a non-empty string");
+    }
+    if (title.trim().length > MAX_TITLE_LENGTH) {
+      return fail(`title must be at most ${MAX_TITLE_LENGTH} characters`);
+    }
+  }
+  if (archived !== undefined && typeof archived !== "boolean") {
+    return fail("archived must be a boolean");
+  }
+
+  // Keep only known fields
+  req.body = {
+    ...(title !== undefined && { title: title.trim() }),
+    ...(archived !== undefined && { archived }),
+  };
+
+  next();
+}
+
+const MAX_FEEDBACK_COMMENT_LENGTH = 1000;
+
+/**
+ * Feedback validation middleware
+ * Validates { rating: "up" | "down", reason?, comment? }
+ */
+export function validateFeedback(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { rating, reason, comment } = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (!FEEDBACK_RATINGS.includes(rating)) {
+    return fail(`rating must be one of: ${FEEDBACK_RATINGS.join(", ")}`);
+  }
+  if (reason !== undefined && reason !== null && !FEEDBACK_REASONS.includes(reason)) {
+    return fail(`reason must be one of: ${FEEDBACK_REASONS.join(", ")}`);
+  }
+  if (comment !== undefined && comment !== null) {
+    if (typeof comment !== "string") {
+      return fail("comment must be a string");
+    }
+    if (comment.trim().length > MAX_FEEDBACK_COMMENT_LENGTH) {
+      return fail(`comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters`);
+    }
+  }
+
+  // Keep only known fields
+  req.body = {
+    rating,
+    reason: reason ?? null,
+    comment: typeof comment === "string" && comment.trim() ? comment.trim() : null,
+  };
+
+  next();
+}
+
+const MAX_ESCALATION_REASON_LENGTH = 500;
+
+/**
+ * Escalation validation middleware
+ * Validates optional { reason }
+ */
+export function validateEscalation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const { reason } = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (reason !== undefined && reason !== null) {
+    if (typeof reason !== "string") {
+      return fail("reason must be a string");
+    }
+    if (reason.trim().length > MAX_ESCALATION_REASON_LENGTH) {
+      return fail(`reason must be at most ${MAX_ESCALATION_REASON_LENGTH} characters`);
+    }
+  }
+
+  // Keep only known fields
+  req.body = {
+    reason: typeof reason === "string" && reason.trim() ? reason.trim() : undefined,
+  };
+
+  next();
+}
+
+const STORE_SLUG_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+const MAX_STORE_NAME_LENGTH = 100;
+
+/**
+ * Check an allowed origin: scheme, host and port only ("https://shop.example")
+ */
+function isOrigin(value: unknown): boolean {
+  if (typeof value !== "string") {
+    return false;
+  }
+  try {
+    return new URL(value).origin === value;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check the optional store fields shared by create and update
+ *
+ * @returns the reason the body was rejected, or null
+ */
+function checkStoreFields(body: Record<string, unknown>): string | null {
+  const { name, allowedOrigins, rateLimits } = body;
+
+  if (name !== undefined) {
+    if (typeof name !== "string" || !name.trim()) {
+      return "name must be a non-empty string";
+    }
+    if (name.trim().length > MAX_STORE_NAME_LENGTH) {
+      return `name must be at most ${MAX_STORE_NAME_LENGTH} characters`;
+    }
+  }
+
+  if (allowedOrigins !== undefined) {
+    if (!Array.isArray(allowedOrigins) || !allowedOrigins.every(isOrigin)) {
+      return 'allowedOrigins must be an array of origins, e.g. "https://shop.example"';
+    }
+  }
+
+  if (rateLimits !== undefined && rateLimits !== null) {
+    if (typeof rateLimits !== "object" || Array.isArray(rateLimits)) {
+      return "rateLimits must be an object keyed by policy";
+    }
+    for (const [policyName, policy] of Object.entries(rateLimits)) {
+      if (!(RATE_LIMIT_POLICY_NAMES as readonly string[]).includes(policyName)) {
+        return `rateLimits keys must be any of: ${RATE_LIMIT_POLICY_NAMES.join(", ")}`;
+      }
+      if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+        return `rateLimits.${policyName} must be an object keyed by identity`;
+      }
+      for (const [identity, window] of Object.entries(
+        policy as Record<string, { limit?: unknown; windowSeconds?: unknown }>
+      )) {
+        const label = `rateLimits.${policyName}.${identity}`;
+        if (!(RATE_LIMIT_IDENTITIES as readonly string[]).includes(identity)) {
+          return `rateLimits.${policyName} keys must be any of: ${RATE_LIMIT_IDENTITIES.join(", ")}`;
+        }
+        if (
+          !Number.isInteger(window?.limit) ||
+          (window.limit as number) < 1 ||
+          !Number.isInteger(window?.windowSeconds) ||
+          (window.windowSeconds as number) < 1
+        ) {
+          return `${label} must be { limit, windowSeconds } with positive integers`;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Store creation validation middleware
+ * Validates { slug, name, allowedOrigins?, rateLimits? }
+ */
+export function validateStore(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const body = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  if (typeof body.slug !== "string" || !STORE_SLUG_PATTERN.test(body.slug)) {
+    return fail("slug must be lowercase letters, digits and dashes");
+  }
+  if (body.name === undefined) {
+    return fail("name is required");
+  }
+  const problem = checkStoreFields(body);
+  if (problem) {
+    return fail(problem);
+  }
+
+  // Keep only known fields
+  req.body = {
+    slug: body.slug,
+    name: body.name.trim(),
+    allowedOrigins: body.allowedOrigins ?? [],
+    rateLimits: body.rateLimits ?? null,
+  };
+
+  next();
+}
+
+/**
+ * Store update validation middleware
+ * Validates { name?, allowedOrigins?, rateLimits? }, at least one of them
+ * (rateLimits: null goes back to the default limits)
+ */
+export function validateStoreUpdate(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const body = req.body ?? {};
+
+  const fail = (message: string) => {
+    res.status(400).json({ error: "Validation error", message });
+  };
+
+  const { name, allowedOrigins, rateLimits } = body;
+  if (name === undefined && allowedOrigins === undefined && rateLimits === undefined) {
+    return fail("Provide a name, allowedOrigins or rateLimits");
+  }
+  const problem = checkStoreFields(body);
+  if (problem) {
+    return fail(problem);
+  }
+
+  // Keep only known fields
+  req.body = {
+    ...(name !== undefined && { name: name.trim() }),
+    ...(allowedOrigins !== undefined && { allowedOrigins }),
+    ...(rateLimits !== undefined && { rateLimits }),
+  };
+
+  next();
+}
@@ -0,0 +1,143 @@
+import {
+  Content,
+  FunctionDeclarationSchema,
+  GenerateContentRequest,
+  GoogleGenerativeAI,
+  Part,
+  UsageMetadata,
+} from "@google/generative-ai";
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMRequestOptions,
+  LLMToolCall,
+  LLMUsage,
+} from "../types/llm";
+
+/**
+ * Map a provider-neutral request onto Gemini contents and tool declarations
+ * Each tool round becomes a model turn (function calls) followed by a
+ * function turn (function responses).
+ */
+function toGeminiRequest(request: LLMRequest): GenerateContentRequest {
+  const contents: Content[] = [{ role: "user", parts: [{ text: request.prompt }] }];
+
+  for (const round of request.toolRounds ?? []) {
+    contents.push({
+      role: "model",
+      parts: round.map(({ call }) => ({
+        functionCall: { name: call.name, args: call.arguments },
+      })),
+    });
+    contents.push({
+      role: "function",
+      parts: round.map(({ call, result }) => ({
+        functionResponse: { name: call.name, response: { result } },
+      })),
+    });
+  }
+
+  const tools = request.tools?.length
+    ? [
+        {
+          functionDeclarations: request.tools.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            // Gemini rejects object schemas without properties
+            ...(Object.keys(tool.parameters.properties ?? {}).length > 0 && {
+              parameters: tool.parameters as unknown as FunctionDeclarationSchema,
+            }),
+          })),
+        },
+      ]
+    : undefined;
+
+  return { contents, tools };
+}
+
+/**
+ * Split Gemini response parts into text and tool calls
+ */
+function readParts(parts: Part[] | undefined, callOffset: number) {
+  let text = "";
+  const toolCalls: LLMToolCall[] = [];
+
+  for (const part of parts ?? []) {
+    if (part.text) {
+      text += part.text;
+    }
+    if (part.functionCall) {
+      // Gemini does not assign call IDs, derive a stable one from position
+      toolCalls.push({
+        id: `${part.functionCall.name}-${callOffset + toolCalls.length}`,
+        name: part.functionCall.name,
+        arguments: (part.functionCall.args ?? {}) as Record<string, unknown>,
+      });
+    }
+  }
+
+  return { text, toolCalls };
+}
+
+function readUsage(metadata: UsageMetadata | undefined): LLMUsage | undefined {
+  return metadata
+    ? {
+        promptTokens: metadata.promptTokenCount,
+        completionTokens: metadata.candidatesTokenCount ?? 0,
+      }
+    : undefined;
+}
+
+/**
+ * Google Gemini provider
+ */
+export function createGeminiProvider(config: {
+  apiKey: string;
+  model: string;
+}): LLMProvider {
+  const genAI = new GoogleGenerativeAI(config.apiKey);
+  const model = genAI.getGenerativeModel({ model: config.model });
+
+  return {
+    name: "gemini",
+    model: config.model,
+
+    async generate(request: LLMRequest, options?: LLMRequestOptions) {
+      const result = await model.generateContent(toGeminiRequest(request), {
+        signal: options?.signal,
+      });
+      return {
+        ...readParts(result.response.candidates?.[0]?.content?.parts, 0),
+        usage: readUsage(result.response.usageMetadata),
+      };
+    },
+
+    async *stream(request: LLMRequest, options?: LLMRequestOptions) {
+      const result = await model.generateContentStream(toGeminiRequest(request), {
+        signal: options?.signal,
+      });
+
+      let callCount = 0;
+      for await (const chunk of result.stream) {
+        const { text, toolCalls } = readParts(
+          chunk.candidates?.[0]?.content?.parts,
+          callCount
+        );
+
+        if (text) {
+          yield { type: "text" as const, text };
+        }
+        for (const call of toolCalls) {
+          callCount++;
+          yield { type: "tool_call" as const, call };
+        }
+      }
+
+      // The aggregated response resolves once the stream is fully read
+      const usage = readUsage((await result.response).usageMetadata);
+      if (usage) {
+        yield { type: "usage" as const, usage };
+      }
+    },
+  };
+}
@@ -0,0 +1,141 @@
+import { appConfig } from "../lib/env";
+import { createLogger } from "../lib/logger";
+import { startSpan, withSpan } from "../lib/tracing";
+import { llmRequestDuration, llmStreamFirstChunk } from "../lib/metrics";
+import { LLMProvider, LLMRequest, LLMUsage } from "../types/llm";
+import { createGeminiProvider } from "./gemini.provider";
+import { createOpenAICompatibleProvider } from "./openai.provider";
+import { createMockProvider } from "./mock.provider";
+
+const log = createLogger("llm");
+
+// Singleton provider instance, selected once via LLM_PROVIDER
+let providerInstance: LLMProvider | null = null;
+
+function createProvider(): LLMProvider {
+  const { llm } = appConfig;
+
+  switch (llm.provider) {
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: llm.gemini.apiKey!,
+        model: llm.gemini.model,
+      });
+    case "openai":
+      return createOpenAICompatibleProvider(llm.openai);
+    case "mock":
+      return createMockProvider(llm.mock);
+  }
+}
+
+function requestAttributes(provider: LLMProvider, request: LLMRequest) {
+  return {
+    "llm.provider": provider.name,
+    "llm.model": provider.model,
+    "llm.prompt": request.prompt, // Redacted unless LOG_REDACT_FIELDS allows it
+    "llm.prompt_chars": request.prompt.length,
+    "llm.tools": request.tools?.length ?? 0,
+    "llm.tool_rounds": request.toolRounds?.length ?? 0,
+  };
+}
+
+/**
+ * Put a span around every call made through a provider and record its
+ * latency and outcome in the LLM metrics
+ * A stream's span lasts until it is fully read or abandoned
+ */
+function instrumentProvider(provider: LLMProvider): LLMProvider {
+  const labels = { provider: provider.name, model: provider.model };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+
+    generate(request, options) {
+      const stopTimer = llmRequestDuration.startTimer({ ...labels, operation: "generate" });
+
+      return withSpan(
+        "llm generate",
+        { kind: "client", attributes: requestAttributes(provider, request) },
+        async (span) => {
+          try {
+            const response = await provider.generate(request, options);
+            stopTimer({ outcome: "success" });
+            span.setAttributes({
+              "llm.completion": response.text,
+              "llm.completion_chars": response.text.length,
+              "llm.tool_calls": response.toolCalls.length,
+              "llm.prompt_tokens": response.usage?.promptTokens,
+              "llm.completion_tokens": response.usage?.completionTokens,
+            });
+            return response;
+          } catch (error) {
+            stopTimer({ outcome: options?.signal?.aborted ? "aborted" : "error" });
+            throw error;
+          }
+        }
+      );
+    },
+
+    async *stream(request, options) {
+      const stopTimer = llmRequestDuration.startTimer({ ...labels, operation: "stream" });
+      const stopFirstChunkTimer = llmStreamFirstChunk.startTimer(labels);
+      const span = startSpan("llm stream", {
+        kind: "client",
+        attributes: requestAttributes(provider, request),
+      });
+      let completion = "";
+      let toolCalls = 0;
+      let usage: LLMUsage | undefined;
+      let events = 0;
+      let finished = false;
+      let failure: unknown;
+
+      try {
+        for await (const event of provider.stream(request, options)) {
+          if (event.type === "usage") {
+            usage = event.usage;
+          } else {
+            if (events++ === 0) {
+              stopFirstChunkTimer();
+            }
+            if (event.type === "tool_call") {
+              toolCalls++;
+            } else {
+              completion += event.text;
+            }
+          }
+          yield event;
+        }
+        finished = true;
+      } catch (error) {
+        failure = error;
+        throw error;
+      } finally {
+        // Abandoned by the consumer (client gone) or aborted through the signal
+        const aborted = Boolean(options?.signal?.aborted) || (!failure && !finished);
+        stopTimer({ outcome: aborted ? "aborted" : failure ? "error" : "success" });
+        span.setAttributes({
+          "llm.completion": completion,
+          "llm.completion_chars": completion.length,
+          "llm.tool_calls": toolCalls,
+          "llm.prompt_tokens": usage?.promptTokens,
+          "llm.completion_tokens": usage?.completionTokens,
+          "llm.aborted": aborted || undefined,
+        });
+        span.end(failure);
+      }
+    },
+  };
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = instrumentProvider(createProvider());
+    log.info("LLM provider selected", {
+      provider: providerInstance.name,
+      model: providerInstance.model,
+    });
+  }
+  return providerInstance;
+}
@@ -0,0 +1,171 @@
+import { readFileSync } from "fs";
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMRequestOptions,
+  LLMResponse,
+} from "../types/llm";
+
+/**
+ * A scripted reply: the first rule whose pattern matches wins
+ *
+ * If the rule declares a toolCall and the tool is offered, the mock first
+ * requests that tool; once the result is available it replies with `reply`,
+ * where "{{result.path}}" placeholders are filled from the tool result.
+ */
+type MockRule = {
+  match: string; // Case-insensitive regular expression
+  reply: string;
+  toolCall?: { name: string; arguments?: Record<string, unknown> };
+};
+
+type MockScript = {
+  rules: MockRule[];
+  defaultReply?: string;
+};
+
+/**
+ * Built-in script used when MOCK_LLM_SCRIPT is not set
+ */
+const DEFAULT_SCRIPT: MockScript = {
+  rules: [
+    {
+      match: "summar",
+      reply: "Customer asked about store policies; the agent answered from the listed policies.",
+    },
+    {
+      match: "what time|open now|are you open",
+      toolCall: { name: "get_store_time" },
+      reply: "It is currently {{result.localTime}} at the store, timezone {{result.timezone}}.",
+    },
+    {
+      match: "human|real person|talk to (a|an|someone)",
+      toolCall: {
+        name: "escalate_to_human",
+        arguments: { reason: "Customer asked to talk to a person" },
+      },
+      reply: "I've asked a member of our support team to join. They'll reply here shortly.",
+    },
+    {
+      match: "ship|deliver",
+      reply: "We ship worldwide. Delivery takes 5–10 business days.",
+    },
+    {
+      match: "return|refund",
+      reply: "You can return unused items within 30 days of delivery.",
+    },
+    {
+      match: "hours|support",
+      reply: "Our support team is available Monday to Friday, 9am–6pm IST.",
+    },
+  ],
+};
+
+/**
+ * Extract the current customer message from a reply prompt
+ * Reply prompts always end with "Customer: <message>\nAgent:"
+ */
+function extractUserMessage(prompt: string): string | null {
+  const match = prompt.match(/Customer: ([\s\S]*)\nAgent:\s*$/);
+  return match ? match[1].trim() : null;
+}
+
+function loadScript(scriptPath?: string): MockScript {
+  if (!scriptPath) {
+    return DEFAULT_SCRIPT;
+  }
+  return JSON.parse(readFileSync(scriptPath, "utf-8")) as MockScript;
+}
+
+/**
+ * Replace "{{result.a.b}}" placeholders with values from the tool result
+ */
+function fillTemplate(template: string, result: unknown): string {
+  return template.replace(/\{\{result((?:\.\w+)*)\}\}/g, (_, path: string) => {
+    let value: unknown = result;
+    for (const key of path.split(".").filter(Boolean)) {
+      value = (value as Record<string, unknown> | undefined)?.[key];
+    }
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+  });
+}
+
+/**
+ * Deterministic offline provider for development and CI
+ * Replies are picked from a script, so the same prompt always yields the same text
+ */
+export function createMockProvider(config: {
+  scriptPath?: string;
+  chunkDelayMs?: number;
+}): LLMProvider {
+  const script = loadScript(config.scriptPath);
+  const rules = script.rules.map((rule) => ({
+    ...rule,
+    pattern: new RegExp(rule.match, "i"),
+  }));
+
+  function respond(request: LLMRequest): LLMResponse {
+    // Match against the customer message when present, otherwise the whole prompt
+    const userMessage = extractUserMessage(request.prompt);
+    const subject = userMessage ?? request.prompt;
+
+    const rule = rules.find((r) => r.pattern.test(subject));
+    if (rule) {
+      const toolRounds = request.toolRounds ?? [];
+      const toolOffered = request.tools?.some((t) => t.name === rule.toolCall?.name);
+
+      if (rule.toolCall && toolOffered && toolRounds.length === 0) {
+        return {
+          text: "",
+          toolCalls: [
+            {
+              id: `${rule.toolCall.name}-0`,
+              name: rule.toolCall.name,
+              arguments: rule.toolCall.arguments ?? {},
+            },
+          ],
+        };
+      }
+
+      const lastResult = toolRounds[toolRounds.length - 1]?.[0]?.result;
+      return { text: fillTemplate(rule.reply, lastResult), toolCalls: [] };
+    }
+
+    if (script.defaultReply) {
+      return { text: script.defaultReply, toolCalls: [] };
+    }
+
+    return {
+      text: userMessage
+        ? `Thanks for your message. (mock reply to: "${userMessage}")`
+        : "Conversation summary unavailable in mock mode.",
+      toolCalls: [],
+    };
+  }
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async generate(request: LLMRequest) {
+      return respond(request);
+    },
+
+    async *stream(request: LLMRequest, options?: LLMRequestOptions) {
+      const { text, toolCalls } = respond(request);
+
+      for (const call of toolCalls) {
+        yield { type: "tool_call" as const, call };
+      }
+
+      // Emit word by word to exercise streaming clients
+      for (const word of text ? text.split(/(?<=\s)/) : []) {
+        if (options?.signal?.aborted) return;
+        if (config.chunkDelayMs) {
+          await new Promise((resolve) => setTimeout(resolve, config.chunkDelayMs));
+        }
+        yield { type: "text" as const, text: word };
+      }
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMRequestOptions,
+  LLMToolCall,
+  LLMUsage,
+} from "../types/llm";
+
+type OpenAIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+type OpenAIUsage = {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+};
+
+/**
+ * Map a provider-neutral request onto Chat Completions messages and tools
+ * Each tool round becomes an assistant message with tool_calls followed by
+ * one tool message per result.
+ */
+function toOpenAIBody(request: LLMRequest, model: string, stream: boolean) {
+  const messages: unknown[] = [{ role: "user", content: request.prompt }];
+
+  for (const round of request.toolRounds ?? []) {
+    messages.push({
+      role: "assistant",
+      content: null,
+      tool_calls: round.map(({ call }) => ({
+        id: call.id,
+        type: "function",
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    });
+    for (const { call, result } of round) {
+      messages.push({
+        role: "tool",
+        tool_call_id: call.id,
+        content: JSON.stringify(result),
+      });
+    }
+  }
+
+  return {
+    model,
+    messages,
+    stream,
+    // Streams only report usage when asked, in a final chunk without choices
+    ...(stream && { stream_options: { include_usage: true } }),
+    ...(request.tools?.length && {
+      tools: request.tools.map((tool) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters,
+        },
+      })),
+    }),
+  };
+}
+
+function parseToolCall(call: OpenAIToolCall): LLMToolCall {
+  return {
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+  };
+}
+
+function parseUsage(usage: OpenAIUsage | null | undefined): LLMUsage | undefined {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens ?? 0,
+        completionTokens: usage.completion_tokens ?? 0,
+      }
+    : undefined;
+}
+
+/**
+ * Provider for any OpenAI-compatible Chat Completions endpoint
+ * Works with OpenAI itself and local servers (Ollama, vLLM, llama.cpp, LM Studio)
+ */
+export function createOpenAICompatibleProvider(config: {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}): LLMProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  async function request(
+    llmRequest: LLMRequest,
+    stream: boolean,
+    options?: LLMRequestOptions
+  ): Promise<Response> {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(toOpenAIBody(llmRequest, config.model, stream)),
+      signal: options?.signal,
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `OpenAI-compatible endpoint returned HTTP ${response.status}: ${body}`
+      );
+    }
+
+    return response;
+  }
+
+  return {
+    name: "openai",
+    model: config.model,
+
+    async generate(llmRequest: LLMRequest, options?: LLMRequestOptions) {
+      const response = await request(llmRequest, false, options);
+      const data = (await response.json()) as {
+        choices?: {
+          message?: { content?: string | null; tool_calls?: OpenAIToolCall[] };
+        }[];
+        usage?: OpenAIUsage;
+      };
+      const message = data.choices?.[0]?.message;
+
+      return {
+        text: message?.content ?? "",
+        toolCalls: (message?.tool_calls ?? []).map(parseToolCall),
+        usage: parseUsage(data.usage),
+      };
+    },
+
+    async *stream(llmRequest: LLMRequest, options?: LLMRequestOptions) {
+      const response = await request(llmRequest, true, options);
+      if (!response.body) {
+        throw new Error("OpenAI-compatible endpoint returned no body");
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+      // Tool call fragments arrive as deltas keyed by index, assembled until the stream ends
+      const pendingCalls = new Map<number, OpenAIToolCall>();
+      let usage: LLMUsage | undefined;
+
+      // Response body is an SSE stream of "data: {...}" lines ending with "data: [DONE]"
+      streamLoop: for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(bytes, { stream: true });
+
+        let newline = buffer.indexOf("\n");
+        while (newline !== -1) {
+          const line = buffer.slice(0, newline).trim();
+          buffer = buffer.slice(newline + 1);
+          newline = buffer.indexOf("\n");
+
+          if (!line.startsWith("data:")) continue;
+          const data = line.slice(5).trim();
+          if (data === "[DONE]") break streamLoop;
+
+          const chunk = JSON.parse(data) as {
+            choices?: {
+              delta?: {
+                content?: string | null;
+                tool_calls?: {
+                  index: number;
+                  id?: string;
+                  function?: { name?: string; arguments?: string };
+                }[];
+              };
+            }[];
+            usage?: OpenAIUsage | null;
+          };
+          const delta = chunk.choices?.[0]?.delta;
+          usage = parseUsage(chunk.usage) ?? usage;
+
+          if (delta?.content) {
+            yield { type: "text" as const, text: delta.content };
+          }
+
+          for (const fragment of delta?.tool_calls ?? []) {
+            const call = pendingCalls.get(fragment.index) ?? {
+              id: fragment.id ?? `call-${fragment.index}`,
+              type: "function" as const,
+              function: { name: "", arguments: "" },
+            };
+            call.function.name += fragment.function?.name ?? "";
+            call.function.arguments += fragment.function?.arguments ?? "";
+            pendingCalls.set(fragment.index, call);
+          }
+        }
+      }
+
+      for (const call of pendingCalls.values()) {
+        yield { type: "tool_call" as const, call: parseToolCall(call) };
+      }
+      if (usage) {
+        yield { type: "usage" as const, usage };
+      }
+    },
+  };
+}
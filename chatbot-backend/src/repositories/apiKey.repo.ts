@@ -0,0 +1,51 @@
+import { prisma } from "../lib/prisma";
+
+type ApiKey = Awaited<ReturnType<typeof prisma.apiKey.create>>;
+
+export const apiKeyRepo = {
+  /**
+   * Store a new key by its hash
+   */
+  async create(params: {
+    storeId: string;
+    name: string;
+    prefix: string;
+    keyHash: string;
+  }): Promise<ApiKey> {
+    return prisma.apiKey.create({
+      data: params,
+    });
+  },
+
+  /**
+   * Find an unrevoked key by hash, with its store
+   */
+  async findActiveByHash(keyHash: string) {
+    return prisma.apiKey.findFirst({
+      where: { keyHash, revokedAt: null },
+      include: { store: true },
+    });
+  },
+
+  /**
+   * List the keys of a store, newest first
+   */
+  async listByStore(storeId: string): Promise<ApiKey[]> {
+    return prisma.apiKey.findMany({
+      where: { storeId },
+      orderBy: { createdAt: "desc" },
+    });
+  },
+
+  /**
+   * Revoke a key of a store
+   * Returns false if the store has no such unrevoked key
+   */
+  async revoke(storeId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, storeId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count > 0;
+  },
+};
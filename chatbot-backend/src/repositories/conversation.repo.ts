@@ -1,25 +1,38 @@
 import { prisma } from "../lib/prisma";
+import { Requester } from "../types/conversation";
+
+const MAX_LISTED_CONVERSATIONS = 100;
 
 // Infer Conversation type from Prisma client
 type Conversation = Awaited<ReturnType<typeof prisma.conversation.findUnique>>;
 
+/**
+ * Every query is scoped to a store (the owner's, or the storeId argument),
+ * so one store never reads or changes another store's conversations
+ */
 export const conversationRepo = {
   /**
-   * Create a new conversation
+   * Create a new conversation in the owner's store
+   * Owned by the user when signed in, anonymous otherwise; the client ID
+   * lets an anonymous browser find it again
    */
-  async create(): Promise<Conversation> {
+  async create(owner: Requester): Promise<Conversation> {
     return prisma.conversation.create({
-      data: {},
+      data: {
+        storeId: owner.storeId,
+        userId: owner.userId ?? null,
+        clientId: owner.clientId ?? null,
+      },
     });
   },
 
   /**
-   * Find conversation by ID
+   * Find a store's conversation by ID
    * Returns null if not found (caller decides what to do)
    */
-  async findById(id: string): Promise<Conversation | null> {
+  async findById(storeId: string, id: string): Promise<Conversation | null> {
     return prisma.conversation.findUnique({
-      where: { id },
+      where: { id, storeId },
     });
   },
 
@@ -27,28 +40,233 @@ export const conversationRepo = {
    * Ensure conversation exists, otherwise create a new one
    * Useful for session-based flows
    */
-  async findOrCreate(id?: string): Promise<Conversation> {
+  async findOrCreate(id: string | undefined, owner: Requester): Promise<Conversation> {
     if (!id) {
-      return this.create();
+      return this.create(owner);
     }
 
-    const conversation = await this.findById(id);
-    return conversation ?? this.create();
+    const conversation = await this.findById(owner.storeId, id);
+    return conversation ?? this.create(owner);
+  },
+
+  /**
+   * List the requester's conversations with their latest message
+   * Signed-in users see their account's conversations, guests the anonymous
+   * ones their browser started. Ordered by most recent activity.
+   */
+  async listByOwner(owner: Requester, archived: boolean) {
+    return prisma.conversation.findMany({
+      where: {
+        storeId: owner.storeId,
+        ...(owner.userId
+          ? { userId: owner.userId }
+          : { userId: null, clientId: owner.clientId }),
+        deletedAt: null,
+        archivedAt: archived ? { not: null } : null,
+      },
+      orderBy: { lastMessageAt: "desc" },
+      take: MAX_LISTED_CONVERSATIONS,
+      include: {
+        messages: {
+          orderBy: { seq: "desc" },
+          take: 1,
+          select: { text: true },
+        },
+      },
+    });
+  },
+
+  /**
+   * Rename or archive/unarchive a conversation
+   */
+  async update(
+    storeId: string,
+    id: string,
+    data: { title?: string; archivedAt?: Date | null }
+  ): Promise<Conversation> {
+    return prisma.conversation.update({
+      where: { id, storeId },
+      data,
+    });
+  },
+
+  /**
+   * Set the generated title unless one was already set (or renamed)
+   */
+  async setTitleIfMissing(storeId: string, id: string, title: string): Promise<void> {
+    await prisma.conversation.updateMany({
+      where: { id, storeId, title: null },
+      data: { title },
+    });
+  },
+
+  /**
+   * Switch the active branch (its last message becomes the leaf)
+   */
+  async setActiveLeaf(storeId: string, id: string, messageId: string): Promise<void> {
+    await prisma.conversation.update({
+      where: { id, storeId },
+      data: { activeLeafId: messageId },
+    });
+  },
+
+  /**
+   * Soft delete a conversation (messages are kept for auditing)
+   */
+  async softDelete(storeId: string, id: string): Promise<void> {
+    await prisma.conversation.update({
+      where: { id, storeId },
+      data: { deletedAt: new Date() },
+    });
+  },
+
+  /**
+   * Assign an anonymous conversation started by a browser to a user
+   * Only updates if still unowned, so two users can't both claim it
+   *
+   * @returns true if the conversation was claimed
+   */
+  async claim(
+    storeId: string,
+    id: string,
+    userId: string,
+    clientId: string
+  ): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, storeId, userId: null, clientId },
+      data: { userId },
+    });
+    return count > 0;
+  },
+
+  /**
+   * Put a conversation in the agent queue
+   * Only updates conversations the bot is handling, so repeated requests
+   * keep the original reason and queue position
+   *
+   * @returns true if the conversation was escalated
+   */
+  async escalate(storeId: string, id: string, reason: string): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, storeId, status: "bot" },
+      data: {
+        status: "escalated",
+        escalatedAt: new Date(),
+        escalationReason: reason,
+        handoffNote: null,
+      },
+    });
+    return count > 0;
+  },
+
+  /**
+   * Store the briefing written for the agent
+   */
+  async setHandoffNote(storeId: string, id: string, handoffNote: string): Promise<void> {
+    await prisma.conversation.update({
+      where: { id, storeId },
+      data: { handoffNote },
+    });
+  },
+
+  /**
+   * List conversations waiting for or handled by an agent, with the agent
+   * and the latest message. Longest waiting first.
+   */
+  async listHandoffQueue(storeId: string) {
+    return prisma.conversation.findMany({
+      where: {
+        storeId,
+        status: { in: ["escalated", "assigned"] },
+        deletedAt: null,
+      },
+      orderBy: { escalatedAt: "asc" },
+      take: MAX_LISTED_CONVERSATIONS,
+      include: {
+        assignedAgent: { select: { id: true, name: true, email: true } },
+        messages: {
+          orderBy: { seq: "desc" },
+          take: 1,
+          select: { text: true },
+        },
+      },
+    });
+  },
+
+  /**
+   * Assign a waiting conversation to an agent
+   * Only updates if still waiting, so two agents can't both take it
+   *
+   * @returns true if the conversation was assigned
+   */
+  async assignAgent(storeId: string, id: string, agentId: string): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, storeId, status: "escalated" },
+      data: { status: "assigned", assignedAgentId: agentId },
+    });
+    return count > 0;
+  },
+
+  /**
+   * Return a conversation to the queue
+   *
+   * @returns true if the agent was assigned and the conversation released
+   */
+  async unassignAgent(storeId: string, id: string, agentId: string): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, storeId, status: "assigned", assignedAgentId: agentId },
+      data: { status: "escalated", assignedAgentId: null },
+    });
+    return count > 0;
+  },
+
+  /**
+   * Return every conversation an agent handles to the queue
+   *
+   * @returns IDs of the conversations put back in the queue
+   */
+  async unassignAllFromAgent(storeId: string, agentId: string): Promise<string[]> {
+    const conversations = await prisma.conversation.updateManyAndReturn({
+      where: { storeId, status: "assigned", assignedAgentId: agentId },
+      data: { status: "escalated", assignedAgentId: null },
+      select: { id: true },
+    });
+    return conversations.map((conversation) => conversation.id);
+  },
+
+  /**
+   * Hand a conversation back to the bot once the agent is done
+   *
+   * @returns true if the agent was assigned and the conversation resolved
+   */
+  async resolveHandoff(storeId: string, id: string, agentId: string): Promise<boolean> {
+    const { count } = await prisma.conversation.updateMany({
+      where: { id, storeId, status: "assigned", assignedAgentId: agentId },
+      data: {
+        status: "bot",
+        assignedAgentId: null,
+        escalatedAt: null,
+        escalationReason: null,
+        handoffNote: null,
+      },
+    });
+    return count > 0;
   },
 
   /**
    * Update conversation summary
    */
   async updateSummary(
+    storeId: string,
     id: string,
     summary: string,
-    summaryUntil: number
+    summaryUntilSeq: number
   ): Promise<Conversation> {
     return prisma.conversation.update({
-      where: { id },
+      where: { id, storeId },
       data: {
         summary,
-        summaryUntil,
+        summaryUntilSeq,
       },
     });
   },
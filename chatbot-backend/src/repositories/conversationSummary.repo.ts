@@ -0,0 +1,111 @@
+import { prisma } from "../lib/prisma";
+
+type ConversationSummary = Awaited<
+  ReturnType<typeof prisma.conversationSummary.create>
+>;
+type SummaryPromptType = ConversationSummary["promptType"];
+
+export const conversationSummaryRepo = {
+  /**
+   * List a conversation's summary versions, newest first
+   */
+  async listByConversation(
+    conversationId: string
+  ): Promise<ConversationSummary[]> {
+    return prisma.conversationSummary.findMany({
+      where: { conversationId },
+      orderBy: { version: "desc" },
+    });
+  },
+
+  /**
+   * Find a summary version by ID
+   */
+  async findById(id: string): Promise<ConversationSummary | null> {
+    return prisma.conversationSummary.findUnique({
+      where: { id },
+    });
+  },
+
+  /**
+   * Get the summary version replies currently use
+   */
+  async findActive(conversationId: string): Promise<ConversationSummary | null> {
+    return prisma.conversationSummary.findFirst({
+      where: { conversationId, isActive: true },
+    });
+  },
+
+  /**
+   * Store a newly generated summary and make it the active one
+   * Version history, active flag and the conversation copy change atomically
+   */
+  async createActive(params: {
+    conversationId: string;
+    content: string;
+    fromSeq: number;
+    untilSeq: number;
+    baseSummaryId: string | null;
+    model: string;
+    promptType: SummaryPromptType;
+    usedFallback: boolean;
+  }): Promise<ConversationSummary> {
+    const { conversationId } = params;
+
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.conversationSummary.aggregate({
+        where: { conversationId },
+        _max: { version: true },
+      });
+
+      await tx.conversationSummary.updateMany({
+        where: { conversationId, isActive: true },
+        data: { isActive: false },
+      });
+
+      const summary = await tx.conversationSummary.create({
+        data: {
+          ...params,
+          version: (latest._max.version ?? 0) + 1,
+          isActive: true,
+        },
+      });
+
+      await tx.conversation.update({
+        where: { id: conversationId },
+        data: { summary: summary.content, summaryUntilSeq: summary.untilSeq },
+      });
+
+      return summary;
+    });
+  },
+
+  /**
+   * Make an existing version the active one (rollback)
+   * Messages after its coverage return to the raw history
+   */
+  async activate(id: string): Promise<ConversationSummary> {
+    return prisma.$transaction(async (tx) => {
+      const target = await tx.conversationSummary.findUniqueOrThrow({
+        where: { id },
+      });
+
+      await tx.conversationSummary.updateMany({
+        where: { conversationId: target.conversationId, isActive: true },
+        data: { isActive: false },
+      });
+
+      const summary = await tx.conversationSummary.update({
+        where: { id },
+        data: { isActive: true },
+      });
+
+      await tx.conversation.update({
+        where: { id: summary.conversationId },
+        data: { summary: summary.content, summaryUntilSeq: summary.untilSeq },
+      });
+
+      return summary;
+    });
+  },
+};
@@ -0,0 +1,68 @@
+import { prisma } from "../lib/prisma";
+import { FeedbackGrouping, FeedbackInput } from "../types/feedback";
+
+type MessageFeedback = Awaited<ReturnType<typeof prisma.messageFeedback.create>>;
+
+export const feedbackRepo = {
+  /**
+   * Store the rating of a message, replacing any earlier one
+   */
+  async upsert(
+    messageId: string,
+    input: FeedbackInput
+  ): Promise<MessageFeedback> {
+    const data = {
+      rating: input.rating,
+      reason: input.reason ?? null,
+      comment: input.comment ?? null,
+    };
+
+    return prisma.messageFeedback.upsert({
+      where: { messageId },
+      create: { messageId, ...data },
+      update: data,
+    });
+  },
+
+  /**
+   * Remove the rating of a message
+   */
+  async deleteByMessage(messageId: string): Promise<void> {
+    await prisma.messageFeedback.deleteMany({
+      where: { messageId },
+    });
+  },
+
+  /**
+   * Count feedback on a store's messages per group, rating and reason
+   * within [from, to)
+   */
+  async countByGroup(params: {
+    storeId: string;
+    groupBy: FeedbackGrouping;
+    from: Date;
+    to: Date;
+  }): Promise<
+    { key: string; rating: string; reason: string | null; count: number }[]
+  > {
+    const { storeId, groupBy, from, to } = params;
+
+    return prisma.$queryRaw`
+      SELECT CASE ${groupBy}::text
+               WHEN 'day' THEN to_char(f."createdAt", 'YYYY-MM-DD')
+               WHEN 'prompt' THEN COALESCE(p."version"::text, 'none')
+               ELSE m."conversationId"
+             END AS "key",
+             f."rating"::text AS "rating",
+             f."reason"::text AS "reason",
+             COUNT(*)::int AS "count"
+      FROM "MessageFeedback" f
+      JOIN "Message" m ON m."id" = f."messageId"
+      JOIN "Conversation" c ON c."id" = m."conversationId"
+      LEFT JOIN "PromptVersion" p ON p."id" = m."promptVersionId"
+      WHERE c."storeId" = ${storeId}
+        AND f."createdAt" >= ${from} AND f."createdAt" < ${to}
+      GROUP BY 1, 2, 3
+    `;
+  },
+};
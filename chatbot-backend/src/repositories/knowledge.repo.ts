@@ -0,0 +1,82 @@
+import { prisma } from "../lib/prisma";
+import { DocumentChunk } from "../lib/documents";
+import { KnowledgeMatch } from "../types/knowledge";
+
+export const knowledgeRepo = {
+  /**
+   * Find a store's document by its source path
+   */
+  async findBySource(storeId: string, source: string) {
+    return prisma.knowledgeDocument.findUnique({
+      where: { storeId_source: { storeId, source } },
+      select: { id: true, checksum: true },
+    });
+  },
+
+  /**
+   * Insert or replace a document and all of its chunks atomically
+   * Search vectors are maintained by a database trigger
+   */
+  async replaceDocument(
+    storeId: string,
+    params: {
+      source: string;
+      title: string;
+      checksum: string;
+      chunks: DocumentChunk[];
+    }
+  ): Promise<void> {
+    const { source, title, checksum, chunks } = params;
+
+    await prisma.$transaction(async (tx) => {
+      const document = await tx.knowledgeDocument.upsert({
+        where: { storeId_source: { storeId, source } },
+        create: { storeId, source, title, checksum },
+        update: { title, checksum },
+      });
+
+      await tx.knowledgeChunk.deleteMany({ where: { documentId: document.id } });
+      await tx.knowledgeChunk.createMany({
+        data: chunks.map((chunk, position) => ({
+          storeId,
+          documentId: document.id,
+          position,
+          heading: chunk.heading,
+          content: chunk.content,
+        })),
+      });
+    });
+  },
+
+  /**
+   * Rank a store's chunks with Postgres full-text search
+   * Matches on the current message count double compared to matches that
+   * only come from the surrounding context (recent messages).
+   */
+  async search(params: {
+    storeId: string;
+    query: string;
+    contextQuery: string | null;
+    limit: number;
+    minRank: number;
+  }): Promise<KnowledgeMatch[]> {
+    const { storeId, query, contextQuery, limit, minRank } = params;
+
+    // Normalization 32 maps rank into [0, 1): rank / (rank + 1)
+    return prisma.$queryRaw<KnowledgeMatch[]>`
+      SELECT * FROM (
+        SELECT c."heading", c."content", d."source",
+               (2 * ts_rank_cd(c."searchVector", q, 32) + ts_rank_cd(c."searchVector", ctx, 32)) / 3 AS "rank"
+        FROM "KnowledgeChunk" c
+        JOIN "KnowledgeDocument" d ON d."id" = c."documentId",
+             to_tsquery('english', ${query}) AS q,
+             to_tsquery('english', ${contextQuery ?? query}) AS ctx
+        WHERE c."storeId" = ${storeId}
+          AND c."searchVector" @@ (q || ctx)
+      ) ranked
+      WHERE "rank" >= ${minRank}
+      ORDER BY "rank" DESC
+      LIMIT ${limit}
+    `;
+  },
+};
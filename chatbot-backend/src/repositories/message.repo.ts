@@ -1,76 +1,317 @@
 import { prisma } from "../lib/prisma";
+import { PiiVaultInput } from "../types/pii";
 
 type Message = Awaited<ReturnType<typeof prisma.message.create>>;
 // Infer Sender type from Prisma client
 type Sender = Message["sender"];
 
+const MAX_BRANCH_DEPTH = 2147483647; // Postgres integer max: no limit
+
+const HISTORY_SELECT = {
+  id: true,
+  seq: true,
+  parentId: true,
+  sender: true,
+  text: true,
+  createdAt: true,
+  toolInvocations: {
+    orderBy: { createdAt: "asc" as const },
+    select: {
+      name: true,
+      arguments: true,
+      result: true,
+      error: true,
+    },
+  },
+  feedback: {
+    select: {
+      rating: true,
+      reason: true,
+      comment: true,
+    },
+  },
+};
+
+/**
+ * Every query is scoped to a store: a message is only found through a
+ * conversation of the storeId argument
+ */
 export const messageRepo = {
   /**
-   * Create a message (user or ai)
+   * Create a message (user or ai) and make it the end of the active branch
+   * Appends to the active branch unless a parent is given (regenerate/edit
+   * start a new branch from an earlier message). The conversation's counter
+   * is incremented in the same transaction; its row lock serializes
+   * concurrent inserts, so seq has no duplicates or gaps
+   * With ifLeafIs, the message only becomes the end of the active branch if
+   * that is still the leaf: a message written meanwhile stays in view
+   * Originals of PII redacted from the text are vaulted with the message
    */
-  async create(params: {
-    conversationId: string;
-    sender: Sender;
-    text: string;
-  }): Promise<Message> {
-    const { conversationId, sender, text } = params;
-
-    return prisma.message.create({
-      data: {
-        conversationId,
-        sender,
-        text,
-      },
+  async create(
+    storeId: string,
+    params: {
+      conversationId: string;
+      sender: Sender;
+      text: string;
+      promptVersionId?: string | null;
+      parentId?: string | null;
+      ifLeafIs?: string | null;
+      piiEntries?: PiiVaultInput[];
+      guardrailRule?: string | null;
+    }
+  ): Promise<Message> {
+    const { conversationId, sender, text, promptVersionId, guardrailRule } = params;
+
+    return prisma.$transaction(async (tx) => {
+      const { lastSeq, activeLeafId } = await tx.conversation.update({
+        where: { id: conversationId, storeId },
+        data: { lastSeq: { increment: 1 }, lastMessageAt: new Date() },
+        select: { lastSeq: true, activeLeafId: true },
+      });
+
+      const message = await tx.message.create({
+        data: {
+          conversationId,
+          seq: lastSeq,
+          parentId: params.parentId !== undefined ? params.parentId : activeLeafId,
+          sender,
+          text,
+          promptVersionId,
+          guardrailRule,
+          ...(params.piiEntries?.length && {
+            piiEntries: { create: params.piiEntries },
+          }),
+        },
+      });
+
+      if (params.ifLeafIs === undefined || params.ifLeafIs === activeLeafId) {
+        await tx.conversation.update({
+          where: { id: conversationId },
+          data: { activeLeafId: message.id },
+        });
+      }
+
+      return message;
+    });
+  },
+
+  /**
+   * Record the guardrail that blocked a user message
+   */
+  async setGuardrailRule(storeId: string, id: string, guardrailRule: string): Promise<void> {
+    await prisma.message.update({
+      where: { id, conversation: { storeId } },
+      data: { guardrailRule },
+    });
+  },
+
+  /**
+   * Find a message of a store by ID
+   */
+  async findById(storeId: string, id: string): Promise<Message | null> {
+    return prisma.message.findUnique({
+      where: { id, conversation: { storeId } },
+    });
+  },
+
+  /**
+   * Walk a branch backwards from a message (inclusive) through its parents
+   * Stops at the first message with seq <= afterSeq, or after `limit` messages
+   *
+   * @returns message IDs, newest first
+   */
+  async getBranchIds(
+    storeId: string,
+    fromMessageId: string,
+    params: { afterSeq?: number; limit?: number } = {}
+  ): Promise<string[]> {
+    const afterSeq = params.afterSeq ?? 0;
+    const limit = params.limit ?? MAX_BRANCH_DEPTH;
+
+    const rows = await prisma.$queryRaw<{ id: string }[]>`
+      WITH RECURSIVE branch AS (
+        SELECT m."id", m."parentId", m."seq", 1 AS "depth"
+        FROM "Message" m
+        JOIN "Conversation" c ON c."id" = m."conversationId"
+        WHERE m."id" = ${fromMessageId} AND c."storeId" = ${storeId}
+          AND m."seq" > ${afterSeq}
+        UNION ALL
+        SELECT p."id", p."parentId", p."seq", b."depth" + 1
+        FROM "Message" p
+        JOIN branch b ON p."id" = b."parentId"
+        WHERE p."seq" > ${afterSeq} AND b."depth" < ${limit}
+      )
+      SELECT "id" FROM branch ORDER BY "seq" DESC
+    `;
+    return rows.map((row) => row.id);
+  },
+
+  /**
+   * Get a page of the active branch, with the tools the agent invoked and
+   * their rating
+   * Returns up to `limit` messages before the message with seq = beforeSeq
+   * (from the newest when omitted), ordered from oldest → newest
+   */
+  async getPage(
+    storeId: string,
+    conversationId: string,
+    params: { beforeSeq?: number; limit: number }
+  ) {
+    let startId: string | null;
+    if (params.beforeSeq !== undefined) {
+      const cursor = await prisma.message.findUnique({
+        where: {
+          conversationId_seq: { conversationId, seq: params.beforeSeq },
+          conversation: { storeId },
+        },
+        select: { parentId: true },
+      });
+      startId = cursor?.parentId ?? null;
+    } else {
+      const conversation = await prisma.conversation.findUnique({
+        where: { id: conversationId, storeId },
+        select: { activeLeafId: true },
+      });
+      startId = conversation?.activeLeafId ?? null;
+    }
+
+    if (!startId) {
+      return [];
+    }
+
+    const ids = await this.getBranchIds(storeId, startId, { limit: params.limit });
+    return prisma.message.findMany({
+      where: { id: { in: ids } },
+      orderBy: { seq: "asc" },
+      select: HISTORY_SELECT,
     });
   },
 
   /**
-   * Get messages for a conversation
+   * Get the branch ending at a message, after a seq (e.g. the summary's coverage)
    * Ordered from oldest → newest
    */
-  async getByConversation(
-    conversationId: string
-  ): Promise<Pick<Message, "sender" | "text" | "createdAt">[]> {
+  async getBranch(
+    storeId: string,
+    fromMessageId: string,
+    afterSeq: number
+  ): Promise<Pick<Message, "id" | "seq" | "sender" | "text" | "guardrailRule">[]> {
+    const ids = await this.getBranchIds(storeId, fromMessageId, { afterSeq });
     return prisma.message.findMany({
-      where: { conversationId },
-      orderBy: { createdAt: "asc" },
+      where: { id: { in: ids } },
+      orderBy: { seq: "asc" },
       select: {
+        id: true,
+        seq: true,
         sender: true,
         text: true,
-        createdAt: true,
+        guardrailRule: true,
       },
     });
   },
 
   /**
-   * Get last N messages for a conversation (for raw window)
+   * Get active-branch messages with fromSeq <= seq <= untilSeq
    * Ordered from oldest → newest
    */
-  async getLastN(
+  async getRange(
+    storeId: string,
     conversationId: string,
-    n: number
-  ): Promise<Pick<Message, "sender" | "text">[]> {
-    return prisma.message
-      .findMany({
-        where: { conversationId },
-        orderBy: { createdAt: "desc" },
-        take: n,
-        select: {
-          sender: true,
-          text: true,
-        },
-      })
-      .then((messages: Pick<Message, "sender" | "text">[]) =>
-        messages.reverse()
-      ); // Reverse to get oldest → newest
+    fromSeq: number,
+    untilSeq: number
+  ): Promise<Message[]> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId, storeId },
+      select: { activeLeafId: true },
+    });
+    if (!conversation?.activeLeafId) {
+      return [];
+    }
+
+    const ids = await this.getBranchIds(storeId, conversation.activeLeafId, {
+      afterSeq: fromSeq - 1,
+    });
+    return prisma.message.findMany({
+      where: { id: { in: ids }, seq: { lte: untilSeq } },
+      orderBy: { seq: "asc" },
+    });
+  },
+
+  /**
+   * Get the alternatives of messages: every child of the given parents
+   * (null = first messages of the conversation), ordered by seq
+   */
+  async getChildren(
+    storeId: string,
+    conversationId: string,
+    parentIds: (string | null)[]
+  ): Promise<Pick<Message, "id" | "parentId">[]> {
+    const ids = parentIds.filter((id): id is string => id !== null);
+
+    return prisma.message.findMany({
+      where: {
+        conversationId,
+        conversation: { storeId },
+        OR: [
+          { parentId: { in: ids } },
+          ...(parentIds.includes(null) ? [{ parentId: null }] : []),
+        ],
+      },
+      orderBy: { seq: "asc" },
+      select: { id: true, parentId: true },
+    });
+  },
+
+  /**
+   * Get the most recent reply to a message (used to follow a branch down)
+   */
+  async getLatestChild(
+    storeId: string,
+    parentId: string
+  ): Promise<Pick<Message, "id"> | null> {
+    return prisma.message.findFirst({
+      where: { parentId, conversation: { storeId } },
+      orderBy: { seq: "desc" },
+      select: { id: true },
+    });
   },
 
   /**
-   * Get total message count for a conversation
+   * Get total message count for a conversation (all branches)
    */
-  async getCount(conversationId: string): Promise<number> {
+  async getCount(storeId: string, conversationId: string): Promise<number> {
     return prisma.message.count({
-      where: { conversationId },
+      where: { conversationId, conversation: { storeId } },
+    });
+  },
+
+  /**
+   * Get last N messages of the active branch (for raw window)
+   * Ordered from oldest → newest
+   */
+  async getLastN(
+    storeId: string,
+    conversationId: string,
+    n: number
+  ): Promise<Pick<Message, "sender" | "text">[]> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId, storeId },
+      select: { activeLeafId: true },
+    });
+    if (!conversation?.activeLeafId) {
+      return [];
+    }
+
+    const ids = await this.getBranchIds(storeId, conversation.activeLeafId, {
+      limit: n,
+    });
+    return prisma.message.findMany({
+      where: { id: { in: ids } },
+      orderBy: { seq: "asc" },
+      select: {
+        sender: true,
+        text: true,
+      },
     });
   },
 
@@ -78,21 +319,10 @@ export const messageRepo = {
    * Optional: limit history for LLM safety
    */
   async getRecentByConversation(
+    storeId: string,
     conversationId: string,
     limit: number
   ): Promise<Pick<Message, "sender" | "text">[]> {
-    return prisma.message
-      .findMany({
-        where: { conversationId },
-        orderBy: { createdAt: "desc" },
-        take: limit,
-        select: {
-          sender: true,
-          text: true,
-        },
-      })
-      .then((messages: Pick<Message, "sender" | "text">[]) =>
-        messages.reverse()
-      );
+    return this.getLastN(storeId, conversationId, limit);
   },
 };
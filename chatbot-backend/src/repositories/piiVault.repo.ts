@@ -0,0 +1,15 @@
+import { prisma } from "../lib/prisma";
+
+type PiiVaultEntry = Awaited<ReturnType<typeof prisma.piiVaultEntry.create>>;
+
+export const piiVaultRepo = {
+  /**
+   * Get the vaulted originals of a message, in placeholder order
+   */
+  async listByMessage(messageId: string): Promise<PiiVaultEntry[]> {
+    return prisma.piiVaultEntry.findMany({
+      where: { messageId },
+      orderBy: { placeholder: "asc" },
+    });
+  },
+};
@@ -0,0 +1,59 @@
+import { prisma } from "../lib/prisma";
+import { buildAnyTermTsQuery } from "../lib/search";
+import { CatalogProduct } from "../types/catalog";
+
+export const productRepo = {
+  /**
+   * Insert or update a store's product by SKU
+   * The search vector is maintained by a database trigger
+   */
+  async upsert(storeId: string, product: CatalogProduct): Promise<void> {
+    const data = {
+      title: product.title,
+      description: product.description,
+      price: product.price,
+      currency: product.currency,
+      stock: product.stock,
+      category: product.category,
+      attributes: product.attributes as object,
+    };
+
+    await prisma.product.upsert({
+      where: { storeId_sku: { storeId, sku: product.sku } },
+      create: { storeId, sku: product.sku, ...data },
+      update: data,
+    });
+  },
+
+  /**
+   * Full-text search over a store's catalog: title, SKU, category,
+   * description and attributes
+   * Exact SKU mentions always match. Ordered by relevance.
+   */
+  async search(storeId: string, text: string, limit: number): Promise<CatalogProduct[]> {
+    const tsQuery = buildAnyTermTsQuery(text);
+    if (!tsQuery) {
+      return [];
+    }
+
+    const skuCandidates = text.toUpperCase().match(/[A-Z0-9][A-Z0-9-_]{2,}/g) ?? [];
+
+    return prisma.$queryRaw<CatalogProduct[]>`
+      SELECT "sku", "title", "description", "price"::text AS "price",
+             "currency", "stock", "category", "attributes"
+      FROM "Product", to_tsquery('english', ${tsQuery}) AS query
+      WHERE "storeId" = ${storeId}
+        AND ("searchVector" @@ query OR upper("sku") = ANY(${skuCandidates}))
+      ORDER BY (upper("sku") = ANY(${skuCandidates})) DESC,
+               ts_rank("searchVector", query) DESC
+      LIMIT ${limit}
+    `;
+  },
+
+  /**
+   * Get total number of products in a store's catalog
+   */
+  async getCount(storeId: string): Promise<number> {
+    return prisma.product.count({ where: { storeId } });
+  },
+};
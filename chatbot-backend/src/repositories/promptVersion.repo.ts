@@ -0,0 +1,128 @@
+import { prisma } from "../lib/prisma";
+import { PromptSectionInput } from "../types/prompt";
+
+const sectionsInOrder = { sections: { orderBy: { position: "asc" as const } } };
+
+export const promptVersionRepo = {
+  /**
+   * Get the currently published version of a store with its sections
+   * Returns null if nothing is published
+   */
+  async findPublished(storeId: string) {
+    return prisma.promptVersion.findFirst({
+      where: { storeId, status: "published" },
+      include: sectionsInOrder,
+    });
+  },
+
+  /**
+   * Find a version of a store by ID with its sections
+   */
+  async findById(storeId: string, id: string) {
+    return prisma.promptVersion.findFirst({
+      where: { id, storeId },
+      include: sectionsInOrder,
+    });
+  },
+
+  /**
+   * List the versions of a store, newest first (without sections)
+   */
+  async list(storeId: string) {
+    return prisma.promptVersion.findMany({
+      where: { storeId },
+      orderBy: { version: "desc" },
+      select: {
+        id: true,
+        version: true,
+        status: true,
+        notes: true,
+        createdAt: true,
+        publishedAt: true,
+        _count: { select: { messages: true } },
+      },
+    });
+  },
+
+  /**
+   * Create a new draft version numbered after the store's latest one
+   */
+  async createDraft(
+    storeId: string,
+    params: { sections: PromptSectionInput[]; notes?: string | null }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.promptVersion.aggregate({
+        where: { storeId },
+        _max: { version: true },
+      });
+
+      return tx.promptVersion.create({
+        data: {
+          storeId,
+          version: (latest._max.version ?? 0) + 1,
+          status: "draft",
+          notes: params.notes ?? null,
+          sections: {
+            create: params.sections.map((section, position) => ({
+              ...section,
+              position,
+            })),
+          },
+        },
+        include: sectionsInOrder,
+      });
+    });
+  },
+
+  /**
+   * Replace the sections and/or notes of a draft
+   * The caller checks that the draft belongs to the store
+   */
+  async updateDraft(
+    id: string,
+    params: { sections?: PromptSectionInput[]; notes?: string | null }
+  ) {
+    return prisma.$transaction(async (tx) => {
+      if (params.sections) {
+        await tx.promptSection.deleteMany({ where: { promptVersionId: id } });
+      }
+
+      return tx.promptVersion.update({
+        where: { id },
+        data: {
+          ...(params.notes !== undefined && { notes: params.notes }),
+          ...(params.sections && {
+            sections: {
+              create: params.sections.map((section, position) => ({
+                ...section,
+                position,
+              })),
+            },
+          }),
+        },
+        include: sectionsInOrder,
+      });
+    });
+  },
+
+  /**
+   * Publish a version, archiving the store's previously published one
+   * Both updates happen atomically so exactly one version is live per store
+   * The caller checks that the version belongs to the store
+   */
+  async publish(storeId: string, id: string) {
+    return prisma.$transaction(async (tx) => {
+      await tx.promptVersion.updateMany({
+        where: { storeId, status: "published" },
+        data: { status: "archived" },
+      });
+
+      return tx.promptVersion.update({
+        where: { id },
+        data: { status: "published", publishedAt: new Date() },
+        include: sectionsInOrder,
+      });
+    });
+  },
+};
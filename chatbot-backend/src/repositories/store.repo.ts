@@ -0,0 +1,83 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { StoreInput, StoreUpdate } from "../types/store";
+
+type Store = Awaited<ReturnType<typeof prisma.store.create>>;
+
+// Prisma needs DbNull to clear a Json column
+function toJson(value: StoreInput["rateLimits"]) {
+  return value === null ? Prisma.DbNull : (value as object);
+}
+
+export const storeRepo = {
+  /**
+   * Create a store (slug must be unique)
+   */
+  async create(params: StoreInput): Promise<Store> {
+    return prisma.store.create({
+      data: {
+        slug: params.slug,
+        name: params.name,
+        allowedOrigins: params.allowedOrigins,
+        rateLimits: toJson(params.rateLimits),
+      },
+    });
+  },
+
+  /**
+   * Find store by ID
+   */
+  async findById(id: string): Promise<Store | null> {
+    return prisma.store.findUnique({
+      where: { id },
+    });
+  },
+
+  /**
+   * Find store by slug
+   */
+  async findBySlug(slug: string): Promise<Store | null> {
+    return prisma.store.findUnique({
+      where: { slug },
+    });
+  },
+
+  /**
+   * List all stores, by slug
+   */
+  async list(): Promise<Store[]> {
+    return prisma.store.findMany({
+      orderBy: { slug: "asc" },
+    });
+  },
+
+  /**
+   * Update the name, origins and/or rate limits of a store
+   * Returns null if the store doesn't exist
+   */
+  async update(id: string, params: StoreUpdate): Promise<Store | null> {
+    const { count } = await prisma.store.updateMany({
+      where: { id },
+      data: {
+        ...(params.name !== undefined && { name: params.name }),
+        ...(params.allowedOrigins !== undefined && {
+          allowedOrigins: params.allowedOrigins,
+        }),
+        ...(params.rateLimits !== undefined && {
+          rateLimits: toJson(params.rateLimits),
+        }),
+      },
+    });
+    return count > 0 ? this.findById(id) : null;
+  },
+
+  /**
+   * Origins allowed by any store (CORS preflights carry no API key)
+   */
+  async listAllowedOrigins(): Promise<string[]> {
+    const stores = await prisma.store.findMany({
+      select: { allowedOrigins: true },
+    });
+    return [...new Set(stores.flatMap((store) => store.allowedOrigins))];
+  },
+};
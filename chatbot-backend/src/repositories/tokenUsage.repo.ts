@@ -0,0 +1,102 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../lib/prisma";
+import { TokenUsageEntry, UsageGrouping } from "../types/usage";
+
+/**
+ * Prompt + completion tokens of the matching ledger rows
+ */
+async function sumTokens(where: Prisma.TokenUsageWhereInput): Promise<number> {
+  const { _sum } = await prisma.tokenUsage.aggregate({
+    where,
+    _sum: { promptTokens: true, completionTokens: true },
+  });
+  return (_sum.promptTokens ?? 0) + (_sum.completionTokens ?? 0);
+}
+
+export const tokenUsageRepo = {
+  /**
+   * Add the tokens of one LLM task to the ledger
+   */
+  async create(entry: TokenUsageEntry): Promise<void> {
+    await prisma.tokenUsage.create({
+      data: {
+        conversationId: entry.conversationId,
+        kind: entry.kind,
+        model: entry.model,
+        promptTokens: entry.usage.promptTokens,
+        completionTokens: entry.usage.completionTokens,
+        messageId: entry.messageId ?? null,
+        summaryId: entry.summaryId ?? null,
+        clientIp: entry.clientIp ?? null,
+      },
+    });
+  },
+
+  /**
+   * Tokens a conversation has used
+   */
+  async sumByConversation(conversationId: string): Promise<number> {
+    return sumTokens({ conversationId });
+  },
+
+  /**
+   * Tokens used since a date by a client in a store: across the user's
+   * conversations when signed in, otherwise by the replies requested from
+   * the guest's IP address
+   */
+  async sumByClient(params: {
+    storeId: string;
+    userId?: string;
+    ip: string;
+    since: Date;
+  }): Promise<number> {
+    const { storeId, userId, ip, since } = params;
+
+    return sumTokens(
+      userId
+        ? { createdAt: { gte: since }, conversation: { storeId, userId } }
+        : { createdAt: { gte: since }, clientIp: ip, conversation: { storeId } }
+    );
+  },
+
+  /**
+   * Sum a store's token usage per group and kind within [from, to)
+   */
+  async sumByGroup(params: {
+    storeId: string;
+    groupBy: UsageGrouping;
+    from: Date;
+    to: Date;
+  }): Promise<
+    {
+      key: string;
+      kind: string;
+      calls: number;
+      promptTokens: number;
+      completionTokens: number;
+    }[]
+  > {
+    const { storeId, groupBy, from, to } = params;
+
+    return prisma.$queryRaw`
+      SELECT CASE ${groupBy}::text
+               WHEN 'day' THEN to_char(u."createdAt", 'YYYY-MM-DD')
+               WHEN 'client' THEN COALESCE(
+                 'user:' || c."userId",
+                 'client:' || c."clientId",
+                 'unknown'
+               )
+               ELSE u."conversationId"
+             END AS "key",
+             u."kind"::text AS "kind",
+             COUNT(*)::int AS "calls",
+             SUM(u."promptTokens")::int AS "promptTokens",
+             SUM(u."completionTokens")::int AS "completionTokens"
+      FROM "TokenUsage" u
+      JOIN "Conversation" c ON c."id" = u."conversationId"
+      WHERE c."storeId" = ${storeId}
+        AND u."createdAt" >= ${from} AND u."createdAt" < ${to}
+      GROUP BY 1, 2
+    `;
+  },
+};
@@ -0,0 +1,32 @@
+import { prisma } from "../lib/prisma";
+import { ToolInvocationResult } from "../types/tool";
+
+export const toolInvocationRepo = {
+  /**
+   * Record the tool invocations of one turn
+   * messageId is the AI message the turn produced (null if it was aborted)
+   */
+  async createMany(params: {
+    conversationId: string;
+    messageId: string | null;
+    invocations: ToolInvocationResult[];
+  }): Promise<void> {
+    const { conversationId, messageId, invocations } = params;
+
+    if (invocations.length === 0) {
+      return;
+    }
+
+    await prisma.toolInvocation.createMany({
+      data: invocations.map((invocation) => ({
+        conversationId,
+        messageId,
+        name: invocation.name,
+        arguments: invocation.arguments as object,
+        result: (invocation.result ?? undefined) as object | undefined,
+        error: invocation.error,
+        durationMs: invocation.durationMs,
+      })),
+    });
+  },
+};
@@ -0,0 +1,68 @@
+import { prisma } from "../lib/prisma";
+
+type User = Awaited<ReturnType<typeof prisma.user.create>>;
+
+export const userRepo = {
+  /**
+   * Create a user in a store (email must already be normalized)
+   */
+  async create(params: {
+    storeId: string;
+    email: string;
+    passwordHash: string;
+    name?: string | null;
+  }): Promise<User> {
+    return prisma.user.create({
+      data: {
+        storeId: params.storeId,
+        email: params.email,
+        passwordHash: params.passwordHash,
+        name: params.name ?? null,
+      },
+    });
+  },
+
+  /**
+   * Find a store's user by ID
+   */
+  async findById(storeId: string, id: string): Promise<User | null> {
+    return prisma.user.findUnique({
+      where: { id, storeId },
+    });
+  },
+
+  /**
+   * Find a store's user by normalized email
+   */
+  async findByEmail(storeId: string, email: string): Promise<User | null> {
+    return prisma.user.findUnique({
+      where: { storeId_email: { storeId, email } },
+    });
+  },
+
+  /**
+   * Change a user's role
+   * Returns null if no user of the store has this (normalized) email
+   */
+  async setRole(
+    storeId: string,
+    email: string,
+    role: User["role"]
+  ): Promise<User | null> {
+    const { count } = await prisma.user.updateMany({
+      where: { storeId, email },
+      data: { role },
+    });
+    return count > 0 ? this.findByEmail(storeId, email) : null;
+  },
+
+  /**
+   * List a store's users with a role, by email
+   */
+  async listByRole(storeId: string, role: User["role"]): Promise<User[]> {
+    return prisma.user.findMany({
+      where: { storeId, role },
+      orderBy: { email: "asc" },
+    });
+  },
+};
@@ -0,0 +1,309 @@
+import { promptService } from "../services/prompt.service";
+import { summaryService } from "../services/summary.service";
+import { feedbackService } from "../services/feedback.service";
+import { authService } from "../services/auth.service";
+import { handoffService } from "../services/handoff.service";
+import { redactionService } from "../services/redaction.service";
+import { usageService } from "../services/usage.service";
+import { requireAdmin } from "../middleware/adminAuth";
+import { validatePromptVersion } from "../middleware/validator";
+import { PromptSectionInput } from "../types/prompt";
+import { FEEDBACK_GROUPINGS, FeedbackGrouping } from "../types/feedback";
+import { USAGE_GROUPINGS, UsageGrouping } from "../types/usage";
+import { ValidationError } from "../lib/errors";
+import express from "express";
+
+const router = express.Router();
+
+/**
+ * Parse an optional ISO date query parameter
+ */
+function parseDateParam(value: unknown, name: string): Date | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${name} must be an ISO date`);
+  }
+  return date;
+}
+
+// Every admin endpoint requires the admin API key; the store API key picks
+// the store they apply to (store management itself is in store.route)
+router.use("/admin", requireAdmin);
+
+/**
+ * GET /admin/prompt-versions
+ * List prompt versions, newest first
+ */
+router.get("/admin/prompt-versions", async (req, res, next) => {
+  try {
+    const versions = await promptService.listVersions(req.store!.id);
+    res.json({
+      versions: versions.map(({ _count, ...version }) => ({
+        ...version,
+        messageCount: _count.messages,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/prompt-versions/active
+ * The system prompt replies are currently generated with
+ */
+router.get("/admin/prompt-versions/active", async (req, res, next) => {
+  try {
+    res.json(await promptService.getActive(req.store!.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/prompt-versions/:id
+ * A version with its sections and rendered prompt
+ */
+router.get("/admin/prompt-versions/:id", async (req, res, next) => {
+  try {
+    res.json(await promptService.getVersion(req.store!.id, req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/prompt-versions
+ * Create a draft (copies the published prompt when sections are omitted)
+ *
+ * Request: { notes?: string, sections?: [{ kind, key, title, content }] }
+ */
+router.post(
+  "/admin/prompt-versions",
+  validatePromptVersion,
+  async (req, res, next) => {
+    try {
+      const { notes, sections } = req.body as {
+        notes?: string | null;
+        sections?: PromptSectionInput[];
+      };
+      const draft = await promptService.createDraft(req.store!.id, { notes, sections });
+      res.status(201).json(draft);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * PUT /admin/prompt-versions/:id
+ * Update a draft (409 if the version is published or archived)
+ */
+router.put(
+  "/admin/prompt-versions/:id",
+  validatePromptVersion,
+  async (req, res, next) => {
+    try {
+      const { notes, sections } = req.body as {
+        notes?: string | null;
+        sections?: PromptSectionInput[];
+      };
+      res.json(
+        await promptService.updateDraft(req.store!.id, req.params.id, { notes, sections })
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/prompt-versions/:id/publish
+ * Publish a draft; the previously published version is archived
+ */
+router.post("/admin/prompt-versions/:id/publish", async (req, res, next) => {
+  try {
+    res.json(await promptService.publish(req.store!.id, req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/prompt-versions/:id/rollback
+ * Republish an earlier version's content as a new version
+ */
+router.post("/admin/prompt-versions/:id/rollback", async (req, res, next) => {
+  try {
+    res.status(201).json(await promptService.rollback(req.store!.id, req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/conversations/:id/summaries
+ * Summary versions of a conversation, newest first
+ */
+router.get("/admin/conversations/:id/summaries", async (req, res, next) => {
+  try {
+    res.json({ summaries: await summaryService.listVersions(req.store!.id, req.params.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/conversations/:id/summaries/:summaryId/rollback
+ * Make an earlier summary version the active one
+ */
+router.post(
+  "/admin/conversations/:id/summaries/:summaryId/rollback",
+  async (req, res, next) => {
+    try {
+      res.json(
+        await summaryService.rollback(
+          req.store!.id,
+          req.params.id,
+          req.params.summaryId
+        )
+      );
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /admin/conversations/:id/summaries/regenerate
+ * Queue regeneration of the active summary (202, runs in the summary worker)
+ */
+router.post(
+  "/admin/conversations/:id/summaries/regenerate",
+  async (req, res, next) => {
+    try {
+      const job = await summaryService.requestRegeneration(
+        req.store!.id,
+        req.params.id
+      );
+      res.status(202).json({ jobId: job.id });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /admin/messages/:id/pii
+ * Reveal the PII redacted from a user message (every access is logged)
+ *
+ * Response: { messageId, text, redactedText, entries: [{ placeholder, type, value }] }
+ */
+router.get("/admin/messages/:id/pii", async (req, res, next) => {
+  try {
+    res.setHeader("Cache-Control", "no-store");
+    res.json(await redactionService.reveal(req.store!.id, req.params.id));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/feedback/report?groupBy=day|prompt|conversation&from=&to=
+ * Aggregated message ratings (default: by day over the last 30 days)
+ *
+ * Response: { from, to, groupBy, rows: [{ key, up, down, total, satisfaction, reasons }] }
+ */
+router.get("/admin/feedback/report", async (req, res, next) => {
+  try {
+    const groupBy = (req.query.groupBy ?? "day") as FeedbackGrouping;
+    if (!FEEDBACK_GROUPINGS.includes(groupBy)) {
+      throw new ValidationError(
+        `groupBy must be one of: ${FEEDBACK_GROUPINGS.join(", ")}`
+      );
+    }
+
+    const report = await feedbackService.report(req.store!.id, {
+      groupBy,
+      from: parseDateParam(req.query.from, "from"),
+      to: parseDateParam(req.query.to, "to"),
+    });
+
+    res.json({ ...report, groupBy });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/usage?groupBy=day|conversation|client&from=&to=
+ * LLM tokens consumed by replies, summaries and handoff notes
+ * (default: by day over the last 30 days)
+ *
+ * Response: { from, to, groupBy, rows: [{ key, calls, promptTokens, completionTokens, totalTokens, byKind }] }
+ */
+router.get("/admin/usage", async (req, res, next) => {
+  try {
+    const groupBy = (req.query.groupBy ?? "day") as UsageGrouping;
+    if (!USAGE_GROUPINGS.includes(groupBy)) {
+      throw new ValidationError(
+        `groupBy must be one of: ${USAGE_GROUPINGS.join(", ")}`
+      );
+    }
+
+    const report = await usageService.report(req.store!.id, {
+      groupBy,
+      from: parseDateParam(req.query.from, "from"),
+      to: parseDateParam(req.query.to, "to"),
+    });
+
+    res.json({ ...report, groupBy });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/agents
+ * Users with the support agent role
+ */
+router.get("/admin/agents", async (req, res, next) => {
+  try {
+    res.json({ agents: await authService.listAgents(req.store!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/agents/:email
+ * Make an existing account a support agent
+ */
+router.put("/admin/agents/:email", async (req, res, next) => {
+  try {
+    res.json(await authService.setRole(req.store!.id, req.params.email, "agent"));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/agents/:email
+ * Revoke the agent role (the account stays a customer account)
+ * Conversations the agent was handling go back to the queue
+ */
+router.delete("/admin/agents/:email", async (req, res, next) => {
+  try {
+    const user = await authService.setRole(req.store!.id, req.params.email, "customer");
+    await handoffService.releaseAll(req.store!.id, user.id);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
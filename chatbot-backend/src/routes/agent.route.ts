@@ -0,0 +1,123 @@
+import { handoffService } from "../services/handoff.service";
+import { authenticate, requireAgent, requireUser } from "../middleware/auth";
+import { validateMessage } from "../middleware/validator";
+import express from "express";
+
+const router = express.Router();
+
+// Agents are signed-in users with the agent role (granted via the admin API)
+router.use("/agent", authenticate, requireUser, requireAgent);
+
+/**
+ * GET /agent/queue
+ * Conversations waiting for an agent or being handled, longest waiting first
+ *
+ * Response: { conversations: [{ sessionId, title, status, reason, handoffNote, preview, escalatedAt, lastMessageAt, assignedAgent }] }
+ */
+router.get("/agent/queue", async (req, res, next) => {
+  try {
+    res.json({ conversations: await handoffService.listQueue(req.store!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /agent/conversations/:sessionId
+ * Handoff details and the newest messages of a queued conversation
+ *
+ * Response: { sessionId, title, status, reason, handoffNote, summary, escalatedAt, assignedAgentId, messages: [{ id, seq, sender, text, timestamp }] }
+ */
+router.get("/agent/conversations/:sessionId", async (req, res, next) => {
+  try {
+    const { messages, ...conversation } = await handoffService.getForAgent(
+      req.store!.id,
+      req.params.sessionId
+    );
+    res.json({
+      ...conversation,
+      messages: messages.map((m) => ({
+        id: m.id,
+        seq: m.seq,
+        sender: m.sender,
+        text: m.text,
+        timestamp: m.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /agent/conversations/:sessionId/claim
+ * Take a waiting conversation; the bot stops replying
+ * 409 if another agent already took it
+ */
+router.post("/agent/conversations/:sessionId/claim", async (req, res, next) => {
+  try {
+    await handoffService.claim(req.store!.id, req.params.sessionId, req.user!.id);
+    res.json({ sessionId: req.params.sessionId, status: "assigned" });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /agent/conversations/:sessionId/messages
+ * Reply to the customer (the conversation must be claimed by the agent)
+ *
+ * Request: { message: string }
+ * Response (201): { id, seq, sender: "agent", text, timestamp }
+ */
+router.post(
+  "/agent/conversations/:sessionId/messages",
+  validateMessage,
+  async (req, res, next) => {
+    try {
+      const message = await handoffService.reply(
+        req.store!.id,
+        req.params.sessionId,
+        req.user!.id,
+        req.body.message
+      );
+      res.status(201).json({
+        id: message.id,
+        seq: message.seq,
+        sender: message.sender,
+        text: message.text,
+        timestamp: message.createdAt.toISOString(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /agent/conversations/:sessionId/release
+ * Put a claimed conversation back in the queue
+ */
+router.post("/agent/conversations/:sessionId/release", async (req, res, next) => {
+  try {
+    await handoffService.release(req.store!.id, req.params.sessionId, req.user!.id);
+    res.json({ sessionId: req.params.sessionId, status: "escalated" });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /agent/conversations/:sessionId/resolve
+ * Hand the conversation back to the bot
+ */
+router.post("/agent/conversations/:sessionId/resolve", async (req, res, next) => {
+  try {
+    await handoffService.resolve(req.store!.id, req.params.sessionId, req.user!.id);
+    res.json({ sessionId: req.params.sessionId, status: "bot" });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
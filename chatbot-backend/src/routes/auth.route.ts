@@ -0,0 +1,57 @@
+import { authService } from "../services/auth.service";
+import { authenticate, requireUser } from "../middleware/auth";
+import { validateCredentials } from "../middleware/validator";
+import { rateLimiter } from "../middleware/rateLimiter";
+import express from "express";
+
+const router = express.Router();
+
+/**
+ * POST /auth/register
+ * Create an account
+ *
+ * Request: { email: string, password: string, name?: string }
+ * Response: { token: string, user: { id, email, name, createdAt } }
+ */
+router.post("/auth/register", rateLimiter("auth"), validateCredentials, async (req, res, next) => {
+  try {
+    const { email, password, name } = req.body as {
+      email: string;
+      password: string;
+      name?: string | null;
+    };
+    res.status(201).json(await authService.register(req.store!.id, { email, password, name }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /auth/login
+ * Exchange credentials for an access token
+ *
+ * Request: { email: string, password: string }
+ * Response: { token: string, user: { id, email, name, createdAt } }
+ */
+router.post("/auth/login", rateLimiter("auth"), validateCredentials, async (req, res, next) => {
+  try {
+    const { email, password } = req.body as { email: string; password: string };
+    res.json(await authService.login(req.store!.id, { email, password }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /auth/me
+ * The signed-in user
+ */
+router.get("/auth/me", authenticate, requireUser, async (req, res, next) => {
+  try {
+    res.json({ user: await authService.getProfile(req.store!.id, req.user!.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
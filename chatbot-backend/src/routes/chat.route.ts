@@ -1,21 +1,96 @@
 import { chatService } from "../services/chat.service";
-import { messageRepo } from "../repositories/message.repo";
-import { rateLimiter } from "../middleware/rateLimiter";
-import { validateMessage } from "../middleware/validator";
-import express from "express";
+import { conversationService } from "../services/conversation.service";
+import { feedbackService } from "../services/feedback.service";
+import { branchService } from "../services/branch.service";
+import { handoffService } from "../services/handoff.service";
+import { getClientIp, rateLimiter } from "../middleware/rateLimiter";
+import { idempotency } from "../middleware/idempotency";
+import { toErrorResponse } from "../middleware/errorHandler";
+import { authenticate, identifyClient, requireUser } from "../middleware/auth";
+import {
+  validateConversationUpdate,
+  validateEscalation,
+  validateFeedback,
+  validateMessage,
+} from "../middleware/validator";
+import { openSseStream, writeSseEvent } from "../lib/sse";
+import { createLogger } from "../lib/logger";
+import { BranchAction } from "../types/chat";
+import express, { NextFunction, Request, Response } from "express";
+
+const log = createLogger("chat");
 
 const router = express.Router();
 
+/**
+ * Stream a reply over Server-Sent Events
+ * Shared by sending, regenerating and editing messages
+ */
+async function streamReply(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  params: { message?: string; sessionId?: string; branch?: BranchAction }
+): Promise<void> {
+  // Abort generation when the client goes away before the stream ends
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const events = chatService.streamMessage({
+      ...params,
+      storeId: req.store!.id,
+      userId: req.user?.id,
+      clientId: req.clientId,
+      ip: getClientIp(req),
+      signal: controller.signal,
+    });
+
+    for await (const event of events) {
+      if (!res.headersSent) {
+        openSseStream(res);
+      }
+
+      const { type, ...data } = event;
+      writeSseEvent(res, type, data);
+    }
+
+    res.end();
+  } catch (error) {
+    // Before the stream is open, fall back to the regular error handler
+    if (!res.headersSent) {
+      return next(error);
+    }
+
+    log.error("Stream error", { err: error });
+    const { body } = toErrorResponse(error as Error);
+    writeSseEvent(res, "error", { error: body.error, message: body.message });
+    res.end();
+  }
+}
+
+// Signed-in users own their conversations; anonymous chat still works and
+// guests are recognised by the browser's X-Client-Id
+router.use("/chat", authenticate, identifyClient);
+
 /**
  * POST /chat/message
  * Send a message and get AI reply
  * 
  * Request: { message: string, sessionId?: string }
- * Response: { reply: string, sessionId: string }
+ * Headers: Idempotency-Key (optional) - retries with the same key get the
+ *   original response instead of a second message and reply
+ * Response: { reply: string | null, sessionId: string, messageId: string | null, userMessageId: string, status: string }
+ * reply and messageId are null while a human agent handles the conversation
  */
 router.post(
   "/chat/message",
-  rateLimiter,
+  idempotency,
+  rateLimiter("chat"),
   validateMessage,
   async (req, res, next) => {
     try {
@@ -27,6 +102,10 @@ router.post(
       const result = await chatService.handleMessage({
         message,
         sessionId,
+        storeId: req.store!.id,
+        userId: req.user?.id,
+        clientId: req.clientId,
+        ip: getClientIp(req),
       });
 
       res.json(result);
@@ -37,14 +116,103 @@ router.post(
 );
 
 /**
- * GET /chat/history/:sessionId
- * Get conversation history
- * 
- * Response: { messages: [{ sender: "user" | "ai", text: string, timestamp: string }] }
+ * POST /chat/message/stream
+ * Send a message and stream the AI reply over Server-Sent Events
+ *
+ * Request: { message: string, sessionId?: string }
+ * Events:
+ *   session -> { sessionId: string }
+ *   chunk   -> { text: string }
+ *   done    -> { reply: string | null, sessionId: string, messageId: string | null, userMessageId: string, status: string }
+ *   error   -> { error: string, message: string }
+ */
+router.post(
+  "/chat/message/stream",
+  rateLimiter("chat"),
+  validateMessage,
+  (req, res, next) => {
+    const { message, sessionId } = req.body as {
+      message: string;
+      sessionId?: string;
+    };
+
+    return streamReply(req, res, next, { message, sessionId });
+  }
+);
+
+/**
+ * POST /chat/messages/:messageId/regenerate
+ * Stream another reply in place of an AI message (same events as
+ * /chat/message/stream). The new reply becomes the active branch; the old
+ * one stays available as an alternative.
+ * 409 for messages not on the active branch or already summarized
+ */
+router.post(
+  "/chat/messages/:messageId/regenerate",
+  rateLimiter("chat"),
+  (req, res, next) =>
+    streamReply(req, res, next, {
+      branch: { type: "regenerate", messageId: req.params.messageId },
+    })
+);
+
+/**
+ * POST /chat/messages/:messageId/edit
+ * Resend a user message with new text and stream the reply (same events as
+ * /chat/message/stream). The original message and its replies stay
+ * available as an alternative branch.
+ *
+ * Request: { message: string }
+ */
+router.post(
+  "/chat/messages/:messageId/edit",
+  rateLimiter("chat"),
+  validateMessage,
+  (req, res, next) =>
+    streamReply(req, res, next, {
+      message: req.body.message,
+      branch: { type: "edit", messageId: req.params.messageId },
+    })
+);
+
+/**
+ * POST /chat/messages/:messageId/select
+ * Switch to the branch containing a message (one of its alternatives)
+ * The branch is followed to its most recent message
+ */
+router.post("/chat/messages/:messageId/select", async (req, res, next) => {
+  try {
+    await branchService.select(req.params.messageId, {
+      storeId: req.store!.id,
+      userId: req.user?.id,
+      clientId: req.clientId,
+    });
+    res.json({ selected: req.params.messageId });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /chat/history/:sessionId?before=<cursor>&limit=<n>
+ * Get a page of conversation history, newest page first (404 for
+ * conversations owned by another user)
+ *
+ * Query: before = nextCursor of the previous page, limit = 1-100 (default 50)
+ * Response: {
+ *   messages: [{ id, seq, sender: "user" | "ai" | "agent", text, timestamp, toolCalls?: [...], feedback?: {...}, alternatives?: string[] }],
+ *   nextCursor: number | null,
+ *   status: "bot" | "escalated" | "assigned"
+ * }
+ * Messages are the active branch, oldest → newest within a page; toolCalls
+ * lists the tools the agent invoked to produce an AI message; alternatives
+ * lists the IDs of every version of a regenerated/edited message; status
+ * tells whether a human agent is (about to be) handling the conversation
  */
 router.get("/chat/history/:sessionId", async (req, res, next) => {
   try {
     const { sessionId } = req.params;
+    const { before, limit } = req.query;
 
     if (!sessionId) {
       return res.status(400).json({
@@ -53,18 +221,207 @@ router.get("/chat/history/:sessionId", async (req, res, next) => {
       });
     }
 
-    const messages = await messageRepo.getByConversation(sessionId);
+    const page = await chatService.getHistory(
+      sessionId,
+      { storeId: req.store!.id, userId: req.user?.id, clientId: req.clientId },
+      {
+        before: before !== undefined ? Number(before) : undefined,
+        limit: limit !== undefined ? Number(limit) : undefined,
+      }
+    );
 
     res.json({
-      messages: messages.map((m) => ({
+      messages: page.messages.map((m) => ({
+        id: m.id,
+        seq: m.seq,
         sender: m.sender,
         text: m.text,
         timestamp: m.createdAt.toISOString(),
+        ...(m.toolInvocations.length > 0 && {
+          toolCalls: m.toolInvocations,
+        }),
+        ...(m.feedback && { feedback: m.feedback }),
+        ...(m.alternatives && { alternatives: m.alternatives }),
       })),
+      nextCursor: page.nextCursor,
+      status: page.status,
     });
   } catch (error) {
     next(error);
   }
 });
 
+/**
+ * PUT /chat/messages/:messageId/feedback
+ * Rate an AI message (replaces an earlier rating)
+ *
+ * Request: { rating: "up" | "down", reason?: string, comment?: string }
+ * Response: { messageId, rating, reason, comment }
+ */
+router.put(
+  "/chat/messages/:messageId/feedback",
+  validateFeedback,
+  async (req, res, next) => {
+    try {
+      const feedback = await feedbackService.rate(
+        req.params.messageId,
+        { storeId: req.store!.id, userId: req.user?.id, clientId: req.clientId },
+        req.body
+      );
+      res.json({
+        messageId: feedback.messageId,
+        rating: feedback.rating,
+        reason: feedback.reason,
+        comment: feedback.comment,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /chat/messages/:messageId/feedback
+ * Remove the rating of an AI message
+ */
+router.delete("/chat/messages/:messageId/feedback", async (req, res, next) => {
+  try {
+    await feedbackService.remove(req.params.messageId, {
+      storeId: req.store!.id,
+      userId: req.user?.id,
+      clientId: req.clientId,
+    });
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /chat/conversations?archived=true
+ * List the requester's conversations, most recently active first
+ * Signed-in users get their account's conversations, guests the anonymous
+ * ones started with their X-Client-Id
+ *
+ * Response: { conversations: [{ sessionId, title, preview, lastMessageAt, createdAt, archived }] }
+ */
+router.get("/chat/conversations", async (req, res, next) => {
+  try {
+    const conversations = await conversationService.list(
+      { storeId: req.store!.id, userId: req.user?.id, clientId: req.clientId },
+      { archived: req.query.archived === "true" }
+    );
+    res.json({ conversations });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /chat/conversations
+ * Start a new, empty conversation
+ *
+ * Response (201): { sessionId, title, preview, lastMessageAt, createdAt, archived }
+ */
+router.post("/chat/conversations", async (req, res, next) => {
+  try {
+    const conversation = await conversationService.create({
+      storeId: req.store!.id,
+      userId: req.user?.id,
+      clientId: req.clientId,
+    });
+    res.status(201).json(conversation);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /chat/conversations/:sessionId
+ * Rename and/or archive a conversation
+ *
+ * Request: { title?: string, archived?: boolean }
+ */
+router.patch(
+  "/chat/conversations/:sessionId",
+  validateConversationUpdate,
+  async (req, res, next) => {
+    try {
+      const conversation = await conversationService.update(
+        req.params.sessionId,
+        { storeId: req.store!.id, userId: req.user?.id, clientId: req.clientId },
+        req.body
+      );
+      res.json(conversation);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * DELETE /chat/conversations/:sessionId
+ * Soft delete a conversation (hidden from lists and history)
+ */
+router.delete("/chat/conversations/:sessionId", async (req, res, next) => {
+  try {
+    await conversationService.remove(req.params.sessionId, {
+      storeId: req.store!.id,
+      userId: req.user?.id,
+      clientId: req.clientId,
+    });
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /chat/conversations/:sessionId/claim
+ * Attach an anonymous conversation to the signed-in user
+ * Requires the X-Client-Id of the browser that started it (404 otherwise)
+ * 409 if another account signed in on that browser already claimed it
+ */
+router.post(
+  "/chat/conversations/:sessionId/claim",
+  requireUser,
+  async (req, res, next) => {
+    try {
+      await conversationService.claim(req.params.sessionId, {
+        storeId: req.store!.id,
+        userId: req.user!.id,
+        clientId: req.clientId,
+      });
+      res.json({ sessionId: req.params.sessionId, claimed: true });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * POST /chat/conversations/:sessionId/escalate
+ * Ask for a human agent: the conversation joins the agent queue
+ * The bot keeps answering until an agent claims it
+ *
+ * Request: { reason?: string }
+ * Response: { sessionId, status: "escalated" | "assigned" }
+ */
+router.post(
+  "/chat/conversations/:sessionId/escalate",
+  validateEscalation,
+  async (req, res, next) => {
+    try {
+      const status = await handoffService.requestAgent(
+        req.params.sessionId,
+        { storeId: req.store!.id, userId: req.user?.id, clientId: req.clientId },
+        req.body.reason
+      );
+      res.json({ sessionId: req.params.sessionId, status });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,324 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { RawData, WebSocket, WebSocketServer } from "ws";
+import { chatService } from "../services/chat.service";
+import { authService } from "../services/auth.service";
+import { conversationService } from "../services/conversation.service";
+import { storeService } from "../services/store.service";
+import { checkRateLimit, getClientIp } from "../middleware/rateLimiter";
+import { normalizeMessage } from "../middleware/validator";
+import { parseClientId } from "../middleware/auth";
+import { toErrorResponse } from "../middleware/errorHandler";
+import { onConversationEvent } from "../lib/realtime";
+import { runWithContext } from "../lib/requestContext";
+import { withSpan } from "../lib/tracing";
+import { createLogger } from "../lib/logger";
+import { ConflictError, UnauthorizedError, ValidationError } from "../lib/errors";
+import { Requester } from "../types/conversation";
+import { ClientSocketMessage, ServerSocketMessage } from "../types/realtime";
+import { StoreContext } from "../types/store";
+
+const log = createLogger("socket");
+
+const SOCKET_PATH = "/api/v1/chat/socket";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const MAX_PAYLOAD_BYTES = 64 * 1024; // Messages are capped at 5000 characters
+const MAX_REQUEST_ID_LENGTH = 64;
+
+type SocketState = {
+  store: StoreContext;
+  requester: Requester;
+  ip: string;
+  sessionId: string | null; // Conversation the client follows
+  isAlive: boolean; // Answered the last heartbeat ping
+  controller: AbortController | null; // Reply being streamed, if any
+};
+
+function send(socket: WebSocket, message: ServerSocketMessage): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Report an error to the client, mapped like the HTTP error handler
+ */
+function sendError(socket: WebSocket, error: unknown, requestId?: string): void {
+  const { status, body } = toErrorResponse(
+    error instanceof Error ? error : new Error(String(error))
+  );
+  if (status >= 500) {
+    log.error("Socket error", { err: error });
+  }
+
+  send(socket, {
+    type: "error",
+    error: body.error,
+    message: body.message,
+    requestId,
+  });
+}
+
+/**
+ * Identify the store and the client from the upgrade URL
+ * Browsers can't set headers on a WebSocket, so the store API key, the
+ * access token and the client ID are passed as
+ * ?apiKey=...&token=...&clientId=...
+ *
+ * @throws UnauthorizedError for an invalid API key, or an invalid, expired
+ * or other store's token
+ */
+async function authenticateUpgrade(
+  url: URL
+): Promise<{ store: StoreContext; requester: Requester }> {
+  const store = await storeService.resolveApiKey(url.searchParams.get("apiKey") ?? "");
+  if (!store) {
+    throw new UnauthorizedError("Invalid or revoked API key");
+  }
+
+  const token = url.searchParams.get("token");
+  const user = token ? authService.verifyToken(token) : undefined;
+  if (user && user.storeId !== store.id) {
+    throw new UnauthorizedError("Invalid or expired access token");
+  }
+
+  return {
+    store,
+    requester: {
+      storeId: store.id,
+      userId: user?.id,
+      clientId: parseClientId(url.searchParams.get("clientId")),
+    },
+  };
+}
+
+function rejectUpgrade(socket: Duplex, status: number, reason: string): void {
+  socket.write(`HTTP/1.1 ${status} ${reason}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Follow a conversation: its agent replies, status changes and typing
+ * events are pushed to the socket. Replaces the conversation followed before
+ */
+async function handleSubscribe(
+  socket: WebSocket,
+  state: SocketState,
+  sessionId: unknown
+): Promise<void> {
+  if (typeof sessionId !== "string" || !sessionId) {
+    throw new ValidationError("sessionId is required");
+  }
+
+  const conversation = await conversationService.getReadable(
+    sessionId,
+    state.requester
+  );
+  state.sessionId = conversation.id;
+  send(socket, {
+    type: "subscribed",
+    sessionId: conversation.id,
+    status: conversation.status,
+  });
+}
+
+/**
+ * Send a message and stream the reply, with the same rate limits,
+ * validation and events as POST /chat/message/stream
+ */
+async function handleSend(
+  socket: WebSocket,
+  state: SocketState,
+  payload: Extract<ClientSocketMessage, { type: "send" }>,
+  requestId: string | undefined
+): Promise<void> {
+  // One reply at a time, as the REST client does. Claimed before any await
+  // so frames arriving together can't both pass the check
+  if (state.controller) {
+    throw new ConflictError("Wait for the current reply before sending another message");
+  }
+  const controller = new AbortController();
+  state.controller = controller;
+
+  try {
+    const sessionId =
+      typeof payload.sessionId === "string" && payload.sessionId
+        ? payload.sessionId
+        : undefined;
+
+    const limit = await checkRateLimit("chat", {
+      store: state.store,
+      ip: state.ip,
+      userId: state.requester.userId,
+    });
+    if (!limit.allowed) {
+      send(socket, {
+        type: "error",
+        error: limit.reason === "limited" ? "Too many requests" : "Service unavailable",
+        message: limit.message,
+        retryAfter: limit.retryAfter,
+        requestId,
+      });
+      return;
+    }
+
+    const message = normalizeMessage(payload.message);
+
+    const events = chatService.streamMessage({
+      message,
+      sessionId,
+      storeId: state.store.id,
+      userId: state.requester.userId,
+      clientId: state.requester.clientId,
+      ip: state.ip,
+      signal: controller.signal,
+    });
+
+    for await (const event of events) {
+      // Follow the conversation the message went to (possibly just created)
+      if (event.type === "session") {
+        state.sessionId = event.sessionId;
+      }
+      send(socket, { ...event, requestId });
+    }
+  } finally {
+    state.controller = null;
+  }
+}
+
+async function handleClientMessage(
+  socket: WebSocket,
+  state: SocketState,
+  data: RawData
+): Promise<void> {
+  let payload: ClientSocketMessage | null;
+  try {
+    payload = JSON.parse(data.toString());
+  } catch {
+    return sendError(socket, new ValidationError("Messages must be JSON"));
+  }
+
+  const requestId =
+    payload?.type === "send" &&
+    typeof payload.requestId === "string" &&
+    payload.requestId.length <= MAX_REQUEST_ID_LENGTH
+      ? payload.requestId
+      : undefined;
+
+  try {
+    switch (payload?.type) {
+      case "subscribe":
+        await handleSubscribe(socket, state, payload.sessionId);
+        break;
+      case "send":
+        await handleSend(socket, state, payload, requestId);
+        break;
+      default:
+        throw new ValidationError('type must be "subscribe" or "send"');
+    }
+  } catch (error) {
+    sendError(socket, error, requestId);
+  }
+}
+
+/**
+ * Chat over a WebSocket at /api/v1/chat/socket?apiKey=...
+ *
+ * The socket carries the same chat as the REST routes (same chatService,
+ * rate limits and validation) and also receives what happens outside of
+ * the client's own requests: support agent replies, status changes and the
+ * assistant typing.
+ *
+ * Client → server:
+ *   { type: "subscribe", sessionId }
+ *   { type: "send", message, sessionId?, requestId? }
+ * Server → client:
+ *   session / chunk / tool / replace / done  (reply events, with the send's requestId)
+ *   subscribed -> { sessionId, status }
+ *   message    -> { sessionId, message: { id, seq, sender, text, timestamp } }
+ *   status     -> { sessionId, status }
+ *   typing     -> { sessionId, isTyping }
+ *   error      -> { error, message, requestId?, retryAfter? }
+ */
+export function attachChatSocket(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  const sockets = new Map<WebSocket, SocketState>();
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== SOCKET_PATH) {
+      return rejectUpgrade(socket, 404, "Not Found");
+    }
+
+    let client: { store: StoreContext; requester: Requester };
+    try {
+      client = await authenticateUpgrade(url);
+    } catch (error) {
+      if (error instanceof UnauthorizedError) {
+        return rejectUpgrade(socket, 401, "Unauthorized");
+      }
+      log.error("Socket upgrade error", { err: error });
+      return rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+
+    // CORS doesn't apply to WebSockets: check the origin here
+    if (!storeService.isOriginAllowed(client.store, req.headers.origin)) {
+      return rejectUpgrade(socket, 403, "Forbidden");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const state: SocketState = {
+        ...client,
+        ip: getClientIp(req),
+        sessionId: null,
+        isAlive: true,
+        controller: null,
+      };
+      sockets.set(ws, state);
+
+      ws.on("pong", () => {
+        state.isAlive = true;
+      });
+      ws.on("message", (data) => {
+        // Each message is handled like a request: own request ID and trace
+        runWithContext({ requestId: randomUUID(), span: null }, () => {
+          void withSpan(
+            "WS message",
+            { kind: "server", attributes: { "store.slug": state.store.slug } },
+            () => handleClientMessage(ws, state, data)
+          );
+        });
+      });
+      ws.on("close", () => {
+        // Same as a dropped SSE stream: stop generating, save nothing
+        state.controller?.abort();
+        sockets.delete(ws);
+      });
+    });
+  });
+
+  // Push conversation events to the sockets following the conversation
+  onConversationEvent((event) => {
+    for (const [socket, state] of sockets) {
+      if (state.sessionId === event.sessionId) {
+        send(socket, event);
+      }
+    }
+  });
+
+  // Drop connections that stopped answering (sleeping laptop, lost network)
+  const heartbeat = setInterval(() => {
+    for (const [socket, state] of sockets) {
+      if (!state.isAlive) {
+        socket.terminate();
+        continue;
+      }
+      state.isAlive = false;
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
@@ -0,0 +1,106 @@
+import { storeService } from "../services/store.service";
+import { requireAdmin } from "../middleware/adminAuth";
+import { validateStore, validateStoreUpdate } from "../middleware/validator";
+import { ValidationError } from "../lib/errors";
+import { StoreInput, StoreUpdate } from "../types/store";
+import express from "express";
+
+const router = express.Router();
+
+const MAX_API_KEY_NAME_LENGTH = 100;
+
+// Store management is for the operator of the deployment: it needs the
+// admin API key but no store API key (mounted before identifyStore)
+router.use("/admin/stores", requireAdmin);
+
+/**
+ * GET /admin/stores
+ * Every store served by this deployment
+ */
+router.get("/admin/stores", async (req, res, next) => {
+  try {
+    res.json({ stores: await storeService.list() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/stores
+ * Create a store (create an API key for it next)
+ *
+ * Request: { slug, name, allowedOrigins?: string[], rateLimits?: { chat?, auth? } }
+ */
+router.post("/admin/stores", validateStore, async (req, res, next) => {
+  try {
+    res.status(201).json(await storeService.create(req.body as StoreInput));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PUT /admin/stores/:id
+ * Update the name, allowed origins and/or rate limits of a store
+ *
+ * Request: { name?, allowedOrigins?, rateLimits? }
+ */
+router.put("/admin/stores/:id", validateStoreUpdate, async (req, res, next) => {
+  try {
+    res.json(await storeService.update(req.params.id, req.body as StoreUpdate));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /admin/stores/:id/api-keys
+ * A store's API keys, newest first (prefixes only)
+ */
+router.get("/admin/stores/:id/api-keys", async (req, res, next) => {
+  try {
+    res.json({ apiKeys: await storeService.listApiKeys(req.params.id) });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /admin/stores/:id/api-keys
+ * Create an API key; the response is the only time the key is shown
+ *
+ * Request: { name?: string }
+ * Response: { id, name, prefix, key, createdAt, revokedAt }
+ */
+router.post("/admin/stores/:id/api-keys", async (req, res, next) => {
+  try {
+    res.setHeader("Cache-Control", "no-store");
+
+    const name = req.body?.name ?? "default";
+    if (typeof name !== "string" || !name.trim()) {
+      throw new ValidationError("name must be a non-empty string");
+    }
+    if (name.trim().length > MAX_API_KEY_NAME_LENGTH) {
+      throw new ValidationError(`name must be at most ${MAX_API_KEY_NAME_LENGTH} characters`);
+    }
+
+    res.status(201).json(await storeService.createApiKey(req.params.id, name.trim()));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /admin/stores/:id/api-keys/:keyId
+ * Revoke an API key
+ */
+router.delete("/admin/stores/:id/api-keys/:keyId", async (req, res, next) => {
+  try {
+    await storeService.revokeApiKey(req.params.id, req.params.keyId);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import { readFileSync } from "fs";
+import { createGuardrailContext, runGuardrails } from "../lib/guardrails";
+import { DEFAULT_PROMPT_SECTIONS } from "../lib/storePolicies";
+import { GuardrailFixture } from "../types/guardrail";
+
+/**
+ * Check the guardrail rules against a fixture corpus
+ *
+ * Usage: npm run guardrails:check [-- fixtures/guardrails.json]
+ *
+ * Each fixture names the rule that must fire on its text, or null when the
+ * text must pass. Output fixtures are checked against the built-in prompt
+ * plus the fixture's own facts (catalog entries, help-center excerpts...).
+ * Needs no database or LLM, so it can run in CI.
+ */
+const DEFAULT_FIXTURES = "fixtures/guardrails.json";
+
+function main(): void {
+  const file = process.argv[2] ?? DEFAULT_FIXTURES;
+  const fixtures = JSON.parse(readFileSync(file, "utf-8")) as GuardrailFixture[];
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const context = createGuardrailContext(DEFAULT_PROMPT_SECTIONS, fixture.facts ?? []);
+    const decision = runGuardrails(fixture.stage, fixture.text, context);
+    const fired = decision.allowed ? null : decision.ruleId;
+
+    if (fired !== fixture.expect) {
+      failures++;
+      console.error(
+        `FAIL [${fixture.stage}] expected ${fixture.expect ?? "pass"}, got ${fired ?? "pass"}: ${JSON.stringify(fixture.text)}`
+      );
+    }
+  }
+
+  console.log(`${fixtures.length - failures}/${fixtures.length} fixtures passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,36 @@
+import { readFileSync } from "fs";
+import { PII_RULES, redactPii } from "../lib/pii";
+import { PiiFixture } from "../types/pii";
+
+/**
+ * Check the PII detection rules against a fixture corpus
+ *
+ * Usage: npm run pii:check [-- fixtures/pii.json]
+ *
+ * Each fixture gives a text and how it must read once redacted with every
+ * rule; shopping text (order numbers, SKUs, sizes, quantities) must come
+ * out unchanged. Needs no database, so it can run in CI.
+ */
+const DEFAULT_FIXTURES = "fixtures/pii.json";
+
+function main(): void {
+  const file = process.argv[2] ?? DEFAULT_FIXTURES;
+  const fixtures = JSON.parse(readFileSync(file, "utf-8")) as PiiFixture[];
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const { text } = redactPii(fixture.text, PII_RULES);
+
+    if (text !== fixture.expect) {
+      failures++;
+      console.error(
+        `FAIL expected ${JSON.stringify(fixture.expect)}, got ${JSON.stringify(text)}`
+      );
+    }
+  }
+
+  console.log(`${fixtures.length - failures}/${fixtures.length} fixtures passed`);
+  process.exit(failures > 0 ? 1 : 0);
+}
+
+main();
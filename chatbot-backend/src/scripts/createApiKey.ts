@@ -0,0 +1,34 @@
+// Load environment variables FIRST before any other imports
+import "../lib/env";
+import { prisma } from "../lib/prisma";
+import { storeService } from "../services/store.service";
+
+/**
+ * Create an API key for a store
+ *
+ * Usage: npm run store:api-key -- <store slug> [key name]
+ *
+ * The migration creates the "default" store; this prints a key for it (or
+ * any other store) to put in the storefront's VITE_STORE_API_KEY. The key
+ * is shown once and only its hash is stored.
+ */
+async function main(): Promise<void> {
+  const [slug, name = "default"] = process.argv.slice(2);
+  if (!slug) {
+    console.error("Usage: npm run store:api-key -- <store slug> [key name]");
+    process.exit(1);
+  }
+
+  const store = await storeService.getBySlug(slug);
+  const apiKey = await storeService.createApiKey(store.id, name);
+
+  console.log(`Created API key "${apiKey.name}" for store ${store.slug}:`);
+  console.log(apiKey.key);
+  await prisma.$disconnect();
+}
+
+main().catch(async (error) => {
+  console.error("API key creation failed:", error instanceof Error ? error.message : error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
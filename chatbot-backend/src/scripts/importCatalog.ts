@@ -0,0 +1,54 @@
+// Load environment variables FIRST before any other imports
+import "../lib/env";
+import { readFileSync } from "fs";
+import { extname } from "path";
+import { prisma } from "../lib/prisma";
+import { parseCsv } from "../lib/csv";
+import { catalogService } from "../services/catalog.service";
+import { storeService } from "../services/store.service";
+
+/**
+ * Import products into a store's catalog from CSV or JSON files
+ *
+ * Usage: npm run catalog:import -- <store slug> products.csv [more.json ...]
+ *
+ * CSV: header row with sku,title,description,price,currency,stock,category
+ *      plus an optional "attributes" JSON column; other columns become attributes
+ * JSON: an array of objects with the same fields
+ */
+async function main(): Promise<void> {
+  const [slug, ...files] = process.argv.slice(2);
+  if (!slug || files.length === 0) {
+    console.error("Usage: npm run catalog:import -- <store slug> <file.csv|file.json> [...]");
+    process.exit(1);
+  }
+
+  const store = await storeService.getBySlug(slug);
+
+  let failed = false;
+
+  for (const file of files) {
+    const content = readFileSync(file, "utf-8");
+    const records =
+      extname(file).toLowerCase() === ".json"
+        ? (JSON.parse(content) as Record<string, unknown>[])
+        : parseCsv(content);
+
+    const { imported, errors } = await catalogService.importProducts(store.id, records);
+
+    console.log(`${file}: imported ${imported}/${records.length} products into ${store.slug}`);
+    for (const error of errors) {
+      console.error(`  ${error}`);
+    }
+    failed = failed || errors.length > 0;
+  }
+
+  await prisma.$disconnect();
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(async (error) => {
+  console.error("Catalog import failed:", error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
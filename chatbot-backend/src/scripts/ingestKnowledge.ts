@@ -0,0 +1,70 @@
+// Load environment variables FIRST before any other imports
+import "../lib/env";
+import { readdirSync, readFileSync, statSync } from "fs";
+import { extname, join, relative } from "path";
+import { prisma } from "../lib/prisma";
+import { knowledgeService } from "../services/knowledge.service";
+import { storeService } from "../services/store.service";
+
+/**
+ * Ingest help-center articles into a store's knowledge base
+ *
+ * Usage: npm run knowledge:ingest -- <store slug> docs/help-center [article.md ...]
+ *
+ * Accepts Markdown (.md, .markdown) and HTML (.html, .htm) files or
+ * directories (searched recursively). Documents are keyed by their path
+ * relative to the working directory; unchanged documents are skipped.
+ */
+const FORMATS: Record<string, "markdown" | "html"> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".html": "html",
+  ".htm": "html",
+};
+
+function collectFiles(path: string): string[] {
+  if (statSync(path).isDirectory()) {
+    return readdirSync(path)
+      .sort()
+      .flatMap((entry) => collectFiles(join(path, entry)));
+  }
+  return FORMATS[extname(path).toLowerCase()] ? [path] : [];
+}
+
+async function main(): Promise<void> {
+  const [slug, ...paths] = process.argv.slice(2);
+  if (!slug || paths.length === 0) {
+    console.error("Usage: npm run knowledge:ingest -- <store slug> <dir|file> [...]");
+    process.exit(1);
+  }
+
+  const store = await storeService.getBySlug(slug);
+
+  const files = paths.flatMap(collectFiles);
+  let failed = false;
+
+  for (const file of files) {
+    const source = relative(process.cwd(), file);
+    try {
+      const { status, chunks } = await knowledgeService.ingestDocument(store.id, {
+        source,
+        content: readFileSync(file, "utf-8"),
+        format: FORMATS[extname(file).toLowerCase()],
+      });
+      console.log(`${source}: ${status}${status === "unchanged" ? "" : ` (${chunks} chunks)`}`);
+    } catch (error) {
+      failed = true;
+      console.error(`${source}: failed -`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`Processed ${files.length} documents for ${store.slug}`);
+  await prisma.$disconnect();
+  process.exit(failed ? 1 : 0);
+}
+
+main().catch(async (error) => {
+  console.error("Knowledge ingestion failed:", error);
+  await prisma.$disconnect();
+  process.exit(1);
+});
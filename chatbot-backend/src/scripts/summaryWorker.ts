@@ -0,0 +1,27 @@
+// Load environment variables FIRST before any other imports
+import "../lib/env";
+import { prisma } from "../lib/prisma";
+import { closeRedis } from "../lib/redis";
+import { flushSpans } from "../lib/tracing";
+import { summaryWorker } from "../workers/summary.worker";
+
+/**
+ * Run the summary worker as its own process
+ *
+ * Usage: npm run worker
+ *
+ * Set SUMMARY_WORKER_INLINE=false on the API servers when running workers
+ * separately. Stops gracefully on SIGINT/SIGTERM.
+ */
+async function shutdown(): Promise<void> {
+  await summaryWorker.stop();
+  await flushSpans();
+  await closeRedis();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+summaryWorker.start();
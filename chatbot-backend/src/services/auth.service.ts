@@ -0,0 +1,138 @@
+import bcrypt from "bcryptjs";
+import jwt, { SignOptions } from "jsonwebtoken";
+import { appConfig } from "../lib/env";
+import { ConflictError, NotFoundError, UnauthorizedError } from "../lib/errors";
+import { userRepo } from "../repositories/user.repo";
+import { AuthResult, AuthUser, PublicUser, UserRole } from "../types/auth";
+
+const BCRYPT_ROUNDS = 10;
+const TOKEN_ALGORITHM = "HS256";
+
+// Compared against when the email is unknown, so login timing doesn't reveal accounts
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync("invalid-password", BCRYPT_ROUNDS);
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function toPublicUser(user: PublicUser): PublicUser {
+  const { id, email, name, role, createdAt } = user;
+  return { id, email, name, role, createdAt };
+}
+
+function signToken(user: AuthUser): string {
+  return jwt.sign({ email: user.email, store: user.storeId }, appConfig.auth.jwtSecret, {
+    subject: user.id,
+    algorithm: TOKEN_ALGORITHM,
+    expiresIn: appConfig.auth.tokenTtl as SignOptions["expiresIn"],
+  });
+}
+
+/**
+ * Auth Service
+ *
+ * Email/password accounts with stateless access tokens:
+ * - Accounts belong to a store; the same email can sign up at several stores
+ * - Passwords are stored as bcrypt hashes
+ * - Tokens are HS256 JWTs signed with JWT_SECRET (subject = user ID,
+ *   store = store ID)
+ */
+export const authService = {
+  /**
+   * Create an account in a store and sign the user in
+   */
+  async register(
+    storeId: string,
+    params: { email: string; password: string; name?: string | null }
+  ): Promise<AuthResult> {
+    const email = normalizeEmail(params.email);
+
+    if (await userRepo.findByEmail(storeId, email)) {
+      throw new ConflictError("An account with this email already exists");
+    }
+
+    const user = await userRepo.create({
+      storeId,
+      email,
+      passwordHash: await bcrypt.hash(params.password, BCRYPT_ROUNDS),
+      name: params.name?.trim() || null,
+    });
+
+    return { token: signToken(user), user: toPublicUser(user) };
+  },
+
+  /**
+   * Verify credentials and issue an access token
+   * The same error is returned for unknown emails and wrong passwords
+   */
+  async login(
+    storeId: string,
+    params: { email: string; password: string }
+  ): Promise<AuthResult> {
+    const user = await userRepo.findByEmail(storeId, normalizeEmail(params.email));
+    const valid = await bcrypt.compare(
+      params.password,
+      user?.passwordHash ?? DUMMY_PASSWORD_HASH
+    );
+
+    if (!user || !valid) {
+      throw new UnauthorizedError("Invalid email or password");
+    }
+
+    return { token: signToken(user), user: toPublicUser(user) };
+  },
+
+  /**
+   * Resolve an access token to the user it was issued for
+   * Throws UnauthorizedError for invalid or expired tokens
+   */
+  verifyToken(token: string): AuthUser {
+    try {
+      const payload = jwt.verify(token, appConfig.auth.jwtSecret, {
+        algorithms: [TOKEN_ALGORITHM],
+      }) as jwt.JwtPayload;
+
+      if (
+        !payload.sub ||
+        typeof payload.email !== "string" ||
+        typeof payload.store !== "string"
+      ) {
+        throw new Error("Malformed token payload");
+      }
+
+      return { id: payload.sub, email: payload.email, storeId: payload.store };
+    } catch {
+      throw new UnauthorizedError("Invalid or expired access token");
+    }
+  },
+
+  /**
+   * Get the profile of the signed-in user
+   */
+  async getProfile(storeId: string, userId: string): Promise<PublicUser> {
+    const user = await userRepo.findById(storeId, userId);
+    if (!user) {
+      throw new UnauthorizedError("Account no longer exists");
+    }
+    return toPublicUser(user);
+  },
+
+  /**
+   * Grant or revoke the agent role of a store's account (admin only)
+   */
+  async setRole(storeId: string, email: string, role: UserRole): Promise<PublicUser> {
+    const user = await userRepo.setRole(storeId, normalizeEmail(email), role);
+    if (!user) {
+      throw new NotFoundError("No account with this email");
+    }
+    return toPublicUser(user);
+  },
+
+  /**
+   * List a store's support agents
+   */
+  async listAgents(storeId: string): Promise<PublicUser[]> {
+    const agents = await userRepo.listByRole(storeId, "agent");
+    return agents.map(toPublicUser);
+  },
+};
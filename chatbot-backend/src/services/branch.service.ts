@@ -0,0 +1,217 @@
+import { conversationRepo } from "../repositories/conversation.repo";
+import { messageRepo } from "../repositories/message.repo";
+import { conversationService } from "./conversation.service";
+import { redactionService } from "./redaction.service";
+import { ConflictError, NotFoundError, ValidationError } from "../lib/errors";
+import { BranchAction } from "../types/chat";
+import { Requester } from "../types/conversation";
+
+type Conversation = Awaited<ReturnType<typeof conversationService.getReadable>>;
+type Message = NonNullable<Awaited<ReturnType<typeof messageRepo.findById>>>;
+
+const SUMMARIZED_ERROR =
+  "This part of the conversation has been summarized and can no longer be changed";
+const HUMAN_HANDLING_ERROR =
+  "A support agent is handling this conversation, it can't be changed meanwhile";
+
+/**
+ * Whether a message is part of the conversation's active branch
+ */
+async function isOnActiveBranch(
+  conversation: Conversation,
+  message: Message
+): Promise<boolean> {
+  if (!conversation.activeLeafId) {
+    return false;
+  }
+
+  // Walk back from the leaf only as far as the message's seq
+  const ids = await messageRepo.getBranchIds(
+    conversation.storeId,
+    conversation.activeLeafId,
+    { afterSeq: message.seq - 1 }
+  );
+  return ids.includes(message.id);
+}
+
+/**
+ * The agent replies to the branch they see: no switching while one is assigned
+ */
+function assertBotHandling(conversation: Conversation): void {
+  if (conversation.status === "assigned") {
+    throw new ConflictError(HUMAN_HANDLING_ERROR);
+  }
+}
+
+/**
+ * Branches may only diverge after the summary: the summary describes the
+ * active branch up to summaryUntilSeq, so nothing it covers can be replaced
+ */
+function assertAfterSummary(conversation: Conversation, branchPointSeq: number): void {
+  if (branchPointSeq < (conversation.summaryUntilSeq ?? 0)) {
+    throw new ConflictError(SUMMARIZED_ERROR);
+  }
+}
+
+/**
+ * Branch Service
+ *
+ * Conversations are trees: every message points to the message before it
+ * (parentId) and the conversation points to the end of the active branch.
+ * Regenerating a reply or editing a user message adds a sibling instead of
+ * changing history, so raw messages stay immutable and users can switch
+ * between alternatives. Only the active branch is sent to the model and
+ * summarized.
+ */
+export const branchService = {
+  /**
+   * Start a branch for a regenerate or edit action
+   * Returns the user message the new reply answers:
+   * - regenerate: the existing user message before the AI message
+   * - edit: a new user message alongside the edited one
+   */
+  async start(
+    action: BranchAction,
+    text: string | undefined,
+    requester: Requester
+  ): Promise<{ conversation: Conversation; userMessage: Message }> {
+    const expectedSender = action.type === "edit" ? "user" : "ai";
+    const { conversation, message } = await this.getBranchTarget(
+      action.messageId,
+      requester
+    );
+
+    if (message.sender !== expectedSender) {
+      throw new ValidationError(
+        action.type === "edit"
+          ? "Only user messages can be edited"
+          : "Only AI messages can be regenerated"
+      );
+    }
+
+    if (action.type === "regenerate") {
+      const userMessage = message.parentId
+        ? await messageRepo.findById(requester.storeId, message.parentId)
+        : null;
+      if (!userMessage || userMessage.sender !== "user") {
+        throw new ConflictError("This reply has no user message to regenerate from");
+      }
+      return { conversation, userMessage };
+    }
+
+    if (!text) {
+      throw new ValidationError("Message is required");
+    }
+
+    const redacted = redactionService.redact(text);
+    const userMessage = await messageRepo.create(requester.storeId, {
+      conversationId: conversation.id,
+      sender: "user",
+      text: redacted.text,
+      piiEntries: redacted.piiEntries,
+      parentId: message.parentId,
+    });
+    return { conversation, userMessage };
+  },
+
+  /**
+   * Make the branch containing a message active
+   * The branch is followed down to its most recent message
+   */
+  async select(messageId: string, requester: Requester): Promise<void> {
+    const message = await messageRepo.findById(requester.storeId, messageId);
+    if (!message) {
+      throw new NotFoundError("Message not found");
+    }
+    const conversation = await conversationService.getReadable(
+      message.conversationId,
+      requester
+    );
+    assertBotHandling(conversation);
+
+    // 1. The alternatives must branch off the active branch, after the summary
+    if (message.parentId) {
+      const parent = await messageRepo.findById(requester.storeId, message.parentId);
+      if (!parent || !(await isOnActiveBranch(conversation, parent))) {
+        throw new ConflictError("Message is not an alternative on the active branch");
+      }
+      assertAfterSummary(conversation, parent.seq);
+    } else {
+      assertAfterSummary(conversation, 0);
+    }
+
+    // 2. Follow the most recent reply down to the end of the branch
+    let leafId = message.id;
+    for (
+      let child = await messageRepo.getLatestChild(requester.storeId, leafId);
+      child;
+      child = await messageRepo.getLatestChild(requester.storeId, leafId)
+    ) {
+      leafId = child.id;
+    }
+
+    await conversationRepo.setActiveLeaf(requester.storeId, conversation.id, leafId);
+  },
+
+  /**
+   * Map each message with alternatives to the IDs of all its versions
+   * (itself and its siblings), in the order they were created
+   */
+  async getAlternatives(
+    storeId: string,
+    conversationId: string,
+    messages: { id: string; parentId: string | null }[]
+  ): Promise<Map<string, string[]>> {
+    if (messages.length === 0) {
+      return new Map();
+    }
+
+    const children = await messageRepo.getChildren(
+      storeId,
+      conversationId,
+      [...new Set(messages.map((m) => m.parentId))]
+    );
+
+    const byParent = new Map<string | null, string[]>();
+    for (const child of children) {
+      byParent.set(child.parentId, [...(byParent.get(child.parentId) ?? []), child.id]);
+    }
+
+    const alternatives = new Map<string, string[]>();
+    for (const message of messages) {
+      const siblings = byParent.get(message.parentId) ?? [];
+      if (siblings.length > 1) {
+        alternatives.set(message.id, siblings);
+      }
+    }
+    return alternatives;
+  },
+
+  /**
+   * Get a message that can be regenerated or edited: on the active branch
+   * and not covered by the summary
+   */
+  async getBranchTarget(
+    messageId: string,
+    requester: Requester
+  ): Promise<{ conversation: Conversation; message: Message }> {
+    const message = await messageRepo.findById(requester.storeId, messageId);
+    if (!message) {
+      throw new NotFoundError("Message not found");
+    }
+    const conversation = await conversationService.getReadable(
+      message.conversationId,
+      requester
+    );
+    assertBotHandling(conversation);
+
+    if (!(await isOnActiveBranch(conversation, message))) {
+      throw new ConflictError("Only messages on the active branch can be changed");
+    }
+    if (message.seq <= (conversation.summaryUntilSeq ?? 0)) {
+      throw new ConflictError(SUMMARIZED_ERROR);
+    }
+
+    return { conversation, message };
+  },
+};
@@ -0,0 +1,140 @@
+import { productRepo } from "../repositories/product.repo";
+import { CatalogProduct } from "../types/catalog";
+import { ChatHistoryMessage } from "../types/chat";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("catalog");
+
+const CATALOG_CONTEXT_LIMIT = 5; // Max products injected into a prompt
+const CONTEXT_MESSAGES = 3; // Recent customer messages used to widen the query
+
+// Columns with a dedicated Product field; anything else becomes an attribute
+const KNOWN_COLUMNS = [
+  "sku",
+  "title",
+  "description",
+  "price",
+  "currency",
+  "stock",
+  "category",
+  "attributes",
+];
+
+/**
+ * Catalog Service
+ *
+ * Grounds the assistant in real product data:
+ * - Imports products from CSV/JSON records
+ * - Retrieves the products relevant to the current user turn
+ */
+export const catalogService = {
+  /**
+   * Find products of the store relevant to the current user turn
+   * Searches the user message first; if nothing matches, widens the search
+   * with the recent customer messages (e.g. "how much is it?")
+   *
+   * Never throws: retrieval failures must not block a reply.
+   */
+  async findRelevantProducts(
+    storeId: string,
+    userMessage: string,
+    rawMessages: ChatHistoryMessage[]
+  ): Promise<CatalogProduct[]> {
+    try {
+      const products = await productRepo.search(
+        storeId,
+        userMessage,
+        CATALOG_CONTEXT_LIMIT
+      );
+      if (products.length > 0) {
+        return products;
+      }
+
+      const recentCustomerText = rawMessages
+        .filter((m) => m.sender === "user")
+        .slice(-CONTEXT_MESSAGES)
+        .map((m) => m.text)
+        .join(" ");
+
+      return await productRepo.search(
+        storeId,
+        `${recentCustomerText} ${userMessage}`,
+        CATALOG_CONTEXT_LIMIT
+      );
+    } catch (error) {
+      log.error("Catalog retrieval error", { err: error });
+      return [];
+    }
+  },
+
+  /**
+   * Validate and normalize a raw import record (CSV row or JSON object)
+   * Throws with a descriptive message if the record is invalid
+   */
+  normalizeRecord(record: Record<string, unknown>): CatalogProduct {
+    const sku = String(record.sku ?? "").trim();
+    const title = String(record.title ?? "").trim();
+    const price = String(record.price ?? "").trim();
+
+    if (!sku) throw new Error("sku is required");
+    if (!title) throw new Error(`title is required (sku ${sku})`);
+    if (!/^\d+(\.\d{1,2})?$/.test(price)) {
+      throw new Error(`price must be a decimal amount (sku ${sku})`);
+    }
+
+    const stock = record.stock === undefined || record.stock === "" ? 0 : Number(record.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      throw new Error(`stock must be a non-negative integer (sku ${sku})`);
+    }
+
+    // Attributes: JSON object column/field plus any unknown columns
+    let attributes: Record<string, unknown> = {};
+    if (typeof record.attributes === "string" && record.attributes.trim()) {
+      attributes = JSON.parse(record.attributes);
+    } else if (record.attributes && typeof record.attributes === "object") {
+      attributes = record.attributes as Record<string, unknown>;
+    }
+    for (const [key, value] of Object.entries(record)) {
+      if (!KNOWN_COLUMNS.includes(key) && value !== "" && value != null) {
+        attributes[key] = value;
+      }
+    }
+
+    const category = String(record.category ?? "").trim();
+
+    return {
+      sku,
+      title,
+      description: String(record.description ?? "").trim(),
+      price,
+      currency: String(record.currency || "USD").trim().toUpperCase(),
+      stock,
+      category: category || null,
+      attributes,
+    };
+  },
+
+  /**
+   * Import records into a store's catalog (upsert by SKU)
+   * Invalid records are skipped and reported, valid ones are still imported
+   */
+  async importProducts(
+    storeId: string,
+    records: Record<string, unknown>[]
+  ): Promise<{ imported: number; errors: string[] }> {
+    let imported = 0;
+    const errors: string[] = [];
+
+    for (const [index, record] of records.entries()) {
+      try {
+        await productRepo.upsert(storeId, this.normalizeRecord(record));
+        imported++;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        errors.push(`Record ${index + 1}: ${reason}`);
+      }
+    }
+
+    return { imported, errors };
+  },
+};
@@ -1,10 +1,55 @@
 // services/chat.service.ts
-import { conversationRepo } from "../repositories/conversation.repo";
 import { messageRepo } from "../repositories/message.repo";
 import { llmService } from "./llm.service";
 import { summaryService } from "./summary.service";
+import { toolInvocationRepo } from "../repositories/toolInvocation.repo";
+import { ToolInvocationResult } from "../types/tool";
+import { catalogService } from "./catalog.service";
+import { knowledgeService } from "./knowledge.service";
+import { promptService } from "./prompt.service";
+import { contextService } from "./context.service";
+import { ActivePrompt } from "../types/prompt";
+import { AssembledContext } from "../types/context";
+import {
+  BranchAction,
+  ChatStreamEvent,
+  HistoryPageParams,
+} from "../types/chat";
+import { Requester } from "../types/conversation";
+import { GuardrailDecision } from "../types/guardrail";
+import { LLMUsage } from "../types/llm";
+import { conversationService } from "./conversation.service";
+import { branchService } from "./branch.service";
+import { handoffService } from "./handoff.service";
+import { redactionService } from "./redaction.service";
+import { guardrailService } from "./guardrail.service";
+import { usageService } from "./usage.service";
+import { ReplyInterruptedError, ValidationError } from "../lib/errors";
+import { NO_USAGE, addUsage } from "../lib/tokens";
+import { createLogger } from "../lib/logger";
+import { publishConversationEvent } from "../lib/realtime";
 
-const RAW_WINDOW_SIZE = 5; // Last 5 messages kept as raw
+type Conversation = Awaited<ReturnType<typeof conversationService.getReadable>>;
+
+const log = createLogger("chat");
+
+const DEFAULT_HISTORY_PAGE_SIZE = 50;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+/**
+ * End of the active branch once the user message is saved: the message
+ * itself, or for a regenerate the branch the old reply is on (it only
+ * switches once the new reply is saved)
+ * The reply is made the leaf only if it still is, so a message an agent
+ * (or another tab) wrote during generation isn't hidden on a stale branch
+ */
+function turnStartLeaf(
+  conversation: Conversation,
+  userMessage: { id: string },
+  branch: BranchAction | undefined
+): string | null {
+  return branch?.type === "regenerate" ? conversation.activeLeafId : userMessage.id;
+}
 
 export const chatService = {
   /**
@@ -13,76 +58,585 @@ export const chatService = {
    * Memory Strategy:
    * 1. System prompt is included in EVERY LLM call
    * 2. Only ONE summary exists per conversation
-   * 3. Summary NEVER overlaps with raw messages
-   * 4. Raw messages are immutable and stored forever
-   * 5. Prompt payloads are NOT persisted
+   * 3. Summary NEVER overlaps with raw messages, and no message falls between them
+   * 4. Recent messages fill the model's token budget, not a fixed count
+   * 5. Raw messages are immutable and stored forever
+   * 6. Prompt payloads are NOT persisted
    */
   async handleMessage({
     message,
     sessionId,
+    storeId,
+    userId,
+    clientId,
+    ip,
+    branch,
   }: {
-    message: string;
+    message?: string;
     sessionId?: string;
+    storeId: string;
+    userId?: string;
+    clientId?: string;
+    ip: string; // Client IP as the rate limiter resolves it
+    branch?: BranchAction;
   }) {
-    // 1. Get or create conversation
-    const conversation = sessionId
-      ? await conversationRepo.findOrCreate(sessionId)
-      : await conversationRepo.create();
+    const { conversation, userMessage } = await this.receiveMessage({
+      message,
+      sessionId,
+      branch,
+      requester: { storeId, userId, clientId },
+    });
+    const conversationId = conversation.id;
+    const startLeafId = turnStartLeaf(conversation, userMessage, branch);
 
-    if (!conversation) {
-      throw new Error("Failed to create or retrieve conversation");
+    // A human agent is handling the conversation: the message waits for them
+    if (handoffService.isHumanHandling(conversation)) {
+      return {
+        reply: null,
+        sessionId: conversationId,
+        messageId: null,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
     }
 
-    // 2. Save user message (immutable, permanent)
-    await messageRepo.create({
-      conversationId: conversation.id,
-      sender: "user",
-      text: message,
-    });
+    // Screen the message before it reaches the model
+    const inputCheck = guardrailService.screenInput(userMessage.text, conversationId);
+    if (!inputCheck.allowed) {
+      const aiMessage = await this.refuse(storeId, conversationId, userMessage.id, inputCheck);
+      return {
+        reply: aiMessage.text,
+        sessionId: conversationId,
+        messageId: aiMessage.id,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
+    }
 
-    // 3. Get total message count (including the one we just created)
-    const totalMessageCount = await messageRepo.getCount(conversation.id);
+    // Once a token budget is used up, answer with the limit message instead
+    const budget = await usageService.checkBudget(conversation, { userId, ip });
+    if (!budget.allowed) {
+      const aiMessage = await this.refuse(storeId, conversationId, userMessage.id, budget);
+      return {
+        reply: aiMessage.text,
+        sessionId: conversationId,
+        messageId: aiMessage.id,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
+    }
+
+    const { prompt, context } = await this.prepareContext(conversation, userMessage);
 
-    // 4. Check if summarization is needed (before generating reply)
-    // This ensures summary is ready when we build the prompt
-    await summaryService.checkAndSummarize(conversation, totalMessageCount);
+    // 8. Generate reply using canonical memory layout:
+    // [ SYSTEM PROMPT ] + [ SUMMARY ] + [ PRODUCT CATALOG ] + [ REFERENCE MATERIAL ]
+    // + [ RECENT MESSAGES ] + [ CURRENT USER MESSAGE ]
+    const generated = await llmService.generateReply({
+      storeId,
+      conversationId,
+      systemPrompt: prompt.text,
+      summary: context.summary,
+      products: context.products,
+      references: context.references,
+      rawMessages: context.rawMessages,
+      userMessage: userMessage.text,
+    });
+    const { toolInvocations } = generated;
 
-    // 5. Refresh conversation to get latest summary if it was just created
-    const updatedConversation = await conversationRepo.findById(
-      conversation.id
+    // Screen the reply before the customer sees it
+    const outputCheck = guardrailService.screenOutput(
+      generated.reply,
+      guardrailService.buildOutputContext({
+        prompt,
+        context,
+        userMessage: userMessage.text,
+        toolInvocations,
+      }),
+      conversationId
     );
-    if (!updatedConversation) {
-      throw new Error("Conversation not found after summarization check");
+    const reply = outputCheck.allowed ? generated.reply : outputCheck.safeResponse;
+
+    // 9. Save AI reply (immutable, permanent) as the answer to the user message,
+    // and what the agent did to produce it
+    const aiMessage = await messageRepo.create(storeId, {
+      conversationId,
+      sender: "ai",
+      text: reply,
+      promptVersionId: prompt.versionId,
+      parentId: userMessage.id,
+      ifLeafIs: startLeafId,
+      guardrailRule: outputCheck.allowed ? null : outputCheck.ruleId,
+    });
+    await toolInvocationRepo.createMany({
+      conversationId,
+      messageId: aiMessage.id,
+      invocations: toolInvocations,
+    });
+    await usageService.record({
+      conversationId,
+      kind: "reply",
+      model: llmService.getModel(),
+      usage: generated.usage,
+      messageId: aiMessage.id,
+      clientIp: ip,
+    });
+
+    return {
+      reply,
+      sessionId: conversationId,
+      messageId: aiMessage.id,
+      userMessageId: userMessage.id,
+      // The agent may have escalated the conversation during the turn
+      status: await handoffService.getStatus(storeId, conversationId),
+    };
+  },
+
+  /**
+   * Handle incoming message and stream the reply as it is generated
+   *
+   * Follows the same memory strategy as handleMessage. The AI message is
+   * persisted only once the stream completes; if the signal is aborted
+   * (client disconnected) nothing is saved for the reply. If the model fails
+   * mid-reply, nothing is saved either and ReplyInterruptedError is thrown
+   * (an `error` event for the client).
+   */
+  async *streamMessage({
+    message,
+    sessionId,
+    storeId,
+    userId,
+    clientId,
+    ip,
+    branch,
+    signal,
+  }: {
+    message?: string;
+    sessionId?: string;
+    storeId: string;
+    userId?: string;
+    clientId?: string;
+    ip: string; // Client IP as the rate limiter resolves it
+    branch?: BranchAction;
+    signal?: AbortSignal;
+  }): AsyncGenerator<ChatStreamEvent> {
+    const { conversation, userMessage } = await this.receiveMessage({
+      message,
+      sessionId,
+      branch,
+      requester: { storeId, userId, clientId },
+    });
+    const conversationId = conversation.id;
+    const startLeafId = turnStartLeaf(conversation, userMessage, branch);
+
+    yield { type: "session", sessionId: conversationId };
+
+    // A human agent is handling the conversation: the message waits for them
+    if (handoffService.isHumanHandling(conversation)) {
+      yield {
+        type: "done",
+        reply: null,
+        sessionId: conversationId,
+        messageId: null,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
+      return;
     }
 
-    // 6. Get raw message window (last 5 messages)
-    // These are the messages that are NOT in the summary
-    const rawMessages = await messageRepo.getLastN(
-      conversation.id,
-      RAW_WINDOW_SIZE
-    );
+    // Screen the message before it reaches the model
+    const inputCheck = guardrailService.screenInput(userMessage.text, conversationId);
+    if (!inputCheck.allowed) {
+      const aiMessage = await this.refuse(storeId, conversationId, userMessage.id, inputCheck);
+      yield { type: "chunk", text: aiMessage.text };
+      yield {
+        type: "done",
+        reply: aiMessage.text,
+        sessionId: conversationId,
+        messageId: aiMessage.id,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
+      return;
+    }
 
-    // 7. Generate reply using canonical memory layout:
-    // [ SYSTEM PROMPT ] + [ SUMMARY ] + [ LAST 5 RAW MESSAGES ] + [ CURRENT USER MESSAGE ]
-    const reply = await llmService.generateReply({
-      summary: updatedConversation.summary,
-      rawMessages: rawMessages.map((m) => ({
-        sender: m.sender,
-        text: m.text,
-      })),
-      userMessage: message,
+    // Once a token budget is used up, answer with the limit message instead
+    const budget = await usageService.checkBudget(conversation, { userId, ip });
+    if (!budget.allowed) {
+      const aiMessage = await this.refuse(storeId, conversationId, userMessage.id, budget);
+      yield { type: "chunk", text: aiMessage.text };
+      yield {
+        type: "done",
+        reply: aiMessage.text,
+        sessionId: conversationId,
+        messageId: aiMessage.id,
+        userMessageId: userMessage.id,
+        status: conversation.status,
+      };
+      return;
+    }
+
+    const { prompt, context } = await this.prepareContext(conversation, userMessage);
+
+    // 8. Stream reply using canonical memory layout
+    // Other clients following the conversation see the assistant typing
+    await publishConversationEvent({
+      type: "typing",
+      sessionId: conversationId,
+      isTyping: true,
     });
 
-    // 8. Save AI reply (immutable, permanent)
-    await messageRepo.create({
-      conversationId: conversation.id,
+    let reply = "";
+    let sentLength = 0; // Streamed text the guardrails have passed
+    const toolInvocations: ToolInvocationResult[] = [];
+    let guardrailContext = guardrailService.buildOutputContext({
+      prompt,
+      context,
+      userMessage: userMessage.text,
+    });
+    let outputCheck: GuardrailDecision = { allowed: true, stage: "output" };
+    let usage: LLMUsage = NO_USAGE;
+    // Stops the model when the client disconnects or the reply breaks a
+    // guardrail; the interrupted call's usage is still reported
+    const stopGeneration = new AbortController();
+    const generationSignal = signal
+      ? AbortSignal.any([signal, stopGeneration.signal])
+      : stopGeneration.signal;
+    try {
+      for await (const event of llmService.streamReply(
+        {
+          storeId,
+          conversationId,
+          systemPrompt: prompt.text,
+          summary: context.summary,
+          products: context.products,
+          references: context.references,
+          rawMessages: context.rawMessages,
+          userMessage: userMessage.text,
+        },
+        generationSignal
+      )) {
+        if (event.type === "usage") {
+          usage = addUsage(usage, event.usage);
+        } else if (event.type === "tool") {
+          toolInvocations.push(event.invocation);
+          guardrailContext = guardrailService.buildOutputContext({
+            prompt,
+            context,
+            userMessage: userMessage.text,
+            toolInvocations,
+          });
+          yield { type: "tool", name: event.invocation.name };
+        } else if (outputCheck.allowed) {
+          // Text is sent once checked: stop as soon as it breaks a rule
+          reply += event.text;
+          const streamed = guardrailService.checkStreamedOutput(reply, guardrailContext);
+          outputCheck = streamed.decision;
+          if (!outputCheck.allowed) {
+            stopGeneration.abort();
+          } else if (streamed.checkedLength > sentLength) {
+            yield { type: "chunk", text: reply.slice(sentLength, streamed.checkedLength) };
+            sentLength = streamed.checkedLength;
+          }
+        }
+      }
+    } catch (error) {
+      if (error instanceof ReplyInterruptedError) {
+        await this.recordUnansweredTurn(conversationId, ip, toolInvocations, usage);
+      }
+      throw error;
+    } finally {
+      await publishConversationEvent({
+        type: "typing",
+        sessionId: conversationId,
+        isTyping: false,
+      });
+    }
+
+    if (signal?.aborted) {
+      await this.recordUnansweredTurn(conversationId, ip, toolInvocations, usage);
+      return;
+    }
+
+    // Screen the complete reply; if a rule fired, the client replaces the
+    // text streamed so far with the safe response
+    if (outputCheck.allowed) {
+      outputCheck = guardrailService.screenOutput(reply, guardrailContext, conversationId);
+    } else {
+      guardrailService.logDecision(outputCheck, conversationId);
+    }
+    if (outputCheck.allowed) {
+      if (reply.length > sentLength) {
+        yield { type: "chunk", text: reply.slice(sentLength) };
+      }
+    } else {
+      reply = outputCheck.safeResponse;
+      yield { type: "replace", text: reply };
+    }
+
+    // 9. Save AI reply once the stream has completed
+    reply = reply.trim();
+    const aiMessage = await messageRepo.create(storeId, {
+      conversationId,
       sender: "ai",
       text: reply,
+      promptVersionId: prompt.versionId,
+      parentId: userMessage.id,
+      ifLeafIs: startLeafId,
+      guardrailRule: outputCheck.allowed ? null : outputCheck.ruleId,
+    });
+    await toolInvocationRepo.createMany({
+      conversationId,
+      messageId: aiMessage.id,
+      invocations: toolInvocations,
+    });
+    await usageService.record({
+      conversationId,
+      kind: "reply",
+      model: llmService.getModel(),
+      usage,
+      messageId: aiMessage.id,
+      clientIp: ip,
     });
 
-    return {
+    yield {
+      type: "done",
       reply,
-      sessionId: conversation.id,
+      sessionId: conversationId,
+      messageId: aiMessage.id,
+      userMessageId: userMessage.id,
+      status: await handoffService.getStatus(storeId, conversationId),
+    };
+  },
+
+  /**
+   * Get a page of messages of a conversation the requester may access
+   * Pages go backwards from the newest message; nextCursor is the `before`
+   * value for the next older page, null once the first message is reached.
+   * Inaccessible conversations are reported as not found
+   */
+  async getHistory(
+    sessionId: string,
+    requester: Requester,
+    page: HistoryPageParams = {}
+  ) {
+    const limit = page.limit ?? DEFAULT_HISTORY_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+      throw new ValidationError(
+        `limit must be an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}`
+      );
+    }
+    if (
+      page.before !== undefined &&
+      (!Number.isInteger(page.before) || page.before < 1)
+    ) {
+      throw new ValidationError("before must be a positive integer");
+    }
+
+    const conversation = await conversationService.getReadable(
+      sessionId,
+      requester
+    );
+
+    // Fetch one extra message to know whether an older page exists
+    const messages = await messageRepo.getPage(conversation.storeId, conversation.id, {
+      beforeSeq: page.before,
+      limit: limit + 1,
+    });
+    const hasMore = messages.length > limit;
+    const pageMessages = hasMore ? messages.slice(1) : messages;
+
+    // Messages with regenerated or edited versions list them for switching
+    const alternatives = await branchService.getAlternatives(
+      conversation.storeId,
+      conversation.id,
+      pageMessages
+    );
+
+    return {
+      messages: pageMessages.map((m) => ({
+        ...m,
+        alternatives: alternatives.get(m.id),
+      })),
+      nextCursor: hasMore ? pageMessages[0].seq : null,
+      status: conversation.status,
     };
   },
+
+  /**
+   * Continue the active branch with a new user message
+   * The conversation is created when needed (owned by the user when signed
+   * in) and titled after its first message
+   */
+  async appendUserMessage(
+    message: string | undefined,
+    sessionId: string | undefined,
+    requester: Requester
+  ) {
+    if (!message) {
+      throw new ValidationError("Message is required");
+    }
+
+    const conversation = await conversationService.getOrCreateForMessage(
+      sessionId,
+      requester
+    );
+
+    // Saved immutable and permanent, with PII replaced by placeholders
+    const { text, piiEntries } = redactionService.redact(message);
+    const userMessage = await messageRepo.create(conversation.storeId, {
+      conversationId: conversation.id,
+      sender: "user",
+      text,
+      piiEntries,
+    });
+    await conversationService.assignTitle(conversation, text);
+
+    return { conversation, userMessage };
+  },
+
+  /**
+   * Answer a user message a guardrail or token budget blocked with its safe
+   * response
+   * Both messages are flagged, which keeps them out of the model's context
+   * and summaries
+   */
+  async refuse(
+    storeId: string,
+    conversationId: string,
+    userMessageId: string,
+    violation: { ruleId: string; safeResponse: string }
+  ) {
+    await messageRepo.setGuardrailRule(storeId, userMessageId, violation.ruleId);
+    return messageRepo.create(storeId, {
+      conversationId,
+      sender: "ai",
+      text: violation.safeResponse,
+      parentId: userMessageId,
+      guardrailRule: violation.ruleId,
+    });
+  },
+
+  /**
+   * Record what a turn that produced no AI message consumed
+   * Tool calls may already have had effects, keep the audit trail
+   */
+  async recordUnansweredTurn(
+    conversationId: string,
+    ip: string,
+    toolInvocations: ToolInvocationResult[],
+    usage: LLMUsage
+  ): Promise<void> {
+    await toolInvocationRepo.createMany({
+      conversationId,
+      messageId: null,
+      invocations: toolInvocations,
+    });
+    await usageService.record({
+      conversationId,
+      kind: "reply",
+      model: llmService.getModel(),
+      usage,
+      messageId: null,
+      clientIp: ip,
+    });
+  },
+
+  /**
+   * Persist the user message (steps 1-2 of every reply)
+   * A branch action replies to an edited or existing user message instead
+   * of appending a new one
+   */
+  async receiveMessage({
+    message,
+    sessionId,
+    branch,
+    requester,
+  }: {
+    message?: string;
+    sessionId?: string;
+    branch?: BranchAction;
+    requester: Requester;
+  }) {
+    // 1-2. Get or create the conversation and save the user message (or branch off an earlier turn)
+    return branch
+      ? branchService.start(branch, message, requester)
+      : this.appendUserMessage(message, sessionId, requester);
+  },
+
+  /**
+   * Assemble the context for the prompt answering a user message
+   * Shared by the blocking and streaming reply paths
+   */
+  async prepareContext(
+    conversation: Conversation,
+    userMessage: { id: string; text: string }
+  ): Promise<{
+    prompt: ActivePrompt;
+    context: AssembledContext;
+  }> {
+    const text = userMessage.text;
+
+    // 3. Load the published system prompt (policies are versioned in the database)
+    const prompt = await promptService.getActive(conversation.storeId);
+    const model = llmService.getModel();
+
+    // 4. Load the branch leading to the user message, after the summary
+    // The current message is appended separately, so it is left out here,
+    // as are turns a guardrail fired on
+    const history = (
+      await messageRepo.getBranch(
+        conversation.storeId,
+        userMessage.id,
+        conversation.summaryUntilSeq ?? 0
+      )
+    ).filter((m) => m.id !== userMessage.id && !m.guardrailRule);
+
+    // 5. Queue summarization of the oldest messages once the history nears its budget
+    // The reply uses the current summary and never waits for a new one
+    const toSummarize = contextService.planSummarization({
+      model,
+      systemPrompt: prompt.text,
+      summary: conversation.summary,
+      userMessage: text,
+      history,
+    });
+    if (toSummarize > 0) {
+      await summaryService.requestSummary(
+        conversation.storeId,
+        conversation.id,
+        history[toSummarize - 1].seq
+      );
+    }
+
+    // 6. Retrieve the store's catalog products and help-center excerpts relevant to this turn
+    const [products, references] = await Promise.all([
+      catalogService.findRelevantProducts(conversation.storeId, text, history),
+      knowledgeService.retrieve(conversation.storeId, text, history),
+    ]);
+
+    // 7. Fill the token budget: summary, retrieval, then as many recent messages as fit
+    const context = contextService.build({
+      model,
+      systemPrompt: prompt.text,
+      summary: conversation.summary,
+      summaryUntilSeq: conversation.summaryUntilSeq ?? 0,
+      userMessage: text,
+      products,
+      references,
+      history,
+    });
+
+    log.debug("Context assembled", {
+      conversationId: conversation.id,
+      layout: context.layout,
+    });
+    if (context.layout.droppedMessages > 0) {
+      log.warn("Context dropped unsummarized messages", {
+        conversationId: conversation.id,
+        droppedMessages: context.layout.droppedMessages,
+      });
+    }
+
+    return { prompt, context };
+  },
 };
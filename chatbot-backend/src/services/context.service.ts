@@ -0,0 +1,240 @@
+import { appConfig } from "../lib/env";
+import { estimateTokens } from "../lib/tokens";
+import { CatalogProduct } from "../types/catalog";
+import { KnowledgeMatch } from "../types/knowledge";
+import { ChatHistoryMessage } from "../types/chat";
+import { AssembledContext, HistoryMessage } from "../types/context";
+
+// Context window per model family, matched by prefix
+const MODEL_CONTEXT_WINDOWS: [string, number][] = [
+  ["gemini-2.5", 1_048_576],
+  ["gemini-2.0", 1_048_576],
+  ["gemini-1.5", 1_048_576],
+  ["gpt-4.1", 1_047_576],
+  ["gpt-4o", 128_000],
+  ["llama3", 8_192],
+];
+const DEFAULT_CONTEXT_WINDOW = 8_192; // Unknown models (local servers, mock)
+
+const RESERVED_REPLY_TOKENS = 1_024; // Room for the reply and tool rounds
+const SECTION_OVERHEAD_TOKENS = 64; // Section markers and instructions around the content
+const MESSAGE_OVERHEAD_TOKENS = 4; // "Customer: " / "Agent: " prefix and separator
+const RETRIEVAL_SHARE = 0.25; // Max share of the budget for catalog + reference material
+const SUMMARIZE_AT_SHARE = 0.75; // History budget share that triggers summarization
+const KEEP_RAW_SHARE = 0.5; // History budget share left raw after summarizing
+
+type BudgetParams = {
+  model: string;
+  systemPrompt: string;
+  summary: string | null;
+  userMessage: string;
+};
+
+function messageTokens(message: ChatHistoryMessage): number {
+  return estimateTokens(message.text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function productTokens(product: CatalogProduct): number {
+  // Serialized form is longer than the rendered entry, so this over-estimates
+  return estimateTokens(JSON.stringify(product));
+}
+
+function referenceTokens(reference: KnowledgeMatch): number {
+  return estimateTokens(`${reference.heading}\n${reference.content}`);
+}
+
+/**
+ * Tokens always spent on the prompt: system prompt, summary and current message
+ */
+function fixedTokens({ systemPrompt, summary, userMessage }: BudgetParams) {
+  return {
+    systemTokens: estimateTokens(systemPrompt),
+    summaryTokens: summary ? estimateTokens(summary) : 0,
+    userMessageTokens: estimateTokens(userMessage) + MESSAGE_OVERHEAD_TOKENS,
+  };
+}
+
+/**
+ * Take items in order while they fit in the given number of tokens
+ */
+function takeWithin<T>(
+  items: T[],
+  available: number,
+  tokensOf: (item: T) => number
+): { taken: T[]; tokens: number } {
+  const taken: T[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const cost = tokensOf(item);
+    if (tokens + cost > available) {
+      break;
+    }
+    taken.push(item);
+    tokens += cost;
+  }
+
+  return { taken, tokens };
+}
+
+/**
+ * Context builder
+ *
+ * Sizes every prompt to the model's token budget:
+ * - System prompt, summary and current user message are always included
+ * - Catalog products and reference material share at most a quarter of the budget
+ * - The rest is filled with the most recent messages after the summary
+ *
+ * The raw window always starts right after the summary's coverage. Summaries
+ * are generated in the background, so summarization is requested before the
+ * history fills its budget (see planSummarization); the remaining headroom
+ * absorbs new messages while the job runs, so nothing falls in between.
+ */
+export const contextService = {
+  /**
+   * Prompt token budget for a model
+   * Capped by CONTEXT_MAX_TOKENS so large context windows don't inflate cost
+   */
+  getTokenBudget(model: string): number {
+    const entry = MODEL_CONTEXT_WINDOWS.find(([prefix]) =>
+      model.startsWith(prefix)
+    );
+    const contextWindow = entry ? entry[1] : DEFAULT_CONTEXT_WINDOW;
+
+    return Math.min(
+      contextWindow - RESERVED_REPLY_TOKENS,
+      appConfig.context.maxPromptTokens
+    );
+  },
+
+  /**
+   * Tokens left for recent messages once fixed sections and retrieval are paid for
+   */
+  getHistoryBudget(params: BudgetParams): number {
+    const budget = this.getTokenBudget(params.model);
+    const { systemTokens, summaryTokens, userMessageTokens } =
+      fixedTokens(params);
+
+    return Math.max(
+      0,
+      budget -
+        systemTokens -
+        summaryTokens -
+        userMessageTokens -
+        SECTION_OVERHEAD_TOKENS -
+        Math.floor(budget * RETRIEVAL_SHARE)
+    );
+  },
+
+  /**
+   * Number of oldest unsummarized messages to fold into the summary
+   *
+   * Returns 0 while the history uses under 75% of its budget. Past that,
+   * enough messages are folded to bring it down to half, so summaries are
+   * not regenerated on every turn.
+   *
+   * @param history - Messages after the summary's coverage, oldest → newest
+   */
+  planSummarization(
+    params: BudgetParams & { history: HistoryMessage[] }
+  ): number {
+    const { history } = params;
+    const historyBudget = this.getHistoryBudget(params);
+    const historyTokens = history.reduce(
+      (sum, message) => sum + messageTokens(message),
+      0
+    );
+
+    if (historyTokens <= historyBudget * SUMMARIZE_AT_SHARE) {
+      return 0;
+    }
+
+    const { taken } = takeWithin<HistoryMessage>(
+      [...history].reverse(),
+      Math.floor(historyBudget * KEEP_RAW_SHARE),
+      messageTokens
+    );
+
+    return history.length - taken.length;
+  },
+
+  /**
+   * Assemble the prompt context within the model's budget
+   *
+   * @param history - Messages after the summary's coverage, oldest → newest,
+   *   excluding the current user message
+   */
+  build(
+    params: BudgetParams & {
+      summaryUntilSeq: number;
+      products: CatalogProduct[];
+      references: KnowledgeMatch[];
+      history: HistoryMessage[];
+    }
+  ): AssembledContext {
+    const { model, summary, summaryUntilSeq, history } = params;
+    const budget = this.getTokenBudget(model);
+    const { systemTokens, summaryTokens, userMessageTokens } =
+      fixedTokens(params);
+
+    // 1. Retrieval, most relevant first, within its share of the budget
+    const retrievalBudget = Math.floor(budget * RETRIEVAL_SHARE);
+    const products = takeWithin(params.products, retrievalBudget, productTokens);
+    const references = takeWithin(
+      params.references,
+      retrievalBudget - products.tokens,
+      referenceTokens
+    );
+
+    // 2. Recent messages, newest first, until the budget is spent
+    // The window stays contiguous: it stops at the first message that doesn't fit
+    const available =
+      budget -
+      systemTokens -
+      summaryTokens -
+      userMessageTokens -
+      SECTION_OVERHEAD_TOKENS -
+      products.tokens -
+      references.tokens;
+    const rawWindow = takeWithin<HistoryMessage>(
+      [...history].reverse(),
+      available,
+      messageTokens
+    );
+    const rawMessages = rawWindow.taken.reverse();
+
+    return {
+      summary,
+      products: products.taken,
+      references: references.taken,
+      rawMessages: rawMessages.map((m) => ({ sender: m.sender, text: m.text })),
+      layout: {
+        model,
+        budget,
+        totalTokens:
+          systemTokens +
+          summaryTokens +
+          SECTION_OVERHEAD_TOKENS +
+          products.tokens +
+          references.tokens +
+          rawWindow.tokens +
+          userMessageTokens,
+        systemTokens,
+        summaryTokens,
+        summaryUntilSeq,
+        products: { count: products.taken.length, tokens: products.tokens },
+        references: {
+          count: references.taken.length,
+          tokens: references.tokens,
+        },
+        rawWindow: {
+          count: rawMessages.length,
+          tokens: rawWindow.tokens,
+          firstMessageId: rawMessages[0]?.id ?? null,
+        },
+        userMessageTokens,
+        droppedMessages: history.length - rawMessages.length,
+      },
+    };
+  },
+};
@@ -0,0 +1,233 @@
+import { conversationRepo } from "../repositories/conversation.repo";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import {
+  ConversationListItem,
+  ConversationUpdate,
+  Requester,
+} from "../types/conversation";
+
+type Conversation = NonNullable<
+  Awaited<ReturnType<typeof conversationRepo.findById>>
+>;
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_PREVIEW_LENGTH = 100;
+
+/**
+ * Shorten text to a length, cutting at a word boundary when possible
+ */
+function truncate(text: string, maxLength: number): string {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxLength) {
+    return clean;
+  }
+
+  const cut = clean.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+/**
+ * Owned conversations are readable only by their owner; anonymous ones by
+ * anyone holding the session ID. Deleted conversations are gone for everyone.
+ */
+function canRead(conversation: Conversation, requester: Requester): boolean {
+  if (conversation.deletedAt) {
+    return false;
+  }
+  return !conversation.userId || conversation.userId === requester.userId;
+}
+
+/**
+ * Renaming, archiving and deleting need ownership: the account for owned
+ * conversations, the browser that started it for anonymous ones
+ */
+function canManage(conversation: Conversation, requester: Requester): boolean {
+  if (conversation.deletedAt) {
+    return false;
+  }
+  if (conversation.userId) {
+    return conversation.userId === requester.userId;
+  }
+  return !!requester.clientId && conversation.clientId === requester.clientId;
+}
+
+function toListItem(
+  conversation: Conversation & { messages: { text: string }[] }
+): ConversationListItem {
+  const lastMessage = conversation.messages[0];
+  return {
+    sessionId: conversation.id,
+    title: conversation.title,
+    preview: lastMessage ? truncate(lastMessage.text, MAX_PREVIEW_LENGTH) : null,
+    lastMessageAt: conversation.lastMessageAt,
+    createdAt: conversation.createdAt,
+    archived: conversation.archivedAt !== null,
+  };
+}
+
+/**
+ * Conversation Service
+ *
+ * Ownership and lifecycle of conversations: listing, titles, archiving,
+ * soft deletion and claiming anonymous conversations after sign-in.
+ * Inaccessible conversations are always reported as not found.
+ */
+export const conversationService = {
+  /**
+   * List the requester's conversations, most recently active first
+   */
+  async list(
+    requester: Requester,
+    options: { archived?: boolean } = {}
+  ): Promise<ConversationListItem[]> {
+    // Without an account or client ID there is nothing to list
+    if (!requester.userId && !requester.clientId) {
+      return [];
+    }
+
+    const conversations = await conversationRepo.listByOwner(
+      requester,
+      options.archived ?? false
+    );
+    return conversations.map(toListItem);
+  },
+
+  /**
+   * Start an empty conversation explicitly (e.g. "New chat")
+   */
+  async create(requester: Requester): Promise<ConversationListItem> {
+    const conversation = await conversationRepo.create(requester);
+    if (!conversation) {
+      throw new Error("Failed to create conversation");
+    }
+    return toListItem({ ...conversation, messages: [] });
+  },
+
+  /**
+   * Get a conversation the requester may read
+   * Throws NotFoundError otherwise
+   */
+  async getReadable(
+    sessionId: string,
+    requester: Requester
+  ): Promise<Conversation> {
+    const conversation = await conversationRepo.findById(requester.storeId, sessionId);
+    if (!conversation || !canRead(conversation, requester)) {
+      throw new NotFoundError("Conversation not found");
+    }
+    return conversation;
+  },
+
+  /**
+   * Get the conversation a message is sent to, creating it when needed
+   * Throws NotFoundError if it exists but the requester may not use it
+   */
+  async getOrCreateForMessage(
+    sessionId: string | undefined,
+    requester: Requester
+  ): Promise<Conversation> {
+    const conversation = sessionId
+      ? await conversationRepo.findOrCreate(sessionId, requester)
+      : await conversationRepo.create(requester);
+
+    if (!conversation) {
+      throw new Error("Failed to create or retrieve conversation");
+    }
+    if (!canRead(conversation, requester)) {
+      throw new NotFoundError("Conversation not found");
+    }
+    return conversation;
+  },
+
+  /**
+   * Title an untitled conversation after its first user message
+   */
+  async assignTitle(conversation: Conversation, message: string): Promise<void> {
+    if (conversation.title) {
+      return;
+    }
+    await conversationRepo.setTitleIfMissing(
+      conversation.storeId,
+      conversation.id,
+      truncate(message, MAX_TITLE_LENGTH)
+    );
+  },
+
+  /**
+   * Rename and/or archive a conversation
+   */
+  async update(
+    sessionId: string,
+    requester: Requester,
+    changes: ConversationUpdate
+  ): Promise<ConversationListItem> {
+    await this.getManageable(sessionId, requester);
+
+    const updated = await conversationRepo.update(requester.storeId, sessionId, {
+      title: changes.title,
+      ...(changes.archived !== undefined && {
+        archivedAt: changes.archived ? new Date() : null,
+      }),
+    });
+
+    if (!updated) {
+      throw new Error("Failed to update conversation");
+    }
+    // Only the metadata changed, the client keeps its own preview
+    return toListItem({ ...updated, messages: [] });
+  },
+
+  /**
+   * Soft delete a conversation
+   * It disappears from lists and history; messages stay in the database
+   */
+  async remove(sessionId: string, requester: Requester): Promise<void> {
+    await this.getManageable(sessionId, requester);
+    await conversationRepo.softDelete(requester.storeId, sessionId);
+  },
+
+  /**
+   * Attach an anonymous conversation to the signed-in user
+   * Only the browser that started it (same X-Client-Id) may claim it; other
+   * conversations are reported as not found, even when another account owns
+   * them. Claiming one's own conversation again is a no-op
+   */
+  async claim(sessionId: string, requester: Requester & { userId: string }): Promise<void> {
+    const { storeId, userId, clientId } = requester;
+    const conversation = await conversationRepo.findById(storeId, sessionId);
+    if (!conversation || conversation.deletedAt) {
+      throw new NotFoundError("Conversation not found");
+    }
+    if (conversation.userId === userId) {
+      return;
+    }
+    if (!clientId || conversation.clientId !== clientId) {
+      throw new NotFoundError("Conversation not found");
+    }
+    // Same browser, but claimed by another account that signed in there
+    if (conversation.userId) {
+      throw new ConflictError("Conversation belongs to another account");
+    }
+
+    const claimed = await conversationRepo.claim(storeId, sessionId, userId, clientId);
+    if (!claimed) {
+      throw new ConflictError("Conversation belongs to another account");
+    }
+  },
+
+  /**
+   * Get a conversation the requester may modify
+   * Throws NotFoundError otherwise
+   */
+  async getManageable(
+    sessionId: string,
+    requester: Requester
+  ): Promise<Conversation> {
+    const conversation = await conversationRepo.findById(requester.storeId, sessionId);
+    if (!conversation || !canManage(conversation, requester)) {
+      throw new NotFoundError("Conversation not found");
+    }
+    return conversation;
+  },
+};
@@ -0,0 +1,132 @@
+import { feedbackRepo } from "../repositories/feedback.repo";
+import { messageRepo } from "../repositories/message.repo";
+import { conversationService } from "./conversation.service";
+import { NotFoundError, ValidationError } from "../lib/errors";
+import { Requester } from "../types/conversation";
+import {
+  FeedbackGrouping,
+  FeedbackInput,
+  FeedbackReason,
+  FeedbackReportRow,
+} from "../types/feedback";
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_ROWS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Sort rows so problems surface first: days chronologically, prompt versions
+ * newest first, conversations by number of negative ratings
+ */
+function compareRows(groupBy: FeedbackGrouping) {
+  return (a: FeedbackReportRow, b: FeedbackReportRow): number => {
+    switch (groupBy) {
+      case "day":
+        return a.key.localeCompare(b.key);
+      case "prompt":
+        return (Number(b.key) || 0) - (Number(a.key) || 0);
+      case "conversation":
+        return b.down - a.down || a.satisfaction - b.satisfaction;
+    }
+  };
+}
+
+/**
+ * Feedback Service
+ *
+ * Thumbs up/down ratings of AI messages and aggregated reports, used to
+ * spot bad answers and regressions between prompt versions.
+ */
+export const feedbackService = {
+  /**
+   * Rate an AI message in a conversation the requester may access
+   * Rating again replaces the previous rating
+   */
+  async rate(messageId: string, requester: Requester, input: FeedbackInput) {
+    await this.getRateableMessage(messageId, requester);
+    return feedbackRepo.upsert(messageId, input);
+  },
+
+  /**
+   * Remove the requester's rating of a message
+   */
+  async remove(messageId: string, requester: Requester): Promise<void> {
+    await this.getRateableMessage(messageId, requester);
+    await feedbackRepo.deleteByMessage(messageId);
+  },
+
+  /**
+   * Aggregate feedback by day, prompt version or conversation
+   * Defaults to the last 30 days
+   */
+  async report(
+    storeId: string,
+    params: { groupBy: FeedbackGrouping; from?: Date; to?: Date }
+  ): Promise<{ from: Date; to: Date; rows: FeedbackReportRow[] }> {
+    const to = params.to ?? new Date();
+    const from = params.from ?? new Date(to.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+    if (from >= to) {
+      throw new ValidationError("from must be before to");
+    }
+
+    const counts = await feedbackRepo.countByGroup({
+      storeId,
+      groupBy: params.groupBy,
+      from,
+      to,
+    });
+
+    // 1. Fold (group, rating, reason) counts into one row per group
+    const rows = new Map<string, FeedbackReportRow>();
+    for (const { key, rating, reason, count } of counts) {
+      const row = rows.get(key) ?? {
+        key,
+        up: 0,
+        down: 0,
+        total: 0,
+        satisfaction: 0,
+        reasons: {},
+      };
+
+      if (rating === "up") {
+        row.up += count;
+      } else {
+        row.down += count;
+      }
+      row.total += count;
+      if (reason) {
+        const tag = reason as FeedbackReason;
+        row.reasons[tag] = (row.reasons[tag] ?? 0) + count;
+      }
+
+      rows.set(key, row);
+    }
+
+    // 2. Derive satisfaction and order the rows
+    const result = [...rows.values()].map((row) => ({
+      ...row,
+      satisfaction: Math.round((row.up / row.total) * 1000) / 1000,
+    }));
+    result.sort(compareRows(params.groupBy));
+
+    return { from, to, rows: result.slice(0, MAX_REPORT_ROWS) };
+  },
+
+  /**
+   * Get an AI message the requester may rate
+   * Messages in inaccessible conversations are reported as not found
+   */
+  async getRateableMessage(messageId: string, requester: Requester) {
+    const message = await messageRepo.findById(requester.storeId, messageId);
+    if (!message) {
+      throw new NotFoundError("Message not found");
+    }
+
+    await conversationService.getReadable(message.conversationId, requester);
+
+    if (message.sender !== "ai") {
+      throw new ValidationError("Only AI messages can be rated");
+    }
+    return message;
+  },
+};
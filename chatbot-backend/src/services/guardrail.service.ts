@@ -0,0 +1,103 @@
+import { createGuardrailContext, runGuardrails } from "../lib/guardrails";
+import { createLogger } from "../lib/logger";
+import { AssembledContext } from "../types/context";
+import { GuardrailContext, GuardrailDecision } from "../types/guardrail";
+import { ActivePrompt } from "../types/prompt";
+import { ToolInvocationResult } from "../types/tool";
+
+const log = createLogger("guardrail");
+
+/**
+ * Guardrail Service
+ *
+ * Screens user messages before the model sees them (prompt injection,
+ * disallowed requests) and replies before the customer sees them (prompt
+ * leaks, internal details, prices and policy terms that appear nowhere in
+ * what the model was given). When a rule fires, its safe response is sent
+ * instead. Rules live in lib/guardrails.ts and are checked against the
+ * fixture corpus with `npm run guardrails:check`.
+ */
+export const guardrailService = {
+  /**
+   * Screen a user message before it is sent to the model
+   */
+  screenInput(text: string, conversationId: string): GuardrailDecision {
+    const decision = runGuardrails("input", text, { instructions: [], facts: [] });
+    this.logDecision(decision, conversationId);
+    return decision;
+  },
+
+  /**
+   * Screen a complete reply before it is returned
+   */
+  screenOutput(
+    text: string,
+    context: GuardrailContext,
+    conversationId: string
+  ): GuardrailDecision {
+    const decision = runGuardrails("output", text, context);
+    this.logDecision(decision, conversationId);
+    return decision;
+  },
+
+  /**
+   * Check a reply while it streams, without logging
+   * The last word may still be incomplete ("$1" of "$19.99"), so only the
+   * text up to the last whitespace is checked; checkedLength is how much of
+   * the text may be sent. screenOutput checks the complete reply
+   */
+  checkStreamedOutput(
+    text: string,
+    context: GuardrailContext
+  ): { decision: GuardrailDecision; checkedLength: number } {
+    const checkedLength = Math.max(0, text.search(/\s\S*$/));
+    return {
+      decision: runGuardrails("output", text.slice(0, checkedLength), context),
+      checkedLength,
+    };
+  },
+
+  /**
+   * What a reply may quote: the published policies and everything the
+   * model was given for this turn
+   * Tool results are added as the tools run
+   */
+  buildOutputContext(params: {
+    prompt: ActivePrompt;
+    context: AssembledContext;
+    userMessage: string;
+    toolInvocations?: ToolInvocationResult[];
+  }): GuardrailContext {
+    const { prompt, context } = params;
+
+    return createGuardrailContext(prompt.sections, [
+      context.summary ?? "",
+      ...context.products.map(
+        (p) => `${p.title}: ${p.price} ${p.currency}. ${p.description} ${JSON.stringify(p.attributes)}`
+      ),
+      ...context.references.map((r) => r.content),
+      ...context.rawMessages.map((m) => m.text),
+      params.userMessage,
+      ...(params.toolInvocations ?? []).map((invocation) =>
+        JSON.stringify(invocation.result ?? null)
+      ),
+    ]);
+  },
+
+  /**
+   * Every decision is logged; a rule that fires is logged with what it matched
+   */
+  logDecision(decision: GuardrailDecision, conversationId: string): void {
+    if (decision.allowed) {
+      log.info("Guardrail passed", { stage: decision.stage, conversationId });
+      return;
+    }
+
+    log.warn("Guardrail blocked", {
+      stage: decision.stage,
+      rule: decision.ruleId,
+      conversationId,
+      match: decision.match,
+    });
+  },
+};
@@ -0,0 +1,341 @@
+import { conversationRepo } from "../repositories/conversation.repo";
+import { messageRepo } from "../repositories/message.repo";
+import { llmService } from "./llm.service";
+import { usageService } from "./usage.service";
+import { conversationService } from "./conversation.service";
+import { formatTranscript } from "../lib/transcript";
+import { publishConversationEvent } from "../lib/realtime";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import { createLogger } from "../lib/logger";
+import { Requester } from "../types/conversation";
+import { ConversationStatus, HandoffQueueItem } from "../types/handoff";
+
+const log = createLogger("handoff");
+
+type Conversation = NonNullable<
+  Awaited<ReturnType<typeof conversationRepo.findById>>
+>;
+type QueuedConversation = Awaited<
+  ReturnType<typeof conversationRepo.listHandoffQueue>
+>[number];
+
+const MAX_REASON_LENGTH = 500;
+const MAX_PREVIEW_LENGTH = 100;
+const HANDOFF_NOTE_MESSAGES = 20; // Recent messages read besides the summary
+const AGENT_PAGE_SIZE = 50;
+
+const CUSTOMER_REQUEST_REASON = "Customer asked to talk to a person";
+
+function toQueueItem(conversation: QueuedConversation): HandoffQueueItem {
+  const lastMessage = conversation.messages[0];
+  return {
+    sessionId: conversation.id,
+    title: conversation.title,
+    status: conversation.status,
+    reason: conversation.escalationReason,
+    handoffNote: conversation.handoffNote,
+    preview: lastMessage ? lastMessage.text.slice(0, MAX_PREVIEW_LENGTH) : null,
+    escalatedAt: conversation.escalatedAt,
+    lastMessageAt: conversation.lastMessageAt,
+    assignedAgent: conversation.assignedAgent,
+  };
+}
+
+/**
+ * Prompt for the agent's briefing: the summary covers older messages, the
+ * transcript what was said since
+ */
+function buildHandoffPrompt(
+  reason: string,
+  summary: string | null,
+  transcript: string
+): string {
+  return `You are briefing a human support agent who is taking over a conversation from the support bot. Write a short handoff note (at most 5 bullet points) covering:
+- What the customer wants and why the conversation was escalated
+- What the bot already answered or tried
+- Details the agent needs (order numbers, products, dates)
+
+Escalation reason: ${reason}
+
+Conversation summary:
+${summary ?? "(none yet)"}
+
+Recent messages:
+${transcript || "(none)"}
+
+Handoff note:`;
+}
+
+/**
+ * Handoff Service
+ *
+ * Moves conversations between the bot and human agents:
+ * - bot: the bot answers every message
+ * - escalated: waiting in the agent queue; the bot keeps answering
+ * - assigned: an agent claimed it; the bot stays silent until it is resolved
+ *
+ * Escalation is requested by the customer or by the bot (escalate_to_human
+ * tool); a handoff note is written for the agent in the background.
+ */
+export const handoffService = {
+  /**
+   * Put a conversation in the agent queue
+   * Conversations already waiting or assigned are left as they are
+   *
+   * @returns true if the conversation was newly escalated
+   */
+  async escalate(
+    storeId: string,
+    conversationId: string,
+    reason: string
+  ): Promise<boolean> {
+    const escalated = await conversationRepo.escalate(
+      storeId,
+      conversationId,
+      reason.trim().slice(0, MAX_REASON_LENGTH)
+    );
+
+    if (escalated) {
+      await publishConversationEvent({
+        type: "status",
+        sessionId: conversationId,
+        status: "escalated",
+      });
+      // The note needs an LLM call: never hold up the reply or the request for it
+      void this.writeHandoffNote(storeId, conversationId);
+    }
+    return escalated;
+  },
+
+  /**
+   * Escalate on the customer's request ("Talk to a person")
+   */
+  async requestAgent(
+    sessionId: string,
+    requester: Requester,
+    reason?: string
+  ): Promise<ConversationStatus> {
+    const conversation = await conversationService.getReadable(sessionId, requester);
+    if (conversation.status !== "bot") {
+      return conversation.status;
+    }
+
+    await this.escalate(
+      conversation.storeId,
+      conversation.id,
+      reason || CUSTOMER_REQUEST_REASON
+    );
+    return "escalated";
+  },
+
+  /**
+   * Whether a human agent is handling the conversation (the bot must not reply)
+   */
+  isHumanHandling(conversation: Conversation): boolean {
+    return conversation.status === "assigned";
+  },
+
+  /**
+   * Current handling status of a conversation
+   */
+  async getStatus(storeId: string, conversationId: string): Promise<ConversationStatus> {
+    const conversation = await conversationRepo.findById(storeId, conversationId);
+    return conversation?.status ?? "bot";
+  },
+
+  /**
+   * Write the agent's briefing from the summary and the recent messages
+   * Falls back to the summary itself when the LLM fails. Never throws.
+   */
+  async writeHandoffNote(storeId: string, conversationId: string): Promise<void> {
+    try {
+      const conversation = await conversationRepo.findById(storeId, conversationId);
+      if (!conversation?.activeLeafId) {
+        return;
+      }
+
+      const messages = await messageRepo.getBranch(
+        storeId,
+        conversation.activeLeafId,
+        conversation.summaryUntilSeq ?? 0
+      );
+      const recent = messages.slice(-HANDOFF_NOTE_MESSAGES);
+      const reason = conversation.escalationReason ?? CUSTOMER_REQUEST_REASON;
+
+      let note: string;
+      try {
+        const generated = await llmService.generateSummary(
+          buildHandoffPrompt(reason, conversation.summary, formatTranscript(recent))
+        );
+        note = generated.text;
+        await usageService.record({
+          conversationId,
+          kind: "handoff_note",
+          model: llmService.getModel(),
+          usage: generated.usage,
+        });
+      } catch {
+        const lastCustomerMessage = [...recent].reverse().find((m) => m.sender === "user");
+        note = [
+          `Escalation reason: ${reason}`,
+          conversation.summary,
+          lastCustomerMessage && `Last customer message: ${lastCustomerMessage.text}`,
+        ]
+          .filter(Boolean)
+          .join("\n");
+      }
+
+      await conversationRepo.setHandoffNote(storeId, conversationId, note);
+    } catch (error) {
+      log.error("Failed to write handoff note", { conversationId, err: error });
+    }
+  },
+
+  /**
+   * A store's conversations waiting for an agent or being handled, longest
+   * waiting first
+   */
+  async listQueue(storeId: string): Promise<HandoffQueueItem[]> {
+    const conversations = await conversationRepo.listHandoffQueue(storeId);
+    return conversations.map(toQueueItem);
+  },
+
+  /**
+   * A conversation as seen by an agent: handoff details and the newest
+   * messages of the active branch
+   */
+  async getForAgent(storeId: string, sessionId: string) {
+    const conversation = await this.getConversation(storeId, sessionId);
+    const messages = await messageRepo.getPage(storeId, conversation.id, {
+      limit: AGENT_PAGE_SIZE,
+    });
+
+    return {
+      sessionId: conversation.id,
+      title: conversation.title,
+      status: conversation.status,
+      reason: conversation.escalationReason,
+      handoffNote: conversation.handoffNote,
+      summary: conversation.summary,
+      escalatedAt: conversation.escalatedAt,
+      assignedAgentId: conversation.assignedAgentId,
+      messages,
+    };
+  },
+
+  /**
+   * Take a waiting conversation; the bot stops replying
+   * Claiming a conversation one already handles is a no-op
+   */
+  async claim(storeId: string, sessionId: string, agentId: string): Promise<void> {
+    const conversation = await this.getConversation(storeId, sessionId);
+    if (conversation.assignedAgentId === agentId) {
+      return;
+    }
+
+    const assigned = await conversationRepo.assignAgent(storeId, conversation.id, agentId);
+    if (!assigned) {
+      throw new ConflictError(
+        conversation.status === "assigned"
+          ? "Conversation is already handled by another agent"
+          : "Conversation is not waiting for an agent"
+      );
+    }
+
+    await publishConversationEvent({
+      type: "status",
+      sessionId: conversation.id,
+      status: "assigned",
+    });
+  },
+
+  /**
+   * Send a message to the customer as the assigned agent
+   */
+  async reply(storeId: string, sessionId: string, agentId: string, text: string) {
+    const conversation = await this.getConversation(storeId, sessionId);
+    if (conversation.status !== "assigned" || conversation.assignedAgentId !== agentId) {
+      throw new ConflictError("Claim the conversation before replying");
+    }
+
+    const message = await messageRepo.create(storeId, {
+      conversationId: conversation.id,
+      sender: "agent",
+      text,
+    });
+
+    await publishConversationEvent({
+      type: "message",
+      sessionId: conversation.id,
+      message: {
+        id: message.id,
+        seq: message.seq,
+        sender: message.sender,
+        text: message.text,
+        timestamp: message.createdAt.toISOString(),
+      },
+    });
+    return message;
+  },
+
+  /**
+   * Put a claimed conversation back in the queue for another agent
+   */
+  async release(storeId: string, sessionId: string, agentId: string): Promise<void> {
+    const conversation = await this.getConversation(storeId, sessionId);
+    if (!(await conversationRepo.unassignAgent(storeId, conversation.id, agentId))) {
+      throw new ConflictError("Conversation is not handled by you");
+    }
+
+    await publishConversationEvent({
+      type: "status",
+      sessionId: conversation.id,
+      status: "escalated",
+    });
+  },
+
+  /**
+   * Put all of an agent's conversations back in the queue (e.g. when the
+   * agent role is revoked), so none is left without a reply
+   */
+  async releaseAll(storeId: string, agentId: string): Promise<number> {
+    const conversationIds = await conversationRepo.unassignAllFromAgent(storeId, agentId);
+
+    for (const conversationId of conversationIds) {
+      await publishConversationEvent({
+        type: "status",
+        sessionId: conversationId,
+        status: "escalated",
+      });
+    }
+    return conversationIds.length;
+  },
+
+  /**
+   * Hand a claimed conversation back to the bot
+   */
+  async resolve(storeId: string, sessionId: string, agentId: string): Promise<void> {
+    const conversation = await this.getConversation(storeId, sessionId);
+    if (!(await conversationRepo.resolveHandoff(storeId, conversation.id, agentId))) {
+      throw new ConflictError("Conversation is not handled by you");
+    }
+
+    await publishConversationEvent({
+      type: "status",
+      sessionId: conversation.id,
+      status: "bot",
+    });
+  },
+
+  /**
+   * Get a conversation agents of the store may see: only those in the queue
+   * Throws NotFoundError otherwise
+   */
+  async getConversation(storeId: string, sessionId: string): Promise<Conversation> {
+    const conversation = await conversationRepo.findById(storeId, sessionId);
+    if (!conversation || conversation.deletedAt || conversation.status === "bot") {
+      throw new NotFoundError("Conversation not found");
+    }
+    return conversation;
+  },
+};
@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import { knowledgeRepo } from "../repositories/knowledge.repo";
+import { buildAnyTermTsQuery } from "../lib/search";
+import { chunkMarkdown, extractTitle, htmlToMarkdown } from "../lib/documents";
+import { ChatHistoryMessage } from "../types/chat";
+import { KnowledgeMatch } from "../types/knowledge";
+import { createLogger } from "../lib/logger";
+
+const log = createLogger("knowledge");
+
+const KNOWLEDGE_CONTEXT_LIMIT = 3; // Max chunks injected into a prompt
+const MIN_RANK = 0.01; // Drop chunks that barely match
+const CONTEXT_MESSAGES = 3; // Recent customer messages used to widen the query
+
+/**
+ * Knowledge Service
+ *
+ * Retrieval-augmented generation over help-center articles, entirely in Postgres:
+ * - Ingests Markdown/HTML documents as section-aligned chunks
+ * - Ranks chunks with full-text search for each user turn
+ */
+export const knowledgeService = {
+  /**
+   * Ingest one document into a store's help center (re-ingesting replaces
+   * its chunks)
+   * Unchanged documents are skipped based on a content checksum.
+   */
+  async ingestDocument(
+    storeId: string,
+    params: {
+      source: string;
+      content: string;
+      format: "markdown" | "html";
+    }
+  ): Promise<{ status: "created" | "updated" | "unchanged"; chunks: number }> {
+    const { source, content, format } = params;
+
+    const checksum = createHash("sha256").update(content).digest("hex");
+    const existing = await knowledgeRepo.findBySource(storeId, source);
+    if (existing?.checksum === checksum) {
+      return { status: "unchanged", chunks: 0 };
+    }
+
+    const markdown = format === "html" ? htmlToMarkdown(content) : content;
+    const fallbackTitle = source.split("/").pop()!.replace(/\.[^.]+$/, "");
+    const title = extractTitle(markdown, fallbackTitle);
+    const chunks = chunkMarkdown(markdown, title);
+
+    await knowledgeRepo.replaceDocument(storeId, { source, title, checksum, chunks });
+
+    return { status: existing ? "updated" : "created", chunks: chunks.length };
+  },
+
+  /**
+   * Retrieve the store's help-center excerpts relevant to the current turn
+   * Ranks against the user message plus recent customer messages.
+   *
+   * Never throws: retrieval failures must not block a reply.
+   */
+  async retrieve(
+    storeId: string,
+    userMessage: string,
+    rawMessages: ChatHistoryMessage[]
+  ): Promise<KnowledgeMatch[]> {
+    try {
+      const query = buildAnyTermTsQuery(userMessage);
+      if (!query) {
+        return [];
+      }
+
+      const recentCustomerText = rawMessages
+        .filter((m) => m.sender === "user" && m.text !== userMessage)
+        .slice(-CONTEXT_MESSAGES)
+        .map((m) => m.text)
+        .join(" ");
+
+      return await knowledgeRepo.search({
+        storeId,
+        query,
+        contextQuery: buildAnyTermTsQuery(recentCustomerText),
+        limit: KNOWLEDGE_CONTEXT_LIMIT,
+        minRank: MIN_RANK,
+      });
+    } catch (error) {
+      log.error("Knowledge retrieval error", { err: error });
+      return [];
+    }
+  },
+};
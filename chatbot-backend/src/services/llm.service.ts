@@ -1,107 +1,345 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { ChatHistoryMessage } from "src/types/chat";
-import { appConfig } from "../lib/env";
+import { CatalogProduct } from "../types/catalog";
+import { KnowledgeMatch } from "../types/knowledge";
+import { getLLMProvider } from "../providers";
+import { toolRegistry } from "../tools";
+import { LLMRequest, LLMToolCall, LLMToolRound, LLMUsage } from "../types/llm";
+import { ToolContext, ToolInvocationResult } from "../types/tool";
+import { formatTranscript } from "../lib/transcript";
+import { NO_USAGE, addUsage, estimateTokens } from "../lib/tokens";
+import { createLogger } from "../lib/logger";
+import { llmFallbackReplies } from "../lib/metrics";
+import { ReplyInterruptedError } from "../lib/errors";
 
-const genAI = new GoogleGenerativeAI(appConfig.geminiApiKey!);
+const log = createLogger("llm");
 
-const model = genAI.getGenerativeModel({
-  model: "gemini-2.5-flash",
-});
+// Provider is selected via LLM_PROVIDER (gemini | openai | mock)
+const provider = getLLMProvider();
+
+const FALLBACK_REPLY =
+  "Sorry, I'm having trouble responding right now. Please try again in a moment.";
+
+const MAX_TOOL_ITERATIONS = 3; // Max model→tool→model round trips per reply
+
+type ReplyParams = {
+  storeId: string;
+  conversationId: string;
+  /** Published system prompt - MUST be repeated verbatim on every LLM call */
+  systemPrompt: string;
+  summary: string | null;
+  products: CatalogProduct[];
+  references: KnowledgeMatch[];
+  rawMessages: ChatHistoryMessage[];
+  userMessage: string;
+};
+
+export type ReplyResult = {
+  reply: string;
+  toolInvocations: ToolInvocationResult[];
+  /** Every model call of the turn, failed ones excluded */
+  usage: LLMUsage;
+};
+
+export type ReplyStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool"; invocation: ToolInvocationResult }
+  /** After each model call, including one cut short by the signal */
+  | { type: "usage"; usage: LLMUsage };
+
+export type SummaryResult = {
+  text: string;
+  usage: LLMUsage;
+};
+
+/**
+ * Tokens a call used: as reported by the provider, otherwise estimated
+ * from the request and what the model produced
+ */
+function resolveUsage(
+  request: LLMRequest,
+  output: { text: string; toolCalls: LLMToolCall[] },
+  reported?: LLMUsage
+): LLMUsage {
+  if (reported) {
+    return reported;
+  }
+
+  const toolRounds = request.toolRounds?.length ? JSON.stringify(request.toolRounds) : "";
+  const toolCalls = output.toolCalls.length ? JSON.stringify(output.toolCalls) : "";
+  return {
+    promptTokens: estimateTokens(request.prompt + toolRounds),
+    completionTokens: estimateTokens(output.text + toolCalls),
+  };
+}
+
+/**
+ * Offer tools only while under the iteration cap
+ * Once the cap is reached tools are withheld, so the model must answer in text
+ */
+function toolsForIteration(iteration: number) {
+  return iteration < MAX_TOOL_ITERATIONS
+    ? toolRegistry.getDefinitions()
+    : undefined;
+}
+
+/**
+ * Invoke the tools requested in one iteration
+ * Failed calls are fed back as { error } so the model can recover
+ */
+async function runToolRound(
+  calls: LLMToolCall[],
+  context: ToolContext
+): Promise<{ round: LLMToolRound; invocations: ToolInvocationResult[] }> {
+  const round: LLMToolRound = [];
+  const invocations: ToolInvocationResult[] = [];
+
+  for (const call of calls) {
+    const invocation = await toolRegistry.invoke(call, context);
+    invocations.push(invocation);
+    round.push({
+      call,
+      result: invocation.error ? { error: invocation.error } : invocation.result,
+    });
+  }
+
+  return { round, invocations };
+}
+
+/**
+ * Format a product as a single catalog entry for the prompt
+ */
+function formatProduct(product: CatalogProduct): string {
+  const availability =
+    product.stock > 0 ? `In stock (${product.stock})` : "Out of stock";
+  const lines = [
+    `- SKU ${product.sku}: ${product.title} | Price: ${product.price} ${product.currency} | ${availability}`,
+  ];
+
+  if (product.category) {
+    lines.push(`  Category: ${product.category}`);
+  }
+  if (product.description) {
+    lines.push(`  Description: ${product.description}`);
+  }
+
+  const attributes = Object.entries(product.attributes ?? {});
+  if (attributes.length > 0) {
+    lines.push(
+      `  Attributes: ${attributes.map(([k, v]) => `${k}=${String(v)}`).join(", ")}`
+    );
+  }
+
+  return lines.join("\n");
+}
 
 /**
- * System prompt - MUST be repeated verbatim on every LLM call
- * This defines the agent's role, policies, and behavior
+ * Build the prompt following the canonical memory layout
  */
-const SYSTEM_PROMPT = `You are a helpful support agent for a small e-commerce store.
+function buildReplyPrompt(params: ReplyParams): string {
+  const { systemPrompt, summary, products, references, rawMessages, userMessage } =
+    params;
 
-Store policies:
-- Shipping: Worldwide shipping, delivery in 5–10 business days.
-- Returns: 30-day return window, unused items only.
-- Support hours: Monday to Friday, 9am–6pm IST.
+  // Build conversation context following canonical memory layout
+  let contextParts: string[] = [];
 
-Important rules:
-- Answer clearly, concisely, and professionally.
-- Do NOT make up information about products, prices, or policies not listed above.
-- Do NOT disclose internal systems, database details, or technical implementation.
-- If you don't know something, say so honestly.
-- Treat conversation summaries as authoritative history.
-- Prioritize the latest user messages over summary information if there are conflicts.`;
+  // 1. System prompt (always included)
+  contextParts.push(systemPrompt);
+
+  // 2. Conversation summary (if exists)
+  if (summary) {
+    contextParts.push(
+      `\n[Previous conversation summary]\n${summary}\n[End of summary]`
+    );
+  }
+
+  // 3. Relevant catalog products (always present, so "not found" is explicit)
+  const catalog =
+    products.length > 0
+      ? products.map(formatProduct).join("\n")
+      : "No matching products found in the catalog.";
+  contextParts.push(`\n[Product catalog]\n${catalog}\n[End of catalog]`);
+
+  // 4. Help-center excerpts relevant to this turn (only when something matched)
+  if (references.length > 0) {
+    const material = references
+      .map((r, index) => `(${index + 1}) ${r.heading}\n${r.content}`)
+      .join("\n\n");
+    contextParts.push(
+      `\n[Reference material]\nExcerpts from our help center. Use them only if relevant to the question.\n\n${material}\n[End of reference material]`
+    );
+  }
+
+  // 5. Recent messages after the summary
+  if (rawMessages.length > 0) {
+    contextParts.push(`\n[Recent conversation]\n${formatTranscript(rawMessages)}`);
+  }
+
+  // 6. Current user message
+  contextParts.push(`\nCustomer: ${userMessage}\nAgent:`);
+
+  return contextParts.join("\n\n");
+}
 
 export const llmService = {
   /**
    * Generate reply using canonical memory layout:
    * [ SYSTEM PROMPT ]
    * [ CONVERSATION SUMMARY (if exists) ]
-   * [ LAST 5 RAW MESSAGES ]
+   * [ PRODUCT CATALOG (relevant products) ]
+   * [ REFERENCE MATERIAL (help-center excerpts, if any) ]
+   * [ RECENT MESSAGES (as many as fit the token budget) ]
    * [ CURRENT USER MESSAGE ]
    */
-  async generateReply(params: {
-    summary: string | null;
-    rawMessages: ChatHistoryMessage[];
-    userMessage: string;
-  }): Promise<string> {
+  async generateReply(params: ReplyParams): Promise<ReplyResult> {
+    const toolInvocations: ToolInvocationResult[] = [];
+    let usage = NO_USAGE;
+
     try {
-      const { summary, rawMessages, userMessage } = params;
+      const prompt = buildReplyPrompt(params);
+      const toolRounds: LLMToolRound[] = [];
 
-      // Build conversation context following canonical memory layout
-      let contextParts: string[] = [];
+      // Reply loop: let the model call tools until it answers in text
+      for (let iteration = 0; ; iteration++) {
+        const tools = toolsForIteration(iteration);
+        const request = { prompt, tools, toolRounds };
+        const response = await provider.generate(request);
+        usage = addUsage(usage, resolveUsage(request, response, response.usage));
 
-      // 1. System prompt (always included)
-      contextParts.push(SYSTEM_PROMPT);
+        if (response.toolCalls.length === 0 || !tools) {
+          if (!response.text) {
+            throw new Error("Empty LLM response");
+          }
+          return { reply: response.text.trim(), toolInvocations, usage };
+        }
 
-      // 2. Conversation summary (if exists)
-      if (summary) {
-        contextParts.push(
-          `\n[Previous conversation summary]\n${summary}\n[End of summary]`
+        const { round, invocations } = await runToolRound(
+          response.toolCalls,
+          { storeId: params.storeId, conversationId: params.conversationId }
         );
+        toolRounds.push(round);
+        toolInvocations.push(...invocations);
       }
+    } catch (error) {
+      // Graceful failure (MANDATORY)
+      log.error("LLM error", { conversationId: params.conversationId, err: error });
+      llmFallbackReplies.inc({ mode: "generate" });
+      return { reply: FALLBACK_REPLY, toolInvocations, usage };
+    }
+  },
 
-      // 3. Last 5 raw messages
-      if (rawMessages.length > 0) {
-        const recentConversation = rawMessages
-          .map((m) =>
-            m.sender === "user" ? `Customer: ${m.text}` : `Agent: ${m.text}`
-          )
-          .join("\n");
-        contextParts.push(`\n[Recent conversation]\n${recentConversation}`);
-      }
+  /**
+   * Stream reply chunks as the model produces them
+   * Uses the same canonical memory layout as generateReply
+   *
+   * Stops when the signal is aborted (client disconnected, or the caller
+   * cut the reply short), after reporting the usage of the interrupted call.
+   * If the model fails before producing any text, the fallback reply is
+   * yielded instead so the client always receives an answer; if it fails
+   * after some text was yielded, ReplyInterruptedError is thrown so the
+   * partial text is not taken for a complete reply.
+   */
+  async *streamReply(
+    params: ReplyParams,
+    signal?: AbortSignal
+  ): AsyncGenerator<ReplyStreamEvent> {
+    let hasOutput = false;
+    // Call in progress and what it produced so far
+    let request: LLMRequest | null = null;
+    let output = { text: "", toolCalls: [] as LLMToolCall[] };
+
+    try {
+      const prompt = buildReplyPrompt(params);
+      const toolRounds: LLMToolRound[] = [];
+
+      // Reply loop: text is streamed as it arrives, tool calls are run between iterations
+      for (let iteration = 0; ; iteration++) {
+        const tools = toolsForIteration(iteration);
+        let reported: LLMUsage | undefined;
+        request = { prompt, tools, toolRounds };
+        output = { text: "", toolCalls: [] };
 
-      // 4. Current user message
-      contextParts.push(`\nCustomer: ${userMessage}\nAgent:`);
+        for await (const event of provider.stream(request, { signal })) {
+          if (event.type === "tool_call") {
+            output.toolCalls.push(event.call);
+          } else if (event.type === "usage") {
+            reported = event.usage;
+          } else if (event.text) {
+            hasOutput = true;
+            output.text += event.text;
+            yield { type: "text", text: event.text };
+          }
+        }
 
-      const prompt = contextParts.join("\n\n");
+        yield { type: "usage", usage: resolveUsage(request, output, reported) };
+        request = null;
 
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+        const { toolCalls } = output;
+        if (toolCalls.length === 0 || !tools || signal?.aborted) {
+          break;
+        }
 
-      if (!response) {
-        throw new Error("Empty Gemini response");
+        const { round, invocations } = await runToolRound(
+          toolCalls,
+          { storeId: params.storeId, conversationId: params.conversationId }
+        );
+        toolRounds.push(round);
+        for (const invocation of invocations) {
+          yield { type: "tool", invocation };
+        }
       }
 
-      return response.trim();
+      if (!hasOutput) {
+        throw new Error("Empty LLM response");
+      }
     } catch (error) {
+      if (signal?.aborted) {
+        // The interrupted call still consumed its prompt and partial output
+        if (request) {
+          yield { type: "usage", usage: resolveUsage(request, output) };
+        }
+        return;
+      }
+
       // Graceful failure (MANDATORY)
-      console.error("LLM error:", error);
-      return "Sorry, I'm having trouble responding right now. Please try again in a moment.";
+      log.error("LLM stream error", { conversationId: params.conversationId, err: error });
+      if (hasOutput) {
+        // Part of the reply was already sent: the fallback can't replace it
+        if (request) {
+          yield { type: "usage", usage: resolveUsage(request, output) };
+        }
+        throw new ReplyInterruptedError("The reply was interrupted. Please try again.");
+      }
+      llmFallbackReplies.inc({ mode: "stream" });
+      yield { type: "text", text: FALLBACK_REPLY };
     }
   },
 
+  /**
+   * Model that replies are generated with, used to size the context
+   */
+  getModel(): string {
+    return provider.model;
+  },
+
   /**
    * Generate summary from a prompt
    * Used by summary service for memory compression
    */
-  async generateSummary(prompt: string): Promise<string> {
+  async generateSummary(prompt: string): Promise<SummaryResult> {
     try {
-      const result = await model.generateContent(prompt);
-      const response = result.response.text();
+      const request = { prompt };
+      const response = await provider.generate(request);
 
-      if (!response) {
+      if (!response.text) {
         throw new Error("Empty summary response");
       }
 
-      return response.trim();
+      return {
+        text: response.text.trim(),
+        usage: resolveUsage(request, response, response.usage),
+      };
     } catch (error) {
-      console.error("Summary generation error:", error);
+      log.error("Summary generation error", { err: error });
       throw error;
     }
   },
@@ -0,0 +1,178 @@
+import { promptVersionRepo } from "../repositories/promptVersion.repo";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import { DEFAULT_PROMPT_SECTIONS } from "../lib/storePolicies";
+import { ActivePrompt, PromptSectionInput } from "../types/prompt";
+
+const CACHE_TTL_MS = 30 * 1000; // Other instances pick up a publish within 30s
+
+// Published prompt per store ID
+const cachedPrompts = new Map<string, { prompt: ActivePrompt; expiresAt: number }>();
+
+/**
+ * Render sections into the system prompt text
+ * Instructions are rendered verbatim; policies are grouped into a single
+ * "Store policies:" block at the position of the first policy section.
+ */
+function renderPrompt(sections: PromptSectionInput[]): string {
+  const policies = sections.filter((s) => s.kind === "policy");
+  const parts: string[] = [];
+  let policiesRendered = false;
+
+  for (const section of sections) {
+    if (section.kind === "instruction") {
+      parts.push(section.content.trim());
+    } else if (!policiesRendered) {
+      parts.push(
+        `Store policies:\n${policies
+          .map((p) => `- ${p.title}: ${p.content.trim()}`)
+          .join("\n")}`
+      );
+      policiesRendered = true;
+    }
+  }
+
+  return parts.join("\n\n");
+}
+
+function toSectionInputs(
+  sections: { kind: string; key: string; title: string; content: string }[]
+): PromptSectionInput[] {
+  return sections.map(({ kind, key, title, content }) => ({
+    kind: kind as PromptSectionInput["kind"],
+    key,
+    title,
+    content,
+  }));
+}
+
+/**
+ * Prompt Service
+ *
+ * Store policies and system prompt sections live in Postgres as versions,
+ * numbered per store:
+ * - Drafts are editable, published versions are immutable
+ * - Each store has exactly one published version; its replies always use it
+ * - Rollback republishes an older version's content as a new version,
+ *   so the history stays linear and auditable
+ */
+export const promptService = {
+  /**
+   * Get the published system prompt of a store (cached briefly)
+   * Falls back to the built-in default if nothing is published
+   */
+  async getActive(storeId: string): Promise<ActivePrompt> {
+    const cached = cachedPrompts.get(storeId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.prompt;
+    }
+
+    const published = await promptVersionRepo.findPublished(storeId);
+    const sections = published
+      ? toSectionInputs(published.sections)
+      : DEFAULT_PROMPT_SECTIONS;
+
+    const prompt: ActivePrompt = {
+      versionId: published?.id ?? null,
+      version: published?.version ?? null,
+      text: renderPrompt(sections),
+      sections,
+    };
+
+    cachedPrompts.set(storeId, { prompt, expiresAt: Date.now() + CACHE_TTL_MS });
+    return prompt;
+  },
+
+  /**
+   * Look up a single store policy from the published prompt
+   */
+  async getPolicy(storeId: string, key: string): Promise<PromptSectionInput | null> {
+    const { sections }: ActivePrompt = await this.getActive(storeId);
+    return sections.find((s) => s.kind === "policy" && s.key === key) ?? null;
+  },
+
+  async listVersions(storeId: string) {
+    return promptVersionRepo.list(storeId);
+  },
+
+  /**
+   * Get a version with its sections and the rendered prompt text
+   */
+  async getVersion(storeId: string, id: string) {
+    const version = await promptVersionRepo.findById(storeId, id);
+    if (!version) {
+      throw new NotFoundError("Prompt version not found");
+    }
+    return {
+      ...version,
+      renderedPrompt: renderPrompt(toSectionInputs(version.sections)),
+    };
+  },
+
+  /**
+   * Create a draft
+   * Without explicit sections, the draft starts as a copy of the published prompt
+   */
+  async createDraft(
+    storeId: string,
+    params: { sections?: PromptSectionInput[]; notes?: string | null }
+  ) {
+    const active: ActivePrompt = await this.getActive(storeId);
+    const sections = params.sections ?? active.sections;
+    return promptVersionRepo.createDraft(storeId, { sections, notes: params.notes });
+  },
+
+  /**
+   * Update a draft (published and archived versions are immutable)
+   */
+  async updateDraft(
+    storeId: string,
+    id: string,
+    params: { sections?: PromptSectionInput[]; notes?: string | null }
+  ) {
+    await this.getDraftOrThrow(storeId, id);
+    return promptVersionRepo.updateDraft(id, params);
+  },
+
+  /**
+   * Publish a draft; the previously published version is archived
+   */
+  async publish(storeId: string, id: string) {
+    await this.getDraftOrThrow(storeId, id);
+    const published = await promptVersionRepo.publish(storeId, id);
+    cachedPrompts.delete(storeId);
+    return published;
+  },
+
+  /**
+   * Roll back to an earlier version
+   * Its content is published as a new version (history is never rewritten)
+   */
+  async rollback(storeId: string, id: string) {
+    const target = await promptVersionRepo.findById(storeId, id);
+    if (!target) {
+      throw new NotFoundError("Prompt version not found");
+    }
+    if (target.status === "published") {
+      throw new ConflictError("Version is already published");
+    }
+
+    const draft = await promptVersionRepo.createDraft(storeId, {
+      sections: toSectionInputs(target.sections),
+      notes: `Rollback to version ${target.version}`,
+    });
+    const published = await promptVersionRepo.publish(storeId, draft.id);
+    cachedPrompts.delete(storeId);
+    return published;
+  },
+
+  async getDraftOrThrow(storeId: string, id: string) {
+    const version = await promptVersionRepo.findById(storeId, id);
+    if (!version) {
+      throw new NotFoundError("Prompt version not found");
+    }
+    if (version.status !== "draft") {
+      throw new ConflictError(`Version ${version.version} is ${version.status} and cannot be changed`);
+    }
+    return version;
+  },
+};
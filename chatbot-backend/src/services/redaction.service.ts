@@ -0,0 +1,92 @@
+import { messageRepo } from "../repositories/message.repo";
+import { piiVaultRepo } from "../repositories/piiVault.repo";
+import { PII_RULES, redactPii } from "../lib/pii";
+import { decryptSecret, encryptSecret } from "../lib/vault";
+import { appConfig } from "../lib/env";
+import { NotFoundError } from "../lib/errors";
+import { createLogger } from "../lib/logger";
+import { PiiRule, PiiVaultInput, RevealedPii } from "../types/pii";
+
+const log = createLogger("redaction");
+
+/**
+ * Redaction Service
+ *
+ * User messages are redacted before they are saved: card numbers, emails,
+ * phone numbers... are replaced with typed placeholders ([CARD_1]) in the
+ * stored text, so the LLM, summaries and transcripts never see them. The
+ * originals are encrypted into the vault and only revealed to admins.
+ */
+export const redactionService = {
+  /**
+   * Detection rules enabled by PII_REDACTION_TYPES
+   */
+  getRules(): PiiRule[] {
+    return PII_RULES.filter((rule) => appConfig.pii.redactTypes.includes(rule.type));
+  },
+
+  /**
+   * Redact a user message before it is saved
+   * Returns the text to store and the encrypted originals to vault with it
+   * (none when no vault key is configured)
+   */
+  redact(text: string): { text: string; piiEntries: PiiVaultInput[] } {
+    const result = redactPii(text, this.getRules());
+    const vaultKey = appConfig.pii.vaultKey;
+
+    return {
+      text: result.text,
+      piiEntries: vaultKey
+        ? result.findings.map((finding) => ({
+            placeholder: finding.placeholder,
+            type: finding.type,
+            ciphertext: encryptSecret(finding.value, vaultKey),
+          }))
+        : [],
+    };
+  },
+
+  /**
+   * Decrypt the redacted values of a store's message, with its original text
+   * Every access is logged
+   */
+  async reveal(storeId: string, messageId: string): Promise<{
+    messageId: string;
+    text: string;
+    redactedText: string;
+    entries: RevealedPii[];
+  }> {
+    const message = await messageRepo.findById(storeId, messageId);
+    if (!message) {
+      throw new NotFoundError("Message not found");
+    }
+
+    const entries = await piiVaultRepo.listByMessage(messageId);
+    const vaultKey = appConfig.pii.vaultKey;
+    if (entries.length > 0 && !vaultKey) {
+      throw new Error("PII_VAULT_KEY is required to reveal redacted values");
+    }
+
+    const revealed = entries.map((entry) => ({
+      placeholder: entry.placeholder,
+      type: entry.type,
+      value: decryptSecret(entry.ciphertext, vaultKey!),
+    }));
+
+    log.warn("PII revealed via admin API", {
+      storeId,
+      messageId,
+      values: revealed.length,
+    });
+
+    return {
+      messageId,
+      text: revealed.reduce(
+        (text, entry) => text.replaceAll(entry.placeholder, entry.value),
+        message.text
+      ),
+      redactedText: message.text,
+      entries: revealed,
+    };
+  },
+};
@@ -0,0 +1,186 @@
+import { createHash, randomBytes } from "crypto";
+import { storeRepo } from "../repositories/store.repo";
+import { apiKeyRepo } from "../repositories/apiKey.repo";
+import { ConflictError, NotFoundError } from "../lib/errors";
+import {
+  ApiKeySummary,
+  CreatedApiKey,
+  StoreContext,
+  StoreInput,
+  StoreRateLimits,
+  StoreUpdate,
+} from "../types/store";
+
+const API_KEY_PREFIX = "pk_"; // Publishable: the key ships in the storefront's JS
+const API_KEY_BYTES = 24;
+const LISTED_PREFIX_LENGTH = 10;
+const CACHE_TTL_MS = 30 * 1000; // Other instances pick up changes and revocations within 30s
+
+// Store per API key hash (only keys that resolved)
+const cachedKeys = new Map<string, { store: StoreContext; expiresAt: number }>();
+let cachedOrigins: { origins: Set<string>; expiresAt: number } | null = null;
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toStoreContext(store: {
+  id: string;
+  slug: string;
+  name: string;
+  allowedOrigins: string[];
+  rateLimits: unknown;
+}): StoreContext {
+  const { id, slug, name, allowedOrigins } = store;
+  return {
+    id,
+    slug,
+    name,
+    allowedOrigins,
+    rateLimits: (store.rateLimits ?? {}) as StoreRateLimits,
+  };
+}
+
+function toApiKeySummary(apiKey: ApiKeySummary): ApiKeySummary {
+  const { id, name, prefix, createdAt, revokedAt } = apiKey;
+  return { id, name, prefix, createdAt, revokedAt };
+}
+
+/**
+ * Store Service
+ *
+ * One deployment serves several storefronts. Each store has its own
+ * conversations, accounts, prompt versions, CORS origins and rate limits,
+ * and is identified on every request by one of its API keys:
+ * - Keys are random, returned once at creation and stored as sha256 hashes
+ * - Keys are publishable (they ship in the storefront); browsers can only
+ *   use them from the store's allowed origins
+ */
+export const storeService = {
+  /**
+   * Resolve an API key to its store (cached briefly)
+   * Returns null for unknown or revoked keys
+   */
+  async resolveApiKey(key: string): Promise<StoreContext | null> {
+    const keyHash = hashApiKey(key);
+    const cached = cachedKeys.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.store;
+    }
+
+    const apiKey = await apiKeyRepo.findActiveByHash(keyHash);
+    if (!apiKey) {
+      cachedKeys.delete(keyHash);
+      return null;
+    }
+
+    const store = toStoreContext(apiKey.store);
+    cachedKeys.set(keyHash, { store, expiresAt: Date.now() + CACHE_TTL_MS });
+    return store;
+  },
+
+  /**
+   * Whether a browser origin may use the store's keys
+   * Requests without an Origin header (servers, curl) are not browser requests
+   */
+  isOriginAllowed(store: StoreContext, origin: string | undefined): boolean {
+    return !origin || store.allowedOrigins.includes(origin);
+  },
+
+  /**
+   * Whether any store allows an origin (cached briefly)
+   * CORS preflights carry no API key, so they are answered for every known
+   * origin; identifyStore then checks the origin against the key's store
+   */
+  async isKnownOrigin(origin: string): Promise<boolean> {
+    if (!cachedOrigins || cachedOrigins.expiresAt <= Date.now()) {
+      cachedOrigins = {
+        origins: new Set(await storeRepo.listAllowedOrigins()),
+        expiresAt: Date.now() + CACHE_TTL_MS,
+      };
+    }
+    return cachedOrigins.origins.has(origin);
+  },
+
+  async list() {
+    return storeRepo.list();
+  },
+
+  async getBySlug(slug: string) {
+    const store = await storeRepo.findBySlug(slug);
+    if (!store) {
+      throw new NotFoundError(`No store with slug "${slug}"`);
+    }
+    return store;
+  },
+
+  async create(input: StoreInput) {
+    if (await storeRepo.findBySlug(input.slug)) {
+      throw new ConflictError(`A store with slug "${input.slug}" already exists`);
+    }
+
+    const store = await storeRepo.create(input);
+    cachedOrigins = null;
+    return store;
+  },
+
+  /**
+   * Update the name, allowed origins and/or rate limits of a store
+   */
+  async update(id: string, input: StoreUpdate) {
+    const store = await storeRepo.update(id, input);
+    if (!store) {
+      throw new NotFoundError("Store not found");
+    }
+
+    this.clearCaches();
+    return store;
+  },
+
+  async listApiKeys(storeId: string): Promise<ApiKeySummary[]> {
+    await this.getOrThrow(storeId);
+    const apiKeys = await apiKeyRepo.listByStore(storeId);
+    return apiKeys.map(toApiKeySummary);
+  },
+
+  /**
+   * Create an API key for a store
+   * The key is only returned here; listings show its prefix
+   */
+  async createApiKey(storeId: string, name: string): Promise<CreatedApiKey> {
+    await this.getOrThrow(storeId);
+
+    const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString("base64url")}`;
+    const apiKey = await apiKeyRepo.create({
+      storeId,
+      name,
+      prefix: key.slice(0, LISTED_PREFIX_LENGTH),
+      keyHash: hashApiKey(key),
+    });
+
+    return { ...toApiKeySummary(apiKey), key };
+  },
+
+  /**
+   * Revoke an API key; requests using it are rejected from then on
+   */
+  async revokeApiKey(storeId: string, keyId: string): Promise<void> {
+    if (!(await apiKeyRepo.revoke(storeId, keyId))) {
+      throw new NotFoundError("API key not found");
+    }
+    this.clearCaches();
+  },
+
+  async getOrThrow(id: string) {
+    const store = await storeRepo.findById(id);
+    if (!store) {
+      throw new NotFoundError("Store not found");
+    }
+    return store;
+  },
+
+  clearCaches(): void {
+    cachedKeys.clear();
+    cachedOrigins = null;
+  },
+};
@@ -1,11 +1,55 @@
 import { prisma } from "../lib/prisma";
+import { getRedisClient } from "../lib/redis";
+import { createJobQueue } from "../lib/jobQueue";
+import { formatTranscript } from "../lib/transcript";
 import { llmService } from "./llm.service";
+import { usageService } from "./usage.service";
 import { messageRepo } from "../repositories/message.repo";
+import { conversationSummaryRepo } from "../repositories/conversationSummary.repo";
+import { NotFoundError, ConflictError } from "../lib/errors";
+import { createLogger } from "../lib/logger";
+import { summaryDuration, summaryRunsTotal } from "../lib/metrics";
+import { GeneratedSummary, SummaryJob } from "../types/summary";
+
+const log = createLogger("summary");
 
 // Infer types from Prisma client (non-nullable versions)
 type Conversation = NonNullable<Awaited<ReturnType<typeof prisma.conversation.findUnique>>>;
 type Message = NonNullable<Awaited<ReturnType<typeof prisma.message.findFirst>>>;
 
+type SummarizeOptions = {
+  // Store a placeholder summary if the LLM fails, instead of throwing
+  allowFallback?: boolean;
+};
+
+// A pending marker de-duplicates jobs; it expires so a lost job is re-enqueued
+const SUMMARY_PENDING_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Summarization jobs, processed by the summary worker
+ * Retries back off 2s, 4s, 8s, 16s before the job is dead-lettered
+ */
+export const summaryQueue = createJobQueue<SummaryJob>("summary", {
+  maxAttempts: 5,
+  backoffMs: 2000,
+});
+
+function pendingKey(conversationId: string): string {
+  return `summary:pending:${conversationId}`;
+}
+
+/**
+ * Count a summarization run (summary_runs_total, summary_duration_seconds)
+ */
+function recordSummaryRun(
+  kind: "initial" | "re_summary",
+  outcome: "success" | "fallback" | "error",
+  startedAt: number
+): void {
+  summaryRunsTotal.inc({ kind, outcome });
+  summaryDuration.observe({ kind }, (Date.now() - startedAt) / 1000);
+}
+
 /**
  * SummaryManager Service
  * 
@@ -15,106 +59,205 @@ type Message = NonNullable<Awaited<ReturnType<typeof prisma.message.findFirst>>>
  * - Raw messages are immutable and stored forever
  * 
  * Summarization Rules:
- * 1. If total messages > 20 AND no summary exists → summarize
- * 2. Summary covers messages 1 → (N - 5)
- * 3. If raw window grows > 10 messages, re-summarize
+ * 1. The context builder decides when and how far to summarize (token budget)
+ *    and the work is queued, so replies never wait for a summary
+ * 2. Summary covers the active branch's messages 1 → summaryUntilSeq (by
+ *    message seq, not count); branches can't diverge inside that range
+ * 3. An existing summary is extended with the newly covered messages
  * 4. Replace old summary, do NOT append summaries
+ * 5. Every generated summary is kept as a version; the active one can be
+ *    rolled back or regenerated
  */
 export const summaryService = {
   /**
-   * Check if summarization is needed and trigger if required
+   * Queue summarization of the messages up to `untilSeq`
+   * Only one job per conversation is pending at a time; later requests are
+   * dropped and re-planned on the next turn.
+   *
+   * Never throws: the reply continues with the current summary.
+   */
+  async requestSummary(
+    storeId: string,
+    conversationId: string,
+    untilSeq: number
+  ): Promise<void> {
+    try {
+      const marked = await getRedisClient().set(
+        pendingKey(conversationId),
+        String(untilSeq),
+        "PX",
+        SUMMARY_PENDING_TTL_MS,
+        "NX"
+      );
+      if (!marked) {
+        return;
+      }
+
+      await summaryQueue.enqueue({ storeId, conversationId, untilSeq });
+    } catch (error) {
+      log.error("Failed to enqueue summary job", { conversationId, untilSeq, err: error });
+    }
+  },
+
+  /**
+   * Allow a new job to be queued for the conversation
+   * Called by the worker once a job completed or was dead-lettered
+   */
+  async clearPending(conversationId: string): Promise<void> {
+    await getRedisClient().del(pendingKey(conversationId));
+  },
+
+  /**
+   * Extend the conversation summary to cover the messages up to `untilSeq`
    * 
-   * @param conversation - The conversation to check
-   * @param totalMessageCount - Total number of messages in conversation
+   * @param conversation - The conversation to summarize
+   * @param untilSeq - Seq of the last message the summary must cover afterwards
    */
-  async checkAndSummarize(
-    conversation: Conversation | null,
-    totalMessageCount: number
+  async summarizeUntil(
+    conversation: Conversation,
+    untilSeq: number,
+    options: SummarizeOptions = {}
   ): Promise<void> {
-    // Guard: conversation must exist
-    if (!conversation) {
+    if (untilSeq <= (conversation.summaryUntilSeq ?? 0)) {
       return;
     }
 
-    const SUMMARY_THRESHOLD = 20; // Summarize if total messages > 20
-    const RAW_WINDOW_SIZE = 5; // Keep last 5 messages as raw
-    const RE_SUMMARY_THRESHOLD = 10; // Re-summarize if raw window > 10
-
-    // Case 1: Initial summarization trigger
-    // If total messages > 20 AND no summary exists
-    if (totalMessageCount > SUMMARY_THRESHOLD && !conversation.summary) {
-      const messagesToSummarize = totalMessageCount - RAW_WINDOW_SIZE;
-      await this.createSummary(conversation.id, messagesToSummarize);
+    if (!conversation.summary) {
+      await this.createSummary(conversation.storeId, conversation.id, untilSeq, options);
       return;
     }
 
-    // Case 2: Re-summarization trigger
-    // If summary exists, check if raw window has grown too large
-    if (conversation.summary && conversation.summaryUntil !== null) {
-      const rawWindowSize = totalMessageCount - conversation.summaryUntil;
-      
-      if (rawWindowSize > RE_SUMMARY_THRESHOLD) {
-        // Re-summarize: existing summary + additional raw messages
-        await this.reSummarize(conversation.id, totalMessageCount);
-      }
+    // Existing summary + newly covered raw messages
+    await this.reSummarize(conversation.storeId, conversation.id, untilSeq, options);
+  },
+
+  /**
+   * List a conversation's summary versions, newest first
+   */
+  async listVersions(storeId: string, conversationId: string) {
+    await this.getConversationOrThrow(storeId, conversationId);
+    return conversationSummaryRepo.listByConversation(conversationId);
+  },
+
+  /**
+   * Make an earlier summary version active again
+   * Messages after its coverage return to the raw history and are
+   * re-summarized from it once they exceed the budget
+   */
+  async rollback(storeId: string, conversationId: string, summaryId: string) {
+    await this.getConversationOrThrow(storeId, conversationId);
+    const summary = await conversationSummaryRepo.findById(summaryId);
+    if (!summary || summary.conversationId !== conversationId) {
+      throw new NotFoundError(`Summary ${summaryId} not found`);
+    }
+    if (summary.isActive) {
+      throw new ConflictError(`Summary version ${summary.version} is already active`);
     }
+
+    return conversationSummaryRepo.activate(summaryId);
+  },
+
+  /**
+   * Queue regeneration of the active summary from the raw messages
+   * Summarizes the same range from scratch, dropping errors accumulated
+   * by earlier re-summaries
+   */
+  async requestRegeneration(storeId: string, conversationId: string) {
+    const conversation = await this.getConversationOrThrow(storeId, conversationId);
+    if (!conversation.summary || !conversation.summaryUntilSeq) {
+      throw new ConflictError(`Conversation ${conversationId} has no summary`);
+    }
+
+    return summaryQueue.enqueue({
+      storeId,
+      conversationId,
+      untilSeq: conversation.summaryUntilSeq,
+      regenerate: true,
+    });
+  },
+
+  async getConversationOrThrow(
+    storeId: string,
+    conversationId: string
+  ): Promise<Conversation> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId, storeId },
+    });
+    if (!conversation) {
+      throw new NotFoundError(`Conversation ${conversationId} not found`);
+    }
+    return conversation;
   },
 
   /**
    * Create initial summary for a conversation
-   * Summarizes messages from 1 to (totalCount - 5)
+   * Summarizes messages from seq 1 to untilSeq
    * 
+   * @param storeId - The store the conversation belongs to
    * @param conversationId - The conversation ID
-   * @param messageCountToSummarize - Number of messages to include in summary
+   * @param untilSeq - Seq of the last message to include in summary
    */
   async createSummary(
+    storeId: string,
     conversationId: string,
-    messageCountToSummarize: number
+    untilSeq: number,
+    options: SummarizeOptions = {}
   ): Promise<void> {
-    // Get messages to summarize (oldest first, up to messageCountToSummarize)
-    const allMessages = await prisma.message.findMany({
-      where: { conversationId },
-      orderBy: { createdAt: "asc" },
-      take: messageCountToSummarize,
-    });
+    // Get active-branch messages to summarize (oldest first, up to untilSeq)
+    const allMessages = await messageRepo.getRange(storeId, conversationId, 1, untilSeq);
 
     if (allMessages.length === 0) {
       return;
     }
 
     // Generate summary using LLM
-    const summaryText = await this.generateSummary(allMessages);
-
-    // Update conversation with summary
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: {
-        summary: summaryText,
-        summaryUntil: messageCountToSummarize,
-      },
+    const { text, usedFallback, usage } = await this.generateSummary(
+      allMessages,
+      options
+    );
+
+    // Store as a new version and make it the conversation's summary
+    const model = llmService.getModel();
+    const summary = await conversationSummaryRepo.createActive({
+      conversationId,
+      content: text,
+      fromSeq: 1,
+      untilSeq,
+      baseSummaryId: null,
+      model,
+      promptType: "initial",
+      usedFallback,
     });
+    if (usage) {
+      await usageService.record({
+        conversationId,
+        kind: "summary",
+        model,
+        usage,
+        summaryId: summary.id,
+      });
+    }
 
-    console.log(
-      `Created summary for conversation ${conversationId}, covering ${messageCountToSummarize} messages`
-    );
+    log.info("Summary created", { conversationId, untilSeq });
   },
 
   /**
    * Re-summarize conversation
    * Combines existing summary with new raw messages
    * 
+   * @param storeId - The store the conversation belongs to
    * @param conversationId - The conversation ID
-   * @param currentTotalCount - Current total message count
+   * @param newUntilSeq - Seq of the last message the new summary covers
    */
   async reSummarize(
+    storeId: string,
     conversationId: string,
-    currentTotalCount: number
+    newUntilSeq: number,
+    options: SummarizeOptions = {}
   ): Promise<void> {
-    const RAW_WINDOW_SIZE = 5;
-
     // Get existing summary
     const conversation = await prisma.conversation.findUnique({
-      where: { id: conversationId },
+      where: { id: conversationId, storeId },
     });
 
     if (!conversation || !conversation.summary) {
@@ -122,54 +265,69 @@ export const summaryService = {
     }
 
     // Get new messages that need to be added to summary
-    // Messages from (summaryUntil + 1) to (currentTotalCount - 5)
-    const newMessageStart = (conversation.summaryUntil || 0) + 1;
-    const newMessageEnd = currentTotalCount - RAW_WINDOW_SIZE;
+    // Messages from (summaryUntilSeq + 1) to newUntilSeq
+    const fromSeq = (conversation.summaryUntilSeq || 0) + 1;
 
-    if (newMessageEnd < newMessageStart) {
+    if (newUntilSeq < fromSeq) {
       return; // No new messages to summarize
     }
 
-    const newMessages = await prisma.message.findMany({
-      where: { conversationId },
-      orderBy: { createdAt: "asc" },
-      skip: newMessageStart - 1,
-      take: newMessageEnd - newMessageStart + 1,
-    });
+    const newMessages = await messageRepo.getRange(
+      storeId,
+      conversationId,
+      fromSeq,
+      newUntilSeq
+    );
 
     if (newMessages.length === 0) {
       return;
     }
 
     // Generate new summary combining old summary + new messages
-    const newSummaryText = await this.generateReSummary(
+    const { text, usedFallback, usage } = await this.generateReSummary(
       conversation.summary,
-      newMessages
+      newMessages,
+      options
     );
 
-    // Update conversation with new summary (REPLACE, don't append)
-    await prisma.conversation.update({
-      where: { id: conversationId },
-      data: {
-        summary: newSummaryText,
-        summaryUntil: newMessageEnd,
-      },
+    // Store as a new version that REPLACES the active one (don't append)
+    const base = await conversationSummaryRepo.findActive(conversationId);
+    const model = llmService.getModel();
+    const summary = await conversationSummaryRepo.createActive({
+      conversationId,
+      content: text,
+      fromSeq,
+      untilSeq: newUntilSeq,
+      baseSummaryId: base?.id ?? null,
+      model,
+      promptType: "re_summary",
+      usedFallback,
     });
+    if (usage) {
+      await usageService.record({
+        conversationId,
+        kind: "summary",
+        model,
+        usage,
+        summaryId: summary.id,
+      });
+    }
 
-    console.log(
-      `Re-summarized conversation ${conversationId}, now covering ${newMessageEnd} messages`
-    );
+    log.info("Conversation re-summarized", { conversationId, untilSeq: newUntilSeq });
   },
 
   /**
    * Generate summary from messages using LLM
    */
-  async generateSummary(messages: Message[]): Promise<string> {
-    // Filter out any null messages and ensure type safety
-    const validMessages = messages.filter((m): m is Message => m !== null);
-    const conversationText = validMessages
-      .map((m) => `${m.sender === "user" ? "Customer" : "Agent"}: ${m.text}`)
-      .join("\n");
+  async generateSummary(
+    messages: Message[],
+    { allowFallback = true }: SummarizeOptions = {}
+  ): Promise<GeneratedSummary> {
+    // Filter out any null messages and turns a guardrail fired on
+    const validMessages = messages.filter(
+      (m): m is Message => m !== null && !m.guardrailRule
+    );
+    const conversationText = formatTranscript(validMessages);
 
     const prompt = `You are summarizing a customer support conversation. Create a concise summary that captures:
 - Customer's main questions and concerns
@@ -182,14 +340,25 @@ ${conversationText}
 
 Provide a clear, factual summary:`;
 
+    const startedAt = Date.now();
     try {
       // Use LLM service to generate summary
-      const summary = await llmService.generateSummary(prompt);
-      return summary;
+      const { text, usage } = await llmService.generateSummary(prompt);
+      recordSummaryRun("initial", "success", startedAt);
+      return { text, usedFallback: false, usage };
     } catch (error) {
-      console.error("Error generating summary:", error);
+      log.error("Error generating summary", { allowFallback, err: error });
+      if (!allowFallback) {
+        recordSummaryRun("initial", "error", startedAt);
+        throw error;
+      }
       // Fallback: create a simple text summary
-      return `Conversation summary: ${validMessages.length} messages exchanged. Customer inquiries and agent responses recorded.`;
+      recordSummaryRun("initial", "fallback", startedAt);
+      return {
+        text: `Conversation summary: ${validMessages.length} messages exchanged. Customer inquiries and agent responses recorded.`,
+        usedFallback: true,
+        usage: null,
+      };
     }
   },
 
@@ -198,13 +367,14 @@ Provide a clear, factual summary:`;
    */
   async generateReSummary(
     existingSummary: string,
-    newMessages: Message[]
-  ): Promise<string> {
-    // Filter out any null messages and ensure type safety
-    const validMessages = newMessages.filter((m): m is Message => m !== null);
-    const newConversationText = validMessages
-      .map((m) => `${m.sender === "user" ? "Customer" : "Agent"}: ${m.text}`)
-      .join("\n");
+    newMessages: Message[],
+    { allowFallback = true }: SummarizeOptions = {}
+  ): Promise<GeneratedSummary> {
+    // Filter out any null messages and turns a guardrail fired on
+    const validMessages = newMessages.filter(
+      (m): m is Message => m !== null && !m.guardrailRule
+    );
+    const newConversationText = formatTranscript(validMessages);
 
     const prompt = `You are updating a conversation summary. Combine the existing summary with new messages to create an updated summary.
 
@@ -222,13 +392,24 @@ Create an updated summary that:
 
 Updated summary:`;
 
+    const startedAt = Date.now();
     try {
-      const updatedSummary = await llmService.generateSummary(prompt);
-      return updatedSummary;
+      const { text, usage } = await llmService.generateSummary(prompt);
+      recordSummaryRun("re_summary", "success", startedAt);
+      return { text, usedFallback: false, usage };
     } catch (error) {
-      console.error("Error generating re-summary:", error);
+      log.error("Error generating re-summary", { allowFallback, err: error });
+      if (!allowFallback) {
+        recordSummaryRun("re_summary", "error", startedAt);
+        throw error;
+      }
       // Fallback: append to existing summary
-      return `${existingSummary}\n\nAdditional messages: ${validMessages.length} more messages exchanged.`;
+      recordSummaryRun("re_summary", "fallback", startedAt);
+      return {
+        text: `${existingSummary}\n\nAdditional messages: ${validMessages.length} more messages exchanged.`,
+        usedFallback: true,
+        usage: null,
+      };
     }
   },
 };
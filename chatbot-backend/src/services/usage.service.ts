@@ -0,0 +1,174 @@
+import { tokenUsageRepo } from "../repositories/tokenUsage.repo";
+import { appConfig } from "../lib/env";
+import { ValidationError } from "../lib/errors";
+import { createLogger } from "../lib/logger";
+import { llmTokensTotal, tokenBudgetRejections } from "../lib/metrics";
+import {
+  TokenBudgetDecision,
+  TokenUsageEntry,
+  TokenUsageKind,
+  UsageGrouping,
+  UsageReportRow,
+} from "../types/usage";
+
+const log = createLogger("usage");
+
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_ROWS = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CONVERSATION_LIMIT_REPLY =
+  "This conversation has reached its usage limit. Please start a new conversation to keep chatting.";
+const DAILY_LIMIT_REPLY =
+  "You've reached today's chat limit. Please come back tomorrow, or contact our support team if you need help sooner.";
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Sort rows so the biggest consumers surface first; days chronologically
+ */
+function compareRows(groupBy: UsageGrouping) {
+  return (a: UsageReportRow, b: UsageReportRow): number =>
+    groupBy === "day" ? a.key.localeCompare(b.key) : b.totalTokens - a.totalTokens;
+}
+
+/**
+ * Usage Service
+ *
+ * Ledger of the tokens every LLM task consumed (replies, summaries, handoff
+ * notes), the budgets enforced on it and aggregated reports for cost
+ * attribution.
+ */
+export const usageService = {
+  /**
+   * Add the tokens of one LLM task to the ledger
+   * Never throws: a failed write must not fail the reply or summary
+   */
+  async record(entry: TokenUsageEntry): Promise<void> {
+    try {
+      await tokenUsageRepo.create(entry);
+      llmTokensTotal.inc(
+        { kind: entry.kind, model: entry.model, type: "prompt" },
+        entry.usage.promptTokens
+      );
+      llmTokensTotal.inc(
+        { kind: entry.kind, model: entry.model, type: "completion" },
+        entry.usage.completionTokens
+      );
+    } catch (error) {
+      log.error("Failed to record token usage", {
+        conversationId: entry.conversationId,
+        kind: entry.kind,
+        err: error,
+      });
+    }
+  },
+
+  /**
+   * Check the token budgets before a reply is generated
+   * The conversation's budget is checked first, then the client's daily one:
+   * the signed-in user's, otherwise the guest IP's (X-Client-Id is chosen by
+   * the browser, so a guest could leave it out or rotate it)
+   */
+  async checkBudget(
+    conversation: { id: string; storeId: string },
+    client: { userId?: string; ip: string }
+  ): Promise<TokenBudgetDecision> {
+    const { perConversation, perClientDaily } = appConfig.tokenBudget;
+    let decision: TokenBudgetDecision = { allowed: true };
+
+    if (perConversation > 0) {
+      const used = await tokenUsageRepo.sumByConversation(conversation.id);
+      if (used >= perConversation) {
+        decision = {
+          allowed: false,
+          scope: "conversation",
+          ruleId: "conversation_token_budget",
+          used,
+          limit: perConversation,
+          safeResponse: CONVERSATION_LIMIT_REPLY,
+        };
+      }
+    }
+
+    if (decision.allowed && perClientDaily > 0) {
+      const used = await tokenUsageRepo.sumByClient({
+        storeId: conversation.storeId,
+        userId: client.userId,
+        ip: client.ip,
+        since: startOfUtcDay(new Date()),
+      });
+      if (used >= perClientDaily) {
+        decision = {
+          allowed: false,
+          scope: "client_daily",
+          ruleId: "client_daily_token_budget",
+          used,
+          limit: perClientDaily,
+          safeResponse: DAILY_LIMIT_REPLY,
+        };
+      }
+    }
+
+    if (!decision.allowed) {
+      log.warn("Token budget reached", {
+        conversationId: conversation.id,
+        scope: decision.scope,
+        used: decision.used,
+        limit: decision.limit,
+      });
+      tokenBudgetRejections.inc({ scope: decision.scope });
+    }
+    return decision;
+  },
+
+  /**
+   * Aggregate token usage by day, conversation or client
+   * Defaults to the last 30 days
+   */
+  async report(
+    storeId: string,
+    params: { groupBy: UsageGrouping; from?: Date; to?: Date }
+  ): Promise<{ from: Date; to: Date; rows: UsageReportRow[] }> {
+    const to = params.to ?? new Date();
+    const from = params.from ?? new Date(to.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+    if (from >= to) {
+      throw new ValidationError("from must be before to");
+    }
+
+    const sums = await tokenUsageRepo.sumByGroup({
+      storeId,
+      groupBy: params.groupBy,
+      from,
+      to,
+    });
+
+    // Fold (group, kind) sums into one row per group
+    const rows = new Map<string, UsageReportRow>();
+    for (const { key, kind, calls, promptTokens, completionTokens } of sums) {
+      const row = rows.get(key) ?? {
+        key,
+        calls: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        byKind: {},
+      };
+
+      const tokens = promptTokens + completionTokens;
+      row.calls += calls;
+      row.promptTokens += promptTokens;
+      row.completionTokens += completionTokens;
+      row.totalTokens += tokens;
+      const tag = kind as TokenUsageKind;
+      row.byKind[tag] = (row.byKind[tag] ?? 0) + tokens;
+
+      rows.set(key, row);
+    }
+
+    const result = [...rows.values()].sort(compareRows(params.groupBy));
+    return { from, to, rows: result.slice(0, MAX_REPORT_ROWS) };
+  },
+};
@@ -0,0 +1,31 @@
+import { ToolDefinition } from "../types/tool";
+import { handoffService } from "../services/handoff.service";
+
+/**
+ * escalate_to_human
+ * Put the conversation in the queue for a human support agent
+ */
+export const escalationTool: ToolDefinition<{ reason: string }> = {
+  name: "escalate_to_human",
+  description:
+    "Hand the conversation over to a human support agent. Use it when the customer asks for a person, or when you cannot help because the request is outside the policies and information you have. Tell the customer an agent will join the conversation.",
+  parameters: {
+    type: "object",
+    properties: {
+      reason: {
+        type: "string",
+        description: "One sentence for the agent: what the customer needs and why you could not help",
+      },
+    },
+    required: ["reason"],
+  },
+
+  async handler({ reason }, { storeId, conversationId }) {
+    const escalated = await handoffService.escalate(storeId, conversationId, reason);
+    return {
+      escalated: true,
+      alreadyInQueue: !escalated,
+      message: "A human support agent has been notified and will reply in this conversation.",
+    };
+  },
+};
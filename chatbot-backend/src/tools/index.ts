@@ -0,0 +1,11 @@
+import { toolRegistry } from "./registry";
+import { storeTimeTool } from "./storeTime.tool";
+import { storePolicyTool } from "./storePolicy.tool";
+import { escalationTool } from "./escalation.tool";
+
+// Built-in tools available to the support agent
+toolRegistry.register(storeTimeTool);
+toolRegistry.register(storePolicyTool);
+toolRegistry.register(escalationTool);
+
+export { toolRegistry };
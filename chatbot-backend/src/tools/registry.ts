@@ -0,0 +1,118 @@
+import { JsonSchema, LLMToolCall, LLMToolDefinition } from "../types/llm";
+import { createLogger } from "../lib/logger";
+import {
+  ToolContext,
+  ToolDefinition,
+  ToolInvocationResult,
+} from "../types/tool";
+
+const log = createLogger("tools");
+
+const tools = new Map<string, ToolDefinition>();
+
+/**
+ * Validate tool arguments against the declared parameter schema
+ * Covers what tool schemas use: required keys, primitive types and enums.
+ * Returns an error message, or null if the arguments are valid.
+ */
+function validateArguments(
+  schema: JsonSchema,
+  args: Record<string, unknown>
+): string | null {
+  for (const key of schema.required ?? []) {
+    if (args[key] === undefined) {
+      return `Missing required argument "${key}"`;
+    }
+  }
+
+  for (const [key, value] of Object.entries(args)) {
+    const property = schema.properties?.[key];
+    if (!property) {
+      return `Unknown argument "${key}"`;
+    }
+
+    const actualType = Array.isArray(value)
+      ? "array"
+      : Number.isInteger(value)
+        ? "integer"
+        : typeof value;
+    const typeMatches =
+      actualType === property.type ||
+      (property.type === "number" && actualType === "integer");
+    if (!typeMatches) {
+      return `Argument "${key}" must be of type ${property.type}`;
+    }
+
+    if (property.enum && !property.enum.includes(value as string | number)) {
+      return `Argument "${key}" must be one of: ${property.enum.join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Tool Registry
+ *
+ * Backend modules register typed tools here; the reply loop in llmService
+ * offers them to the model and invokes them when the model asks.
+ */
+export const toolRegistry = {
+  /**
+   * Register a tool (names must be unique)
+   */
+  register<TArgs>(tool: ToolDefinition<TArgs>): void {
+    if (tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    tools.set(tool.name, tool as unknown as ToolDefinition);
+  },
+
+  /**
+   * Tool declarations as offered to the model
+   */
+  getDefinitions(): LLMToolDefinition[] {
+    return Array.from(tools.values()).map(({ name, description, parameters }) => ({
+      name,
+      description,
+      parameters,
+    }));
+  },
+
+  /**
+   * Invoke a tool requested by the model
+   * Never throws: unknown tools, invalid arguments and handler failures are
+   * returned as errors so the model can recover in the next iteration.
+   */
+  async invoke(
+    call: LLMToolCall,
+    context: ToolContext
+  ): Promise<ToolInvocationResult> {
+    const startTime = Date.now();
+    const outcome = (result: unknown, error: string | null) => ({
+      name: call.name,
+      arguments: call.arguments,
+      result,
+      error,
+      durationMs: Date.now() - startTime,
+    });
+
+    const tool = tools.get(call.name);
+    if (!tool) {
+      return outcome(null, `Unknown tool "${call.name}"`);
+    }
+
+    const validationError = validateArguments(tool.parameters, call.arguments);
+    if (validationError) {
+      return outcome(null, validationError);
+    }
+
+    try {
+      const result = await tool.handler(call.arguments, context);
+      return outcome(result ?? null, null);
+    } catch (error) {
+      log.error("Tool failed", { tool: call.name, err: error });
+      return outcome(null, "Tool execution failed");
+    }
+  },
+};
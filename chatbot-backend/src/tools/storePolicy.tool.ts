@@ -0,0 +1,37 @@
+import { ToolDefinition } from "../types/tool";
+import { promptService } from "../services/prompt.service";
+
+/**
+ * get_store_policy
+ * Look up the exact wording of a store policy from the published prompt version
+ */
+export const storePolicyTool: ToolDefinition<{ policy: string }> = {
+  name: "get_store_policy",
+  description:
+    "Look up the exact text of a store policy (e.g. shipping, returns, support_hours). Use this before answering detailed policy questions.",
+  parameters: {
+    type: "object",
+    properties: {
+      policy: {
+        type: "string",
+        description: "Policy key, e.g. shipping, returns, support_hours",
+      },
+    },
+    required: ["policy"],
+  },
+
+  async handler({ policy }, { storeId }) {
+    const section = await promptService.getPolicy(storeId, policy);
+    if (section) {
+      return { policy, title: section.title, text: section.content };
+    }
+
+    const { sections } = await promptService.getActive(storeId);
+    return {
+      error: `Unknown policy "${policy}"`,
+      availablePolicies: sections
+        .filter((s) => s.kind === "policy")
+        .map((s) => s.key),
+    };
+  },
+};
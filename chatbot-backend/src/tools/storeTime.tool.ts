@@ -0,0 +1,51 @@
+import { ToolDefinition } from "../types/tool";
+import {
+  STORE_TIMEZONE,
+  STORE_TIMEZONE_LABEL,
+  SUPPORT_HOURS,
+} from "../lib/storePolicies";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * get_store_time
+ * Current date and time at the store, and whether human support is open
+ */
+export const storeTimeTool: ToolDefinition = {
+  name: "get_store_time",
+  description:
+    "Get the current date and time in the store's timezone and whether customer support is currently open.",
+  parameters: { type: "object", properties: {} },
+
+  handler() {
+    const now = new Date();
+    const parts = Object.fromEntries(
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: STORE_TIMEZONE,
+        weekday: "short",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      })
+        .formatToParts(now)
+        .map((part) => [part.type, part.value])
+    );
+
+    const weekday = WEEKDAYS.indexOf(parts.weekday);
+    const hour = parseInt(parts.hour, 10);
+    const supportOpen =
+      SUPPORT_HOURS.days.includes(weekday) &&
+      hour >= SUPPORT_HOURS.openHour &&
+      hour < SUPPORT_HOURS.closeHour;
+
+    return {
+      timezone: `${STORE_TIMEZONE_LABEL} (${STORE_TIMEZONE})`,
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      localTime: `${parts.weekday} ${parts.hour}:${parts.minute}`,
+      supportOpen,
+    };
+  },
+};
@@ -0,0 +1,23 @@
+/**
+ * Authenticated user attached to the request by the auth middleware
+ */
+export type AuthUser = {
+  id: string;
+  email: string;
+  storeId: string; // Store the account belongs to
+};
+
+export type UserRole = "customer" | "agent";
+
+export type PublicUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: UserRole;
+  createdAt: Date;
+};
+
+export type AuthResult = {
+  token: string;
+  user: PublicUser;
+};
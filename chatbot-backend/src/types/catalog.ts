@@ -0,0 +1,14 @@
+/**
+ * Product as imported into the catalog and exposed to the prompt builder
+ * Price is kept as a decimal string so it is quoted exactly as stored
+ */
+export type CatalogProduct = {
+  sku: string;
+  title: string;
+  description: string;
+  price: string;
+  currency: string;
+  stock: number;
+  category: string | null;
+  attributes: Record<string, unknown>;
+};
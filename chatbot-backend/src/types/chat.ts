@@ -1,4 +1,5 @@
 import { prisma } from "../lib/prisma";
+import { ConversationStatus } from "./handoff";
 
 // Infer Sender type from Prisma client (automatically stays in sync with enum)
 type Message = Awaited<ReturnType<typeof prisma.message.create>>;
@@ -8,3 +9,47 @@ export type ChatHistoryMessage = {
   sender: Sender;
   text: string;
 };
+
+/**
+ * Events emitted while streaming a reply
+ * - session: conversation resolved (sent before any text)
+ * - chunk: partial reply text as produced by the model
+ * - tool: the agent invoked a tool (name only, results stay server-side)
+ * - replace: a guardrail withheld the reply; show this text instead of the
+ *   chunks received so far
+ * - done: full reply, persisted as the AI message (messageId is used to rate it,
+ *   userMessageId is the message it answers). reply and messageId are null
+ *   while a human agent handles the conversation; status tells the client
+ */
+export type ChatStreamEvent =
+  | { type: "session"; sessionId: string }
+  | { type: "chunk"; text: string }
+  | { type: "tool"; name: string }
+  | { type: "replace"; text: string }
+  | {
+      type: "done";
+      reply: string | null;
+      sessionId: string;
+      messageId: string | null;
+      userMessageId: string;
+      status: ConversationStatus;
+    };
+
+/**
+ * Cursor for paging through history backwards
+ * before = seq of the oldest message already loaded (exclusive)
+ */
+export type HistoryPageParams = {
+  before?: number;
+  limit?: number;
+};
+
+/**
+ * Start a new branch from an earlier turn instead of continuing the active one
+ * - edit: resend a user message with new text
+ * - regenerate: produce another reply to the user message before an AI message
+ */
+export type BranchAction = {
+  type: "edit" | "regenerate";
+  messageId: string;
+};
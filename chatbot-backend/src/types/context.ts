@@ -0,0 +1,37 @@
+import { CatalogProduct } from "./catalog";
+import { KnowledgeMatch } from "./knowledge";
+import { ChatHistoryMessage } from "./chat";
+
+/**
+ * Message after the summary's coverage, eligible for the raw window
+ */
+export type HistoryMessage = ChatHistoryMessage & { id: string };
+
+/**
+ * Token accounting for one assembled prompt, for logging
+ */
+export type ContextLayout = {
+  model: string;
+  budget: number;
+  totalTokens: number;
+  systemTokens: number;
+  summaryTokens: number;
+  summaryUntilSeq: number; // Seq of the last message covered by the summary
+  products: { count: number; tokens: number };
+  references: { count: number; tokens: number };
+  rawWindow: { count: number; tokens: number; firstMessageId: string | null };
+  userMessageTokens: number;
+  // Unsummarized messages that did not fit; 0 unless the summary job fell behind
+  droppedMessages: number;
+};
+
+/**
+ * Everything the prompt is built from, sized to the model's token budget
+ */
+export type AssembledContext = {
+  summary: string | null;
+  products: CatalogProduct[];
+  references: KnowledgeMatch[];
+  rawMessages: ChatHistoryMessage[];
+  layout: ContextLayout;
+};
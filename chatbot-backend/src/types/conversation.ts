@@ -0,0 +1,22 @@
+/**
+ * Who is making a request: a signed-in user and/or an anonymous browser
+ */
+export type Requester = {
+  storeId: string; // Store the request was made for
+  userId?: string;
+  clientId?: string;
+};
+
+export type ConversationListItem = {
+  sessionId: string;
+  title: string | null;
+  preview: string | null; // Last message, truncated
+  lastMessageAt: Date;
+  createdAt: Date;
+  archived: boolean;
+};
+
+export type ConversationUpdate = {
+  title?: string;
+  archived?: boolean;
+};
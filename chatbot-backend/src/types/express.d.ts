@@ -0,0 +1,14 @@
+import { AuthUser } from "./auth";
+import { StoreContext } from "./store";
+
+declare global {
+  namespace Express {
+    interface Request {
+      store?: StoreContext; // Set by the identifyStore middleware
+      user?: AuthUser; // Set by the authenticate middleware
+      clientId?: string; // Set by the identifyClient middleware
+    }
+  }
+}
+
+export {};
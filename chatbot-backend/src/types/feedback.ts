@@ -0,0 +1,32 @@
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+export const FEEDBACK_REASONS = [
+  "helpful",
+  "incorrect",
+  "incomplete",
+  "off_topic",
+  "not_helpful",
+  "other",
+] as const;
+export const FEEDBACK_GROUPINGS = ["day", "prompt", "conversation"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+export type FeedbackReason = (typeof FEEDBACK_REASONS)[number];
+export type FeedbackGrouping = (typeof FEEDBACK_GROUPINGS)[number];
+
+export type FeedbackInput = {
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  comment?: string | null;
+};
+
+/**
+ * Feedback counts for one group (a day, a prompt version or a conversation)
+ */
+export type FeedbackReportRow = {
+  key: string; // YYYY-MM-DD, prompt version number ("none" if unknown) or conversation ID
+  up: number;
+  down: number;
+  total: number;
+  satisfaction: number; // up / total
+  reasons: Partial<Record<FeedbackReason, number>>;
+};
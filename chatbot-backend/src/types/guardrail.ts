@@ -0,0 +1,49 @@
+/**
+ * input: the user message, before the model sees it
+ * output: the model's reply, before the customer sees it
+ */
+export type GuardrailStage = "input" | "output";
+
+/**
+ * What an output check compares the reply against
+ */
+export type GuardrailContext = {
+  instructions: string[]; // System prompt instructions, never to be repeated
+  facts: string[]; // Texts the reply may quote prices and terms from
+};
+
+/**
+ * A check on one stage; the first rule that fires decides
+ */
+export type GuardrailRule = {
+  id: string; // snake_case, logged and stored when the rule fires
+  stage: GuardrailStage;
+  description: string;
+  // Returns the offending excerpt, or null when the text passes
+  check: (text: string, context: GuardrailContext) => string | null;
+  safeResponse: string; // Sent instead of the reply
+};
+
+/**
+ * A rule that fired, with what it matched
+ */
+export type GuardrailViolation = {
+  allowed: false;
+  stage: GuardrailStage;
+  ruleId: string;
+  match: string;
+  safeResponse: string;
+};
+
+export type GuardrailDecision = { allowed: true; stage: GuardrailStage } | GuardrailViolation;
+
+/**
+ * Fixture corpus entry (fixtures/guardrails.json)
+ * expect is the rule that must fire, null when the text must pass
+ */
+export type GuardrailFixture = {
+  stage: GuardrailStage;
+  text: string;
+  facts?: string[]; // Added to the default output context
+  expect: string | null;
+};
@@ -0,0 +1,26 @@
+import { prisma } from "../lib/prisma";
+
+// Infer ConversationStatus from Prisma client
+type Conversation = Awaited<ReturnType<typeof prisma.conversation.create>>;
+export type ConversationStatus = Conversation["status"];
+
+export type AgentSummary = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
+/**
+ * A conversation in the agent queue (waiting or being handled)
+ */
+export type HandoffQueueItem = {
+  sessionId: string;
+  title: string | null;
+  status: ConversationStatus;
+  reason: string | null;
+  handoffNote: string | null; // null until generated
+  preview: string | null; // Last message, truncated
+  escalatedAt: Date | null;
+  lastMessageAt: Date;
+  assignedAgent: AgentSummary | null;
+};
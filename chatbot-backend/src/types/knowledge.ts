@@ -0,0 +1,9 @@
+/**
+ * Help-center excerpt retrieved for a user turn
+ */
+export type KnowledgeMatch = {
+  heading: string;
+  content: string;
+  source: string;
+  rank: number;
+};
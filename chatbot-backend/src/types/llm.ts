@@ -0,0 +1,92 @@
+export type LLMProviderName = "gemini" | "openai" | "mock";
+
+export type LLMRequestOptions = {
+  signal?: AbortSignal;
+};
+
+/**
+ * JSON schema describing tool parameters (object schema)
+ */
+export type JsonSchema = {
+  type: "object" | "string" | "number" | "integer" | "boolean" | "array";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  enum?: (string | number)[];
+  items?: JsonSchema;
+};
+
+/**
+ * Tool declaration offered to the model
+ */
+export type LLMToolDefinition = {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+};
+
+/**
+ * Tool call requested by the model
+ */
+export type LLMToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+};
+
+/**
+ * One tool call and the result that was fed back to the model
+ */
+export type LLMToolExchange = {
+  call: LLMToolCall;
+  result: unknown;
+};
+
+/**
+ * Everything the model requested in one iteration of the reply loop
+ */
+export type LLMToolRound = LLMToolExchange[];
+
+export type LLMRequest = {
+  prompt: string;
+  /** Tools the model may call (omit to force a text answer) */
+  tools?: LLMToolDefinition[];
+  /** Tool calls made so far in this turn, oldest round first */
+  toolRounds?: LLMToolRound[];
+};
+
+/**
+ * Tokens one call consumed
+ */
+export type LLMUsage = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type LLMResponse = {
+  text: string;
+  toolCalls: LLMToolCall[];
+  /** As reported by the provider (omitted when it reports none) */
+  usage?: LLMUsage;
+};
+
+export type LLMStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; call: LLMToolCall }
+  /** Last event of a stream, when the provider reports usage */
+  | { type: "usage"; usage: LLMUsage };
+
+/**
+ * Contract every LLM backend must implement
+ * llmService only talks to this interface, never to a vendor SDK directly
+ */
+export interface LLMProvider {
+  /** Provider identifier (matches LLM_PROVIDER) */
+  readonly name: LLMProviderName;
+  /** Model used for every call made through this provider */
+  readonly model: string;
+  /** Generate a complete response (text and/or tool calls) */
+  generate(request: LLMRequest, options?: LLMRequestOptions): Promise<LLMResponse>;
+  /** Stream text chunks and tool calls as they are produced */
+  stream(request: LLMRequest, options?: LLMRequestOptions): AsyncIterable<LLMStreamEvent>;
+}
@@ -0,0 +1,52 @@
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Where finished spans are sent
+ * - none: spans only correlate log lines (traceId, spanId)
+ * - stdout: one JSON line per span, next to the logs
+ * - otlp: batched to an OpenTelemetry collector (OTLP/HTTP JSON)
+ */
+export const TRACE_EXPORTERS = ["none", "stdout", "otlp"] as const;
+
+export type TraceExporterName = (typeof TRACE_EXPORTERS)[number];
+
+/**
+ * server: handling a request or job; client: calling Postgres, Redis or the LLM
+ */
+export type SpanKind = "internal" | "server" | "client";
+
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Position of a span in its trace, as carried by a W3C traceparent header
+ */
+export type SpanContext = {
+  traceId: string; // 32 hex characters
+  spanId: string; // 16 hex characters
+};
+
+/**
+ * A finished span as handed to the exporter
+ */
+export type SpanRecord = SpanContext & {
+  parentSpanId: string | null;
+  name: string;
+  kind: SpanKind;
+  startTime: number; // Epoch milliseconds
+  endTime: number;
+  attributes: SpanAttributes;
+  error: string | null; // Message of the error that ended the span
+};
+
+/**
+ * What the code running for one request or job shares with the logger and
+ * the tracer: its request ID and the innermost span in progress
+ */
+export type RequestContext = {
+  requestId: string;
+  span: SpanContext | null;
+};
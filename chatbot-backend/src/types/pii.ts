@@ -0,0 +1,56 @@
+export const PII_TYPES = ["card", "email", "phone", "ssn", "address"] as const;
+
+export type PiiType = (typeof PII_TYPES)[number];
+
+/**
+ * A detection rule: every match of the pattern (that passes validate, when
+ * given) is replaced with a placeholder named after the type
+ */
+export type PiiRule = {
+  type: PiiType;
+  pattern: RegExp; // Must be global (g)
+  validate?: (match: string) => boolean; // Filter false positives (e.g. Luhn)
+};
+
+/**
+ * A value found in a text and the placeholder that replaced it
+ * The same value appears once, under one placeholder
+ */
+export type PiiFinding = {
+  type: PiiType;
+  placeholder: string; // e.g. [EMAIL_1]
+  value: string;
+};
+
+export type RedactionResult = {
+  text: string; // With placeholders instead of the findings
+  findings: PiiFinding[];
+};
+
+/**
+ * Fixture corpus entry (fixtures/pii.json)
+ * expect is the text once redacted with every rule; the text itself when
+ * nothing may be redacted
+ */
+export type PiiFixture = {
+  text: string;
+  expect: string;
+};
+
+/**
+ * An encrypted original as stored in the vault with its message
+ */
+export type PiiVaultInput = {
+  placeholder: string;
+  type: PiiType;
+  ciphertext: string;
+};
+
+/**
+ * A redacted value as revealed to staff
+ */
+export type RevealedPii = {
+  placeholder: string;
+  type: PiiType;
+  value: string;
+};
@@ -0,0 +1,24 @@
+export type PromptSectionKind = "instruction" | "policy";
+
+/**
+ * A section of the system prompt
+ * - instruction: rendered verbatim (role, rules...)
+ * - policy: rendered as "- Title: content" under "Store policies:"
+ */
+export type PromptSectionInput = {
+  kind: PromptSectionKind;
+  key: string;
+  title: string;
+  content: string;
+};
+
+/**
+ * The system prompt currently used for replies
+ * versionId is null when no version is published and the built-in default is used
+ */
+export type ActivePrompt = {
+  versionId: string | null;
+  version: number | null;
+  text: string;
+  sections: PromptSectionInput[];
+};
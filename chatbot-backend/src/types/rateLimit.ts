@@ -0,0 +1,56 @@
+/**
+ * Who a rate limit window counts requests for
+ * - ip: the client IP (see TRUST_PROXY_HOPS)
+ * - user: the signed-in account
+ */
+export const RATE_LIMIT_IDENTITIES = ["ip", "user"] as const;
+export type RateLimitIdentity = (typeof RATE_LIMIT_IDENTITIES)[number];
+
+/**
+ * Route groups with their own limits
+ */
+export const RATE_LIMIT_POLICY_NAMES = ["chat", "auth"] as const;
+export type RateLimitPolicyName = (typeof RATE_LIMIT_POLICY_NAMES)[number];
+
+export type RateLimitWindow = {
+  limit: number; // Requests allowed per window
+  windowSeconds: number;
+};
+
+/**
+ * Windows per identity; a request must pass every window that applies to it
+ * (anonymous requests have no user window)
+ */
+export type RateLimitPolicy = Partial<Record<RateLimitIdentity, RateLimitWindow>>;
+
+/**
+ * What to do when Redis is unavailable: allow every request (open) or
+ * reject them with 503 (closed)
+ */
+export type RateLimitFailMode = "open" | "closed";
+
+/**
+ * State of the most constrained window, sent as RateLimit-* headers
+ */
+export type RateLimitStatus = {
+  identity: RateLimitIdentity;
+  limit: number;
+  remaining: number;
+  resetSeconds: number; // Until a request slot frees up
+  windowSeconds: number;
+};
+
+/**
+ * status is null when no window applied: allow-listed client, or Redis
+ * unavailable in fail-open mode
+ */
+export type RateLimitResult =
+  | { allowed: true; status: RateLimitStatus | null }
+  | {
+      allowed: false;
+      reason: "limited";
+      status: RateLimitStatus;
+      message: string;
+      retryAfter: number;
+    }
+  | { allowed: false; reason: "unavailable"; message: string; retryAfter: number };
@@ -0,0 +1,54 @@
+import { prisma } from "../lib/prisma";
+import { ConversationStatus } from "./handoff";
+import { ChatStreamEvent } from "./chat";
+
+// Infer Sender type from Prisma client
+type Message = Awaited<ReturnType<typeof prisma.message.create>>;
+type Sender = Message["sender"];
+
+/**
+ * A message as pushed to clients (same shape as in the history)
+ */
+export type PushedMessage = {
+  id: string;
+  seq: number;
+  sender: Sender;
+  text: string;
+  timestamp: string;
+};
+
+/**
+ * Something happened in a conversation outside of the client's own request
+ * - message: a support agent replied
+ * - status: the conversation was escalated, claimed, released or resolved
+ * - typing: the assistant started or stopped writing a reply
+ */
+export type ConversationEvent =
+  | { type: "message"; sessionId: string; message: PushedMessage }
+  | { type: "status"; sessionId: string; status: ConversationStatus }
+  | { type: "typing"; sessionId: string; isTyping: boolean };
+
+/**
+ * Messages a client sends over the chat socket
+ * - subscribe: follow a conversation (replaces the previous one)
+ * - send: send a message; the reply is streamed back as ChatStreamEvents
+ *   carrying the same requestId
+ */
+export type ClientSocketMessage =
+  | { type: "subscribe"; sessionId: string }
+  | { type: "send"; message: unknown; sessionId?: string; requestId?: string };
+
+/**
+ * Messages the server sends over the chat socket
+ */
+export type ServerSocketMessage =
+  | (ChatStreamEvent & { requestId?: string })
+  | ConversationEvent
+  | { type: "subscribed"; sessionId: string; status: ConversationStatus }
+  | {
+      type: "error";
+      error: string;
+      message: string;
+      requestId?: string;
+      retryAfter?: number;
+    };
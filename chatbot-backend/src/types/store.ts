@@ -0,0 +1,44 @@
+import { RateLimitPolicy, RateLimitPolicyName } from "./rateLimit";
+
+/**
+ * Rate limit policies a store overrides; other policies use the defaults
+ */
+export type StoreRateLimits = Partial<Record<RateLimitPolicyName, RateLimitPolicy>>;
+
+/**
+ * Store a request was made for, resolved from its API key
+ */
+export type StoreContext = {
+  id: string;
+  slug: string;
+  name: string;
+  allowedOrigins: string[];
+  rateLimits: StoreRateLimits;
+};
+
+export type StoreInput = {
+  slug: string;
+  name: string;
+  allowedOrigins: string[];
+  rateLimits: StoreRateLimits | null;
+};
+
+export type StoreUpdate = Partial<Omit<StoreInput, "slug">>;
+
+/**
+ * An API key as listed to admins (the key itself is never stored)
+ */
+export type ApiKeySummary = {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: Date;
+  revokedAt: Date | null;
+};
+
+/**
+ * A newly created API key; the only time the key is returned
+ */
+export type CreatedApiKey = ApiKeySummary & {
+  key: string;
+};
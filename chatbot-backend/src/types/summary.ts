@@ -0,0 +1,17 @@
+import { LLMUsage } from "./llm";
+
+/**
+ * Queued request to extend a conversation's summary
+ */
+export type SummaryJob = {
+  storeId: string;
+  conversationId: string;
+  untilSeq: number; // Seq of the last message the summary must cover
+  regenerate?: boolean; // Re-summarize the active summary's range from scratch
+};
+
+export type GeneratedSummary = {
+  text: string;
+  usedFallback: boolean; // LLM failed, placeholder text was produced
+  usage: LLMUsage | null; // Null with the fallback text
+};
@@ -0,0 +1,30 @@
+import { JsonSchema } from "./llm";
+
+/**
+ * Context available to a tool handler
+ */
+export type ToolContext = {
+  storeId: string;
+  conversationId: string;
+};
+
+/**
+ * A tool that backend modules register with the tool registry
+ */
+export type ToolDefinition<TArgs = Record<string, unknown>> = {
+  name: string; // snake_case, unique
+  description: string;
+  parameters: JsonSchema;
+  handler: (args: TArgs, context: ToolContext) => unknown | Promise<unknown>;
+};
+
+/**
+ * Outcome of a tool invocation, as fed back to the model and recorded
+ */
+export type ToolInvocationResult = {
+  name: string;
+  arguments: Record<string, unknown>;
+  result: unknown;
+  error: string | null;
+  durationMs: number;
+};
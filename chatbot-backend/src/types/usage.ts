@@ -0,0 +1,51 @@
+import { LLMUsage } from "./llm";
+
+export const TOKEN_USAGE_KINDS = ["reply", "summary", "handoff_note"] as const;
+export const USAGE_GROUPINGS = ["day", "conversation", "client"] as const;
+
+export type TokenUsageKind = (typeof TOKEN_USAGE_KINDS)[number];
+export type UsageGrouping = (typeof USAGE_GROUPINGS)[number];
+
+/**
+ * Tokens one LLM task consumed, to be added to the ledger
+ * messageId / summaryId link it to what it produced; clientIp is where a
+ * reply was requested from
+ */
+export type TokenUsageEntry = {
+  conversationId: string;
+  kind: TokenUsageKind;
+  model: string;
+  usage: LLMUsage;
+  messageId?: string | null;
+  summaryId?: string | null;
+  clientIp?: string | null;
+};
+
+/**
+ * conversation: tokens used by the conversation, ever
+ * client_daily: tokens used today (UTC) by the user, or guest IP address
+ */
+export type TokenBudgetScope = "conversation" | "client_daily";
+
+export type TokenBudgetDecision =
+  | { allowed: true }
+  | {
+      allowed: false;
+      scope: TokenBudgetScope;
+      ruleId: string; // Stored on the messages, like a guardrail rule
+      used: number;
+      limit: number;
+      safeResponse: string; // Sent instead of a reply
+    };
+
+/**
+ * Token usage of one group (a day, a conversation or a client)
+ */
+export type UsageReportRow = {
+  key: string; // YYYY-MM-DD, conversation ID, or user:<id> / client:<id> ("unknown" without either)
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  byKind: Partial<Record<TokenUsageKind, number>>; // Total tokens per kind
+};
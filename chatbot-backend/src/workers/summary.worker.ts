@@ -0,0 +1,177 @@
+import { randomUUID } from "crypto";
+import Redis from "ioredis";
+import { getRedisClient } from "../lib/redis";
+import { Job } from "../lib/jobQueue";
+import { createLogger } from "../lib/logger";
+import { runWithContext } from "../lib/requestContext";
+import { parseTraceparent, withSpan } from "../lib/tracing";
+import { conversationRepo } from "../repositories/conversation.repo";
+import { summaryQueue, summaryService } from "../services/summary.service";
+import { SummaryJob } from "../types/summary";
+
+const log = createLogger("summaryWorker");
+
+const POLL_TIMEOUT_SECONDS = 1; // Also how often due retries are promoted
+const LOCK_TTL_MS = 2 * 60 * 1000; // Longer than any summary LLM call
+const LOCKED_RETRY_DELAY_MS = 5000; // Conversation busy with another job
+const ERROR_PAUSE_MS = 1000; // Pause after a Redis error before polling again
+
+// Delete the lock only if this worker still owns it
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+let connection: Redis | null = null;
+let loop: Promise<void> | null = null;
+let running = false;
+
+function lockKey(conversationId: string): string {
+  return `summary:lock:${conversationId}`;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Summarize under a per-conversation lock
+ * Jobs are idempotent: a summary already covering the target is left alone
+ */
+async function processJob(job: Job<SummaryJob>): Promise<void> {
+  const { storeId, conversationId, untilSeq } = job.payload;
+  const redis = getRedisClient();
+  const token = randomUUID();
+
+  // 1. Only one worker may rewrite a conversation's summary at a time
+  const locked = await redis.set(
+    lockKey(conversationId),
+    token,
+    "PX",
+    LOCK_TTL_MS,
+    "NX"
+  );
+  if (!locked) {
+    await summaryQueue.postpone(job, LOCKED_RETRY_DELAY_MS);
+    return;
+  }
+
+  try {
+    // 2. Fall back to a placeholder summary only on the last attempt
+    const options = { allowFallback: summaryQueue.isLastAttempt(job) };
+    const conversation = await conversationRepo.findById(storeId, conversationId);
+
+    if (job.payload.regenerate) {
+      // 3a. Admin request: summarize the current range again from scratch
+      if (conversation?.summaryUntilSeq) {
+        await summaryService.createSummary(
+          storeId,
+          conversationId,
+          conversation.summaryUntilSeq,
+          options
+        );
+      }
+      return;
+    }
+
+    // 3b. Skip if the conversation is gone or already summarized this far
+    if (conversation && (conversation.summaryUntilSeq ?? 0) < untilSeq) {
+      await summaryService.summarizeUntil(conversation, untilSeq, options);
+    }
+
+    await summaryService.clearPending(conversationId);
+  } catch (error) {
+    const dead = await summaryQueue.fail(job, error);
+    if (dead) {
+      log.error("Summary job moved to dead-letter list", {
+        jobId: job.id,
+        conversationId,
+        attempts: job.attempts + 1,
+        err: error,
+      });
+      if (!job.payload.regenerate) {
+        await summaryService.clearPending(conversationId);
+      }
+    } else {
+      log.warn("Summary job failed, retrying", {
+        jobId: job.id,
+        conversationId,
+        attempts: job.attempts + 1,
+        err: error instanceof Error ? error.message : error,
+      });
+    }
+  } finally {
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, lockKey(conversationId), token);
+  }
+}
+
+/**
+ * Run a job in the context of the request that enqueued it: its log lines
+ * carry that request's ID and its spans join that request's trace
+ */
+function runInJobContext(job: Job<SummaryJob>): Promise<void> {
+  return runWithContext({ requestId: job.requestId ?? job.id, span: null }, () =>
+    withSpan(
+      "summary job",
+      {
+        kind: "server",
+        parent: parseTraceparent(job.traceparent),
+        attributes: {
+          "job.id": job.id,
+          "job.attempt": job.attempts + 1,
+          "job.regenerate": job.payload.regenerate ?? false,
+          "conversation.id": job.payload.conversationId,
+        },
+      },
+      () => processJob(job)
+    )
+  );
+}
+
+/**
+ * Summary worker
+ *
+ * Runs inside the API process (SUMMARY_WORKER_INLINE) or standalone via
+ * `npm run worker`. Any number of workers can share the queue.
+ */
+export const summaryWorker = {
+  start(): void {
+    if (running) {
+      return;
+    }
+
+    // Blocking pops need their own connection, the shared client serves requests
+    const blocking = getRedisClient().duplicate();
+    connection = blocking;
+    running = true;
+
+    loop = (async () => {
+      while (running) {
+        try {
+          const job = await summaryQueue.next(blocking, POLL_TIMEOUT_SECONDS);
+          if (job) {
+            await runInJobContext(job);
+          }
+        } catch (error) {
+          log.error("Summary worker error", { err: error });
+          await sleep(ERROR_PAUSE_MS);
+        }
+      }
+    })();
+
+    log.info("Summary worker started");
+  },
+
+  /**
+   * Stop after the current job; waits at most one poll interval otherwise
+   */
+  async stop(): Promise<void> {
+    running = false;
+    await loop;
+    connection?.disconnect();
+    connection = null;
+    loop = null;
+  },
+};
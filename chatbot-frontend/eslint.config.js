@@ -20,4 +20,12 @@ export default defineConfig([
       globals: globals.browser,
     },
   },
+  {
+    // TanStack Virtual's virtualizer is mutable by design and can't be
+    // memoized; this app doesn't use the React Compiler, so nothing is lost
+    files: ['src/components/MessageList.tsx'],
+    rules: {
+      'react-hooks/incompatible-library': 'off',
+    },
+  },
 ])
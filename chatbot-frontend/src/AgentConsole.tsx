@@ -0,0 +1,372 @@
+import { useState, useEffect, useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertCircle, Headset, LogOut, MessageCircle, Moon, Sun } from "lucide-react";
+import { ChatInput } from "./components/ChatInput";
+import { ChatMessage } from "./components/ChatMessage";
+import { AuthScreen } from "./components/AuthScreen";
+import { api, ApiError } from "./lib/api";
+import { storage } from "./lib/storage";
+import { cn } from "./lib/utils";
+import { useTheme } from "./hooks/useTheme";
+import type { AgentConversation, QueuedConversation } from "./types/agent";
+import type { AuthResponse, User } from "./types/auth";
+import type { ConversationStatus } from "./types/chat";
+
+// Customers don't push their messages, the console checks for them
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_LABELS: Record<ConversationStatus, string> = {
+  bot: "Resolved",
+  escalated: "Waiting",
+  assigned: "In progress",
+};
+
+/**
+ * Minutes since a date, for "waiting for 5 min"
+ */
+function minutesSince(date: string): number {
+  return Math.max(0, Math.round((Date.now() - new Date(date).getTime()) / 60000));
+}
+
+/**
+ * Agent console: the queue of escalated conversations, and the selected
+ * conversation with its handoff note, claim/release/resolve and replies
+ */
+function AgentConsole() {
+  const [user, setUser] = useState<User | null>(() => storage.getUser());
+  const [queue, setQueue] = useState<QueuedConversation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<AgentConversation | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { theme, toggleTheme } = useTheme();
+
+  const isAgent = user?.role === "agent";
+  const isMine = !!conversation && conversation.assignedAgentId === user?.id;
+
+  const reportError = useCallback((err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 401) {
+      storage.clearAuth();
+      setUser(null);
+      return;
+    }
+    setError(err instanceof Error ? err.message : fallback);
+  }, []);
+
+  // Refresh the role: it may have been granted or revoked since signing in
+  useEffect(() => {
+    if (!storage.getAuthToken()) return;
+
+    api
+      .getMe()
+      .then(setUser)
+      .catch((err) => reportError(err, "Failed to load your account"));
+  }, [reportError]);
+
+  const refreshQueue = useCallback(async () => {
+    try {
+      setQueue(await api.getAgentQueue());
+    } catch (err) {
+      reportError(err, "Failed to load the queue");
+    }
+  }, [reportError]);
+
+  const refreshConversation = useCallback(async () => {
+    if (!selectedId) return;
+
+    try {
+      setConversation(await api.getAgentConversation(selectedId));
+    } catch (err) {
+      // Resolved or deleted meanwhile: it left the queue
+      if (err instanceof ApiError && err.status === 404) {
+        setSelectedId(null);
+        setConversation(null);
+        return;
+      }
+      reportError(err, "Failed to load the conversation");
+    }
+  }, [selectedId, reportError]);
+
+  useEffect(() => {
+    if (!isAgent) return;
+
+    refreshQueue();
+    refreshConversation();
+    const intervalId = setInterval(() => {
+      refreshQueue();
+      refreshConversation();
+    }, POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isAgent, refreshQueue, refreshConversation]);
+
+  const handleSelect = (sessionId: string) => {
+    if (sessionId === selectedId) return;
+    setConversation(null);
+    setSelectedId(sessionId);
+  };
+
+  const handleAction = async (action: "claim" | "release" | "resolve") => {
+    if (!selectedId || isBusy) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      await api.updateHandoff(selectedId, action);
+      if (action === "resolve") {
+        setSelectedId(null);
+        setConversation(null);
+      } else {
+        await refreshConversation();
+      }
+      await refreshQueue();
+    } catch (err) {
+      reportError(err, `Failed to ${action} the conversation`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReply = async (text: string) => {
+    if (!selectedId || isBusy) return;
+
+    setError(null);
+    setIsBusy(true);
+    try {
+      const message = await api.sendAgentMessage(selectedId, text);
+      setConversation((prev) =>
+        prev ? { ...prev, messages: [...prev.messages, message] } : prev
+      );
+    } catch (err) {
+      reportError(err, "Failed to send the reply");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAuthenticated = (auth: AuthResponse) => {
+    storage.setAuth(auth.token, auth.user);
+    setUser(auth.user);
+  };
+
+  const handleLogout = () => {
+    storage.clearAuth();
+    setUser(null);
+    setQueue([]);
+    setSelectedId(null);
+    setConversation(null);
+  };
+
+  if (!user) {
+    return (
+      <AuthScreen
+        onAuthenticated={handleAuthenticated}
+        onCancel={() => window.location.assign("/")}
+      />
+    );
+  }
+
+  const headerButtonClassName = cn(
+    "p-2 rounded-lg transition-colors",
+    theme === "light"
+      ? "bg-white hover:bg-gray-200 text-gray-700"
+      : "bg-gray-700 hover:bg-gray-600 text-gray-200"
+  );
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-950 transition-colors">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-gray-800/80 backdrop-blur-md border-b border-gray-200/50 dark:border-gray-700/50 px-6 py-4 shadow-sm">
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="flex items-center gap-2 text-xl font-bold text-gray-800 dark:text-gray-100">
+            <Headset size={24} className="text-emerald-500" />
+            Agent console
+          </h1>
+          <div className="flex items-center gap-2">
+            <span
+              className="hidden sm:block text-sm text-gray-600 dark:text-gray-300 truncate max-w-[12rem]"
+              title={user.email}
+            >
+              {user.name || user.email}
+            </span>
+            <button onClick={toggleTheme} className={headerButtonClassName} aria-label="Toggle theme">
+              {theme === "light" ? (
+                <Moon size={20} className="text-yellow-500" />
+              ) : (
+                <Sun size={20} className="text-yellow-500" />
+              )}
+            </button>
+            <button
+              onClick={handleLogout}
+              className={headerButtonClassName}
+              aria-label="Sign out"
+              title="Sign out"
+            >
+              <LogOut size={20} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      {!isAgent ? (
+        <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400 text-center px-6">
+          <div>
+            <p className="text-lg font-semibold mb-2">This account is not a support agent</p>
+            <p className="text-sm">
+              Ask an administrator to grant the agent role, or{" "}
+              <a href="/" className="text-blue-600 dark:text-blue-400 hover:underline">
+                go back to the chat
+              </a>
+              .
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-1 min-h-0">
+          {/* Queue */}
+          <aside className="w-72 shrink-0 flex flex-col border-r border-gray-200/50 dark:border-gray-700/50 bg-white/60 dark:bg-gray-800/60">
+            <p className="px-4 pt-4 pb-2 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+              Queue ({queue.length})
+            </p>
+            <div className="flex-1 overflow-y-auto px-2 space-y-1">
+              {queue.length === 0 && (
+                <p className="px-2 py-4 text-sm text-center text-gray-400 dark:text-gray-500">
+                  No conversations waiting
+                </p>
+              )}
+              {queue.map((item) => (
+                <button
+                  key={item.sessionId}
+                  onClick={() => handleSelect(item.sessionId)}
+                  className={cn(
+                    "w-full text-left rounded-lg px-3 py-2 transition-colors",
+                    item.sessionId === selectedId
+                      ? "bg-blue-50 dark:bg-blue-900/30"
+                      : "hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                  )}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-800 dark:text-gray-100">
+                      {item.title || "New chat"}
+                    </span>
+                    <span
+                      className={cn(
+                        "shrink-0 rounded-full px-2 py-0.5 text-[10px] font-medium",
+                        item.status === "escalated"
+                          ? "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200"
+                          : "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200"
+                      )}
+                    >
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                  </div>
+                  <p className="truncate text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                    {item.reason || item.preview}
+                  </p>
+                  <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">
+                    {item.escalatedAt && `Waiting ${minutesSince(item.escalatedAt)} min`}
+                    {item.assignedAgent &&
+                      ` · ${item.assignedAgent.id === user.id ? "You" : item.assignedAgent.name || item.assignedAgent.email}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          </aside>
+
+          {/* Selected conversation */}
+          <div className="flex flex-1 flex-col min-w-0">
+            <AnimatePresence>
+              {error && (
+                <motion.div
+                  initial={{ opacity: 0, y: -20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ duration: 0.3 }}
+                  className="bg-red-50/90 dark:bg-red-900/30 border-b border-red-200 dark:border-red-800/50 px-6 py-3 flex items-center gap-2 text-red-800 dark:text-red-200"
+                >
+                  <AlertCircle size={18} />
+                  <span className="flex-1">{error}</span>
+                  <button
+                    onClick={() => setError(null)}
+                    className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 rounded-full p-1"
+                    aria-label="Dismiss error"
+                  >
+                    ×
+                  </button>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {!conversation ? (
+              <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
+                <div className="text-center">
+                  <MessageCircle size={32} className="mx-auto mb-2" />
+                  <p className="text-sm">
+                    {selectedId ? "Loading..." : "Select a conversation from the queue"}
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <>
+                {/* Handoff details and actions */}
+                <div className="px-6 py-4 border-b border-gray-200/50 dark:border-gray-700/50 bg-white/60 dark:bg-gray-800/60 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <h2 className="flex-1 min-w-0 truncate font-semibold text-gray-800 dark:text-gray-100">
+                      {conversation.title || "New chat"}
+                    </h2>
+                    {conversation.status === "escalated" && (
+                      <button
+                        onClick={() => handleAction("claim")}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 rounded-lg bg-blue-500 hover:bg-blue-600 text-white text-sm disabled:opacity-50"
+                      >
+                        Claim
+                      </button>
+                    )}
+                    {isMine && (
+                      <>
+                        <button
+                          onClick={() => handleAction("release")}
+                          disabled={isBusy}
+                          className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm disabled:opacity-50"
+                        >
+                          Back to queue
+                        </button>
+                        <button
+                          onClick={() => handleAction("resolve")}
+                          disabled={isBusy}
+                          className="px-3 py-1.5 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm disabled:opacity-50"
+                        >
+                          Resolve
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {conversation.reason && (
+                    <p className="text-sm text-gray-600 dark:text-gray-300">
+                      <span className="font-medium">Reason:</span> {conversation.reason}
+                    </p>
+                  )}
+                  <div className="rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800/50 px-3 py-2 text-sm text-amber-900 dark:text-amber-100 whitespace-pre-wrap">
+                    {conversation.handoffNote ?? "Writing the handoff note..."}
+                  </div>
+                </div>
+
+                {/* Messages */}
+                <div className="flex-1 overflow-y-auto px-4 sm:px-6 py-6">
+                  {conversation.messages.map((message) => (
+                    <ChatMessage key={message.id} message={message} />
+                  ))}
+                </div>
+
+                <ChatInput onSend={handleReply} disabled={!isMine || isBusy} />
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AgentConsole;
@@ -1,32 +1,58 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { ChatMessage } from "./components/ChatMessage";
 import { ChatInput, type ChatInputRef } from "./components/ChatInput";
-import { TypingIndicator } from "./components/TypingIndicator";
-import { api } from "./lib/api";
+import { MessageList } from "./components/MessageList";
+import { AuthScreen } from "./components/AuthScreen";
+import { ConversationSidebar } from "./components/ConversationSidebar";
+import { HandoffBanner } from "./components/HandoffBanner";
+import { api, ApiError } from "./lib/api";
+import { ChatSocket } from "./lib/chatSocket";
 import { storage } from "./lib/storage";
 import { useTheme } from "./hooks/useTheme";
-import type { Message } from "./types/chat";
-import { AlertCircle, Moon, Sun, MessageCircle, GripVertical } from "lucide-react";
+import type {
+  ChatResponse,
+  Conversation,
+  ConversationStatus,
+  Message,
+  MessageFeedback,
+  StreamHandlers,
+} from "./types/chat";
+import type { AuthResponse, User } from "./types/auth";
+import { AlertCircle, Moon, Sun, MessageCircle, GripVertical, Headset, LogIn, LogOut } from "lucide-react";
 
 // Default header height (in pixels)
 const DEFAULT_HEADER_HEIGHT = 100;
 const MIN_HEADER_HEIGHT = 60;
 const MAX_HEADER_HEIGHT = 300;
 
+// How often to check for support agent replies while a person is involved
+// and the socket is not connected
+const HANDOFF_POLL_INTERVAL_MS = 5000;
+
 function App() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoadingHistory, setIsLoadingHistory] = useState(true);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [status, setStatus] = useState<ConversationStatus>("bot");
+  const [isSocketOpen, setIsSocketOpen] = useState(false);
+  const [isAssistantTyping, setIsAssistantTyping] = useState(false);
+  const [user, setUser] = useState<User | null>(() => storage.getUser());
+  const [showAuth, setShowAuth] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
   const [headerHeight, setHeaderHeight] = useState<number>(() => {
     const saved = storage.getHeaderHeight();
     return saved ?? DEFAULT_HEADER_HEIGHT;
   });
   const [isDragging, setIsDragging] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  const socketRef = useRef<ChatSocket | null>(null);
+  const wasAssistantTypingRef = useRef(false);
   const inputRef = useRef<ChatInputRef>(null);
   const headerRef = useRef<HTMLDivElement>(null);
   const dragStartY = useRef<number>(0);
@@ -34,11 +60,6 @@ function App() {
   const currentHeightRef = useRef<number>(headerHeight);
   const { theme, toggleTheme } = useTheme();
 
-  // Auto-scroll to bottom when messages change or when loading state changes
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isLoading]);
-
   // Keyboard shortcut: focus input when typing (if not disabled)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -81,6 +102,18 @@ function App() {
   useEffect(() => {
     const loadSession = async () => {
       try {
+        // Drop a stored token the server no longer accepts (expired, deleted account)
+        if (storage.getAuthToken()) {
+          try {
+            setUser(await api.getMe());
+          } catch (err) {
+            if (err instanceof ApiError && err.status === 401) {
+              storage.clearAuth();
+              setUser(null);
+            }
+          }
+        }
+
         const savedSessionId = storage.getSessionId();
         
         if (savedSessionId) {
@@ -90,8 +123,15 @@ function App() {
           try {
             const history = await api.getHistory(savedSessionId);
             setMessages(history.messages);
+            setNextCursor(history.nextCursor);
+            setStatus(history.status);
           } catch (err) {
             console.error("Failed to load history:", err);
+            // Conversation belongs to another account: start a new one
+            if (err instanceof ApiError && err.status === 404) {
+              storage.clearSessionId();
+              setSessionId(null);
+            }
             // Continue with empty messages if history fails
           }
         }
@@ -105,6 +145,103 @@ function App() {
     loadSession();
   }, []);
 
+  // Refresh the sidebar (also after sign-in/out, which changes whose chats are listed)
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await api.listConversations(showArchived));
+    } catch (err) {
+      console.error("Failed to load conversations:", err);
+    }
+  }, [showArchived]);
+
+  useEffect(() => {
+    if (!isLoadingHistory) {
+      refreshConversations();
+    }
+  }, [refreshConversations, isLoadingHistory, user]);
+
+  // Real-time updates; reconnect as the new user after signing in or out
+  useEffect(() => {
+    const socket = new ChatSocket({
+      onOpenChange: setIsSocketOpen,
+      onMessage: (message) => {
+        setMessages((prev) => (prev.some((m) => m.id === message.id) ? prev : [...prev, message]));
+      },
+      onStatus: setStatus,
+      onTyping: setIsAssistantTyping,
+    });
+    socketRef.current = socket;
+
+    return () => {
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [user]);
+
+  useEffect(() => {
+    socketRef.current?.follow(sessionId);
+    setIsAssistantTyping(false);
+  }, [sessionId, user]);
+
+  // A reply was written for another tab or device: show it
+  useEffect(() => {
+    const wasTyping = wasAssistantTypingRef.current;
+    wasAssistantTypingRef.current = isAssistantTyping;
+    if (!wasTyping || isAssistantTyping || !sessionId) return;
+
+    api
+      .getHistory(sessionId)
+      .then((history) => {
+        setMessages(history.messages);
+        setNextCursor(history.nextCursor);
+        setStatus(history.status);
+      })
+      .catch((err) => console.error("Failed to reload history:", err));
+  }, [isAssistantTyping, sessionId]);
+
+  // Support agents reply outside of a request: without the socket, check for
+  // new messages while the conversation is waiting for or handled by a person
+  useEffect(() => {
+    if (!sessionId || status === "bot" || isLoading || isSocketOpen) return;
+
+    const intervalId = setInterval(async () => {
+      try {
+        const history = await api.getHistory(sessionId);
+        setMessages((prev) => {
+          const loadedIds = new Set(prev.map((m) => m.id).filter(Boolean));
+          const added = history.messages.filter((m) => !loadedIds.has(m.id));
+          return added.length > 0 ? [...prev, ...added] : prev;
+        });
+        setStatus(history.status);
+      } catch (err) {
+        console.error("Failed to check for new messages:", err);
+      }
+    }, HANDOFF_POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [sessionId, status, isLoading, isSocketOpen]);
+
+  // Prepend the next older page of history (triggered by scrolling up)
+  const loadOlderMessages = useCallback(async () => {
+    if (!sessionId || nextCursor === null || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const history = await api.getHistory(sessionId, { before: nextCursor });
+      setMessages((prev) => {
+        // Skip anything already loaded (e.g. after a reconnect)
+        const loadedIds = new Set(prev.map((m) => m.id).filter(Boolean));
+        return [...history.messages.filter((m) => !loadedIds.has(m.id)), ...prev];
+      });
+      setNextCursor(history.nextCursor);
+    } catch (err) {
+      console.error("Failed to load older messages:", err);
+      setNextCursor(null);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [sessionId, nextCursor, isLoadingOlder]);
+
   // Handle header resize drag
   const handleDragStart = useCallback((event: React.MouseEvent | React.TouchEvent) => {
     event.preventDefault();
@@ -167,6 +304,217 @@ function App() {
     }
   }, [headerHeight, isDragging]);
 
+  const startNewConversation = () => {
+    storage.clearSessionId();
+    setSessionId(null);
+    setMessages([]);
+    setNextCursor(null);
+    setStatus("bot");
+  };
+
+  const handleNewConversation = async () => {
+    try {
+      const conversation = await api.createConversation();
+      setSessionId(conversation.sessionId);
+      storage.setSessionId(conversation.sessionId);
+      setMessages([]);
+      setNextCursor(null);
+      setStatus("bot");
+      setShowArchived(false);
+      refreshConversations();
+    } catch (err) {
+      console.error("Failed to create conversation:", err);
+      // The first message will create it instead
+      startNewConversation();
+    }
+    setError(null);
+    inputRef.current?.focus();
+  };
+
+  const handleSelectConversation = async (selectedId: string) => {
+    if (selectedId === sessionId) return;
+
+    setError(null);
+    try {
+      const history = await api.getHistory(selectedId);
+      setSessionId(selectedId);
+      storage.setSessionId(selectedId);
+      setMessages(history.messages);
+      setNextCursor(history.nextCursor);
+      setStatus(history.status);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load conversation");
+      refreshConversations();
+    }
+  };
+
+  const handleRenameConversation = async (targetId: string, title: string) => {
+    try {
+      await api.updateConversation(targetId, { title });
+      refreshConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to rename conversation");
+    }
+  };
+
+  const handleArchiveConversation = async (targetId: string, archived: boolean) => {
+    try {
+      await api.updateConversation(targetId, { archived });
+      refreshConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to archive conversation");
+    }
+  };
+
+  const handleDeleteConversation = async (targetId: string) => {
+    if (!window.confirm("Delete this conversation?")) return;
+
+    try {
+      await api.deleteConversation(targetId);
+      if (targetId === sessionId) {
+        startNewConversation();
+      }
+      refreshConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete conversation");
+    }
+  };
+
+  const handleAuthenticated = async (auth: AuthResponse) => {
+    storage.setAuth(auth.token, auth.user);
+    setUser(auth.user);
+    setShowAuth(false);
+
+    // Keep the conversation started as a guest
+    if (sessionId) {
+      try {
+        await api.claimConversation(sessionId);
+      } catch (err) {
+        console.error("Failed to claim conversation:", err);
+        startNewConversation();
+      }
+    }
+  };
+
+  const handleLogout = () => {
+    storage.clearAuth();
+    setUser(null);
+    // The conversation is owned by the account, so it can't continue anonymously
+    startNewConversation();
+  };
+
+  // Keep ratings in state so they survive the virtualized list unmounting rows
+  const handleFeedbackChange = (messageId: string, feedback: MessageFeedback | null) => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === messageId ? { ...m, feedback: feedback ?? undefined } : m))
+    );
+  };
+
+  const reportRequestError = (err: unknown, fallback: string) => {
+    if (err instanceof ApiError && err.status === 401) {
+      storage.clearAuth();
+      setUser(null);
+      setError("Your session has expired. Please sign in again.");
+    } else {
+      setError(err instanceof Error ? err.message : fallback);
+    }
+  };
+
+  // Show the newest page of the active branch, with its alternatives
+  const reloadHistory = async (targetId: string) => {
+    const history = await api.getHistory(targetId);
+    setMessages(history.messages);
+    setNextCursor(history.nextCursor);
+    setStatus(history.status);
+  };
+
+  // Regenerate and edit replace the latest turn: hide it while the new
+  // reply streams, then reload so the old version shows as an alternative
+  const streamAlternative = async (
+    messageId: string,
+    startStream: (handlers: StreamHandlers) => Promise<ChatResponse>,
+    editedText?: string
+  ) => {
+    if (isLoading || !sessionId) return;
+
+    const index = messages.findIndex((m) => m.id === messageId);
+    if (index === -1) return;
+
+    const previousMessages = messages;
+    const kept = messages.slice(0, index);
+    setMessages(
+      editedText === undefined
+        ? kept
+        : [...kept, { sender: "user", text: editedText, timestamp: new Date().toISOString() }]
+    );
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response = await startStream({
+        onChunk: (chunk) => {
+          setStreamingText((prev) => (prev ?? "") + chunk);
+        },
+        onReplace: (text) => {
+          setStreamingText(text);
+        },
+      });
+      if (response.reply !== null && response.messageId !== null) {
+        const aiMessage: Message = {
+          id: response.messageId,
+          sender: "ai",
+          text: response.reply,
+          timestamp: new Date().toISOString(),
+        };
+        setMessages((prev) => [...prev, aiMessage]);
+      }
+    } catch (err) {
+      reportRequestError(err, "Failed to generate a new reply");
+      setMessages(previousMessages);
+      return;
+    } finally {
+      setStreamingText(null);
+      setIsLoading(false);
+    }
+
+    try {
+      await reloadHistory(sessionId);
+      refreshConversations();
+    } catch (err) {
+      console.error("Failed to reload history:", err);
+    }
+  };
+
+  const handleRegenerate = (messageId: string) =>
+    streamAlternative(messageId, (handlers) => api.regenerateMessage(messageId, handlers));
+
+  const handleEdit = (messageId: string, text: string) =>
+    streamAlternative(messageId, (handlers) => api.editMessage(messageId, text, handlers), text);
+
+  const handleEscalate = async () => {
+    if (!sessionId) return;
+
+    setError(null);
+    try {
+      setStatus(await api.escalateConversation(sessionId));
+    } catch (err) {
+      reportRequestError(err, "Failed to contact a support agent");
+    }
+  };
+
+  const handleSelectAlternative = async (messageId: string) => {
+    if (isLoading || !sessionId) return;
+
+    setError(null);
+    try {
+      await api.selectAlternative(messageId);
+      await reloadHistory(sessionId);
+      refreshConversations();
+    } catch (err) {
+      reportRequestError(err, "Failed to switch versions");
+    }
+  };
+
   const handleSend = async (text: string) => {
     if (isLoading) return;
 
@@ -181,7 +529,24 @@ function App() {
     setIsLoading(true);
 
     try {
-      const response = await api.sendMessage(text, sessionId || undefined);
+      const handlers: StreamHandlers = {
+        onSession: (newSessionId) => {
+          // Persist session early so a dropped stream can still resume history
+          setSessionId(newSessionId);
+          storage.setSessionId(newSessionId);
+        },
+        onChunk: (chunk) => {
+          setStreamingText((prev) => (prev ?? "") + chunk);
+        },
+        onReplace: (text) => {
+          setStreamingText(text);
+        },
+      };
+      // Prefer the socket, fall back to REST while it is not connected
+      const socket = socketRef.current;
+      const response = socket?.isOpen
+        ? await socket.streamMessage(text, sessionId || undefined, handlers)
+        : await api.streamMessage(text, sessionId || undefined, handlers);
       
       // Update session ID if we got a new one
       if (response.sessionId) {
@@ -189,21 +554,35 @@ function App() {
         storage.setSessionId(response.sessionId);
       }
 
-      // Add AI reply
-      const aiMessage: Message = {
-        sender: "ai",
-        text: response.reply,
-        timestamp: new Date().toISOString(),
-      };
-      setMessages((prev) => [...prev, aiMessage]);
+      // Replace streamed text with the final AI reply; there is none while
+      // a support agent handles the conversation
+      const sentMessage: Message = { ...userMessage, id: response.userMessageId };
+      const aiMessages: Message[] =
+        response.reply !== null && response.messageId !== null
+          ? [
+              {
+                id: response.messageId,
+                sender: "ai",
+                text: response.reply,
+                timestamp: new Date().toISOString(),
+              },
+            ]
+          : [];
+      setMessages((prev) => [
+        ...prev.map((m) => (m === userMessage ? sentMessage : m)),
+        ...aiMessages,
+      ]);
+      setStatus(response.status);
+
+      // New titles and previews
+      refreshConversations();
     } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to send message";
-      setError(errorMessage);
-      
+      reportRequestError(err, "Failed to send message");
+
       // Remove the user message if the request failed
       setMessages((prev) => prev.filter((m) => m !== userMessage));
     } finally {
+      setStreamingText(null);
       setIsLoading(false);
     }
   };
@@ -216,6 +595,15 @@ function App() {
     );
   }
 
+  if (showAuth) {
+    return (
+      <AuthScreen
+        onAuthenticated={handleAuthenticated}
+        onCancel={() => setShowAuth(false)}
+      />
+    );
+  }
+
   return (
     <motion.div
       className="flex flex-col h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-950 transition-colors"
@@ -263,41 +651,100 @@ function App() {
               </motion.p>
             )}
           </div>
-          <motion.button
-            onClick={toggleTheme}
-            whileHover={{ scale: 1.1 }}
-            whileTap={{ scale: 0.95 }}
-            className={`p-2 rounded-lg transition-colors ${
-              theme === "light"
-                ? "bg-white hover:bg-gray-200"
-                : "bg-gray-700 hover:bg-gray-600"
-            }`}
-            aria-label="Toggle theme"
-          >
-            <AnimatePresence mode="wait" initial={false}>
-              {theme === "light" ? (
-                <motion.div
-                  key="moon"
-                  initial={{ rotate: -90, opacity: 0 }}
-                  animate={{ rotate: 0, opacity: 1 }}
-                  exit={{ rotate: 90, opacity: 0 }}
-                  transition={{ duration: 0.2 }}
+          <div className="flex items-center gap-2">
+            {sessionId && status === "bot" && messages.length > 0 && (
+              <motion.button
+                onClick={handleEscalate}
+                disabled={isLoading}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className={`px-3 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-50 ${
+                  theme === "light"
+                    ? "bg-white hover:bg-gray-200 text-gray-700"
+                    : "bg-gray-700 hover:bg-gray-600 text-gray-200"
+                }`}
+                aria-label="Talk to a person"
+                title="Talk to a person"
+              >
+                <Headset size={18} />
+                <span className="hidden lg:inline">Talk to a person</span>
+              </motion.button>
+            )}
+            {user ? (
+              <>
+                <span
+                  className="hidden sm:block text-sm text-gray-600 dark:text-gray-300 truncate max-w-[12rem]"
+                  title={user.email}
                 >
-                  <Moon size={20} className="text-yellow-500" />
-                </motion.div>
-              ) : (
-                <motion.div
-                  key="sun"
-                  initial={{ rotate: 90, opacity: 0 }}
-                  animate={{ rotate: 0, opacity: 1 }}
-                  exit={{ rotate: -90, opacity: 0 }}
-                  transition={{ duration: 0.2 }}
+                  {user.name || user.email}
+                </span>
+                <motion.button
+                  onClick={handleLogout}
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.95 }}
+                  className={`p-2 rounded-lg transition-colors ${
+                    theme === "light"
+                      ? "bg-white hover:bg-gray-200 text-gray-700"
+                      : "bg-gray-700 hover:bg-gray-600 text-gray-200"
+                  }`}
+                  aria-label="Sign out"
+                  title="Sign out"
                 >
-                  <Sun size={20} className="text-yellow-500" />
-                </motion.div>
-              )}
-            </AnimatePresence>
-          </motion.button>
+                  <LogOut size={20} />
+                </motion.button>
+              </>
+            ) : (
+              <motion.button
+                onClick={() => setShowAuth(true)}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                className={`px-3 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium ${
+                  theme === "light"
+                    ? "bg-white hover:bg-gray-200 text-gray-700"
+                    : "bg-gray-700 hover:bg-gray-600 text-gray-200"
+                }`}
+                aria-label="Sign in"
+              >
+                <LogIn size={18} />
+                <span className="hidden sm:inline">Sign in</span>
+              </motion.button>
+            )}
+            <motion.button
+              onClick={toggleTheme}
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.95 }}
+              className={`p-2 rounded-lg transition-colors ${
+                theme === "light"
+                  ? "bg-white hover:bg-gray-200"
+                  : "bg-gray-700 hover:bg-gray-600"
+              }`}
+              aria-label="Toggle theme"
+            >
+              <AnimatePresence mode="wait" initial={false}>
+                {theme === "light" ? (
+                  <motion.div
+                    key="moon"
+                    initial={{ rotate: -90, opacity: 0 }}
+                    animate={{ rotate: 0, opacity: 1 }}
+                    exit={{ rotate: 90, opacity: 0 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <Moon size={20} className="text-yellow-500" />
+                  </motion.div>
+                ) : (
+                  <motion.div
+                    key="sun"
+                    initial={{ rotate: 90, opacity: 0 }}
+                    animate={{ rotate: 0, opacity: 1 }}
+                    exit={{ rotate: -90, opacity: 0 }}
+                    transition={{ duration: 0.2 }}
+                  >
+                    <Sun size={20} className="text-yellow-500" />
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </motion.button>
+          </div>
         </div>
         
         {/* Drag Handle */}
@@ -324,139 +771,149 @@ function App() {
         </motion.div>
       </motion.header>
 
-      {/* Error Banner */}
-      <AnimatePresence>
-        {error && (
-          <motion.div
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: -20 }}
-            transition={{ duration: 0.3 }}
-            className="bg-red-50/90 dark:bg-red-900/30 backdrop-blur-sm border-b border-red-200 dark:border-red-800/50 px-6 py-3 flex items-center gap-2 text-red-800 dark:text-red-200 max-w-4xl mx-auto w-full"
-          >
-            <motion.div
-              animate={{ rotate: [0, -10, 10, -10, 0] }}
-              transition={{ duration: 0.5, repeat: Infinity, repeatDelay: 2 }}
-            >
-              <AlertCircle size={18} />
-            </motion.div>
-            <span className="flex-1">{error}</span>
-            <motion.button
-              onClick={() => setError(null)}
-              whileHover={{ scale: 1.2 }}
-              whileTap={{ scale: 0.9 }}
-              className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 transition-colors rounded-full p-1 hover:bg-red-100 dark:hover:bg-red-800/50"
-              aria-label="Dismiss error"
-            >
-              ×
-            </motion.button>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <div className="flex flex-1 min-h-0">
+        <ConversationSidebar
+          conversations={conversations}
+          activeSessionId={sessionId}
+          showArchived={showArchived}
+          disabled={isLoading}
+          onSelect={handleSelectConversation}
+          onNew={handleNewConversation}
+          onRename={handleRenameConversation}
+          onArchive={handleArchiveConversation}
+          onDelete={handleDeleteConversation}
+          onToggleArchived={() => setShowArchived((prev) => !prev)}
+        />
 
-      {/* Messages Container */}
-      <div
-        ref={chatContainerRef}
-        className="flex-1 overflow-y-auto px-4 sm:px-6 py-6 scroll-smooth relative"
-      >
-        {/* Animated background waves */}
-        <div className="fixed inset-0 pointer-events-none overflow-hidden -z-10">
-          <motion.div
-            className="absolute top-0 left-0 w-full h-full opacity-5 dark:opacity-10"
-            animate={{
-              background: [
-                "radial-gradient(circle at 20% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
-                "radial-gradient(circle at 80% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
-                "radial-gradient(circle at 50% 20%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
-                "radial-gradient(circle at 20% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
-              ],
-            }}
-            transition={{
-              duration: 20,
-              repeat: Infinity,
-              ease: "linear",
-            }}
-          />
-        </div>
+        <div className="flex flex-1 flex-col min-w-0">
+          {/* Error Banner */}
+          <AnimatePresence>
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.3 }}
+                className="bg-red-50/90 dark:bg-red-900/30 backdrop-blur-sm border-b border-red-200 dark:border-red-800/50 px-6 py-3 flex items-center gap-2 text-red-800 dark:text-red-200 max-w-4xl mx-auto w-full"
+              >
+                <motion.div
+                  animate={{ rotate: [0, -10, 10, -10, 0] }}
+                  transition={{ duration: 0.5, repeat: Infinity, repeatDelay: 2 }}
+                >
+                  <AlertCircle size={18} />
+                </motion.div>
+                <span className="flex-1">{error}</span>
+                <motion.button
+                  onClick={() => setError(null)}
+                  whileHover={{ scale: 1.2 }}
+                  whileTap={{ scale: 0.9 }}
+                  className="text-red-600 dark:text-red-400 hover:text-red-800 dark:hover:text-red-200 transition-colors rounded-full p-1 hover:bg-red-100 dark:hover:bg-red-800/50"
+                  aria-label="Dismiss error"
+                >
+                  ×
+                </motion.button>
+              </motion.div>
+            )}
+          </AnimatePresence>
 
-        {messages.length === 0 ? (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ duration: 0.5 }}
-            className="flex items-center justify-center h-full"
+          <HandoffBanner status={status} />
+
+          {/* Messages Container */}
+          <div
+            ref={chatContainerRef}
+            className="flex-1 overflow-y-auto px-4 sm:px-6 py-6 scroll-smooth relative"
           >
-            <div className="text-center text-gray-500 dark:text-gray-400 max-w-md">
+            {/* Animated background waves */}
+            <div className="fixed inset-0 pointer-events-none overflow-hidden -z-10">
               <motion.div
-                className="mb-4"
+                className="absolute top-0 left-0 w-full h-full opacity-5 dark:opacity-10"
                 animate={{
-                  y: [0, -10, 0],
-                  rotate: [0, 5, -5, 0],
+                  background: [
+                    "radial-gradient(circle at 20% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
+                    "radial-gradient(circle at 80% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
+                    "radial-gradient(circle at 50% 20%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
+                    "radial-gradient(circle at 20% 50%, rgba(59, 130, 246, 0.3) 0%, transparent 50%)",
+                  ],
                 }}
                 transition={{
-                  duration: 3,
+                  duration: 20,
                   repeat: Infinity,
-                  ease: "easeInOut",
+                  ease: "linear",
                 }}
+              />
+            </div>
+
+            {messages.length === 0 ? (
+              <motion.div
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                transition={{ duration: 0.5 }}
+                className="flex items-center justify-center h-full"
               >
-                <div className="w-16 h-16 mx-auto bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center shadow-lg">
-                  <MessageCircle size={32} className="text-white" />
+                <div className="text-center text-gray-500 dark:text-gray-400 max-w-md">
+                  <motion.div
+                    className="mb-4"
+                    animate={{
+                      y: [0, -10, 0],
+                      rotate: [0, 5, -5, 0],
+                    }}
+                    transition={{
+                      duration: 3,
+                      repeat: Infinity,
+                      ease: "easeInOut",
+                    }}
+                  >
+                    <div className="w-16 h-16 mx-auto bg-gradient-to-br from-blue-500 to-blue-600 rounded-2xl flex items-center justify-center shadow-lg">
+                      <MessageCircle size={32} className="text-white" />
+                    </div>
+                  </motion.div>
+                  <motion.p
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.2 }}
+                    className="text-xl font-semibold mb-2"
+                  >
+                    Start a conversation
+                  </motion.p>
+                  <motion.p
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: 0.3 }}
+                    className="text-sm"
+                  >
+                    Ask about shipping, returns, or any other questions!
+                  </motion.p>
+                  <motion.p
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ delay: 0.5 }}
+                    className="text-xs mt-4 text-gray-400 dark:text-gray-500"
+                  >
+                    Tip: Start typing anywhere to focus the input
+                  </motion.p>
                 </div>
               </motion.div>
-              <motion.p
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.2 }}
-                className="text-xl font-semibold mb-2"
-              >
-                Start a conversation
-              </motion.p>
-              <motion.p
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: 0.3 }}
-                className="text-sm"
-              >
-                Ask about shipping, returns, or any other questions!
-              </motion.p>
-              <motion.p
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ delay: 0.5 }}
-                className="text-xs mt-4 text-gray-400 dark:text-gray-500"
-              >
-                Tip: Start typing anywhere to focus the input
-              </motion.p>
-            </div>
-          </motion.div>
-        ) : (
-          <div className="space-y-1">
-            <AnimatePresence>
-              {messages.map((message, index) => (
-                <motion.div
-                  key={`${message.timestamp}-${index}`}
-                  initial={{ opacity: 0, y: 20, scale: 0.95 }}
-                  animate={{ opacity: 1, y: 0, scale: 1 }}
-                  transition={{
-                    duration: 0.3,
-                    delay: index * 0.05,
-                    ease: "easeOut",
-                  }}
-                >
-                  <ChatMessage message={message} />
-                </motion.div>
-              ))}
-              {isLoading && (
-                <TypingIndicator />
-              )}
-            </AnimatePresence>
-            <div ref={messagesEndRef} />
+            ) : (
+              <MessageList
+                messages={messages}
+                streamingText={streamingText}
+                isLoading={isLoading || isAssistantTyping}
+                hasOlder={nextCursor !== null}
+                isLoadingOlder={isLoadingOlder}
+                onLoadOlder={loadOlderMessages}
+                onFeedbackChange={handleFeedbackChange}
+                onRegenerate={handleRegenerate}
+                onEdit={handleEdit}
+                onSelectAlternative={handleSelectAlternative}
+                scrollElementRef={chatContainerRef}
+              />
+            )}
           </div>
-        )}
-      </div>
 
-      {/* Input */}
-      <ChatInput ref={inputRef} onSend={handleSend} disabled={isLoading} />
+          {/* Input */}
+          <ChatInput ref={inputRef} onSend={handleSend} disabled={isLoading} />
+        </div>
+      </div>
     </motion.div>
   );
 }
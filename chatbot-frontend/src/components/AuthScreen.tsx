@@ -0,0 +1,143 @@
+import { useState, type FormEvent } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { AlertCircle, LogIn, UserPlus } from "lucide-react";
+import { api } from "../lib/api";
+import type { AuthResponse } from "../types/auth";
+
+interface AuthScreenProps {
+  onAuthenticated: (auth: AuthResponse) => void;
+  onCancel: () => void;
+}
+
+type Mode = "login" | "register";
+
+export function AuthScreen({ onAuthenticated, onCancel }: AuthScreenProps) {
+  const [mode, setMode] = useState<Mode>("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const auth =
+        mode === "login"
+          ? await api.login({ email, password })
+          : await api.register({ email, password, name: name || undefined });
+      onAuthenticated(auth);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClassName =
+    "w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white shadow-sm";
+
+  return (
+    <motion.div
+      className="flex items-center justify-center h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-950 px-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.3 }}
+    >
+      <motion.form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white/80 dark:bg-gray-800/80 backdrop-blur-md rounded-2xl shadow-lg border border-gray-200/50 dark:border-gray-700/50 p-6 space-y-4"
+        initial={{ y: 20, opacity: 0 }}
+        animate={{ y: 0, opacity: 1 }}
+        transition={{ duration: 0.3, ease: "easeOut" }}
+      >
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+          {mode === "login" ? "Sign in" : "Create account"}
+        </h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Your conversations are saved to your account.
+        </p>
+
+        <AnimatePresence>
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -10 }}
+              className="flex items-center gap-2 rounded-xl bg-red-50 dark:bg-red-900/30 px-3 py-2 text-sm text-red-800 dark:text-red-200"
+            >
+              <AlertCircle size={16} />
+              <span>{error}</span>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {mode === "register" && (
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            autoComplete="name"
+            className={inputClassName}
+          />
+        )}
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          autoComplete="email"
+          required
+          className={inputClassName}
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (at least 8 characters)"
+          autoComplete={mode === "login" ? "current-password" : "new-password"}
+          minLength={8}
+          required
+          className={inputClassName}
+        />
+
+        <motion.button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full px-5 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 shadow-md font-medium"
+          whileHover={{ scale: isSubmitting ? 1 : 1.02 }}
+          whileTap={{ scale: isSubmitting ? 1 : 0.98 }}
+        >
+          {mode === "login" ? <LogIn size={18} /> : <UserPlus size={18} />}
+          {mode === "login" ? "Sign in" : "Create account"}
+        </motion.button>
+
+        <div className="flex items-center justify-between text-sm">
+          <button
+            type="button"
+            onClick={() => {
+              setMode(mode === "login" ? "register" : "login");
+              setError(null);
+            }}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {mode === "login" ? "Create an account" : "I already have an account"}
+          </button>
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Continue as guest
+          </button>
+        </div>
+      </motion.form>
+    </motion.div>
+  );
+}
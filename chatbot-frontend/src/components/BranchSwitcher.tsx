@@ -0,0 +1,50 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "../lib/utils";
+
+interface BranchSwitcherProps {
+  messageId: string;
+  alternatives: string[];
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+}
+
+/**
+ * "‹ 2/3 ›" control to flip between versions of a regenerated or edited message
+ */
+export function BranchSwitcher({ messageId, alternatives, disabled, onSelect }: BranchSwitcherProps) {
+  const index = alternatives.indexOf(messageId);
+  if (index === -1 || alternatives.length < 2) {
+    return null;
+  }
+
+  const buttonClassName = cn(
+    "p-0.5 rounded-md transition-colors text-gray-400 hover:text-gray-700 dark:hover:text-gray-200",
+    "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:text-gray-400"
+  );
+
+  return (
+    <div className="inline-flex items-center gap-0.5 text-xs text-gray-500 dark:text-gray-400">
+      <button
+        onClick={() => onSelect(alternatives[index - 1])}
+        disabled={disabled || index === 0}
+        className={buttonClassName}
+        aria-label="Previous version"
+        title="Previous version"
+      >
+        <ChevronLeft size={14} />
+      </button>
+      <span className="tabular-nums">
+        {index + 1}/{alternatives.length}
+      </span>
+      <button
+        onClick={() => onSelect(alternatives[index + 1])}
+        disabled={disabled || index === alternatives.length - 1}
+        className={buttonClassName}
+        aria-label="Next version"
+        title="Next version"
+      >
+        <ChevronRight size={14} />
+      </button>
+    </div>
+  );
+}
@@ -1,14 +1,55 @@
+import { useState, type FormEvent } from "react";
 import { motion } from "framer-motion";
 import ReactMarkdown from "react-markdown";
-import type { Message } from "../types/chat";
-import { MessageCircle, User } from "lucide-react";
+import type { Message, MessageFeedback } from "../types/chat";
+import { Headset, MessageCircle, Pencil, RefreshCw, User } from "lucide-react";
+import { FeedbackControls } from "./FeedbackControls";
+import { BranchSwitcher } from "./BranchSwitcher";
 
 interface ChatMessageProps {
   message: Message;
+  isStreaming?: boolean;
+  actionsDisabled?: boolean;
+  onFeedbackChange?: (feedback: MessageFeedback | null) => void;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
+  onSelectAlternative?: (messageId: string) => void;
 }
 
-export function ChatMessage({ message }: ChatMessageProps) {
+export function ChatMessage({
+  message,
+  isStreaming,
+  actionsDisabled,
+  onFeedbackChange,
+  onRegenerate,
+  onEdit,
+  onSelectAlternative,
+}: ChatMessageProps) {
   const isUser = message.sender === "user";
+  const isAgent = message.sender === "agent"; // Human support agent
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const handleSubmitEdit = (e: FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    setIsEditing(false);
+    if (text && text !== message.text) {
+      onEdit?.(text);
+    }
+  };
+
+  const actionButtonClassName =
+    "p-1 rounded-md transition-colors text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed";
+  const showActions =
+    !isStreaming &&
+    !!message.id &&
+    (!!onRegenerate || !!onEdit || (!!onSelectAlternative && !!message.alternatives));
 
   return (
     <motion.div
@@ -22,7 +63,9 @@ export function ChatMessage({ message }: ChatMessageProps) {
         className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center shadow-md ${
           isUser
             ? "bg-gradient-to-br from-blue-500 to-blue-600 text-white"
-            : "bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-800 text-gray-700 dark:text-gray-200"
+            : isAgent
+              ? "bg-gradient-to-br from-emerald-500 to-emerald-600 text-white"
+              : "bg-gradient-to-br from-gray-100 to-gray-200 dark:from-gray-700 dark:to-gray-800 text-gray-700 dark:text-gray-200"
         }`}
         animate={{
           scale: [1, 1.05, 1],
@@ -36,6 +79,8 @@ export function ChatMessage({ message }: ChatMessageProps) {
       >
         {isUser ? (
           <User size={20} />
+        ) : isAgent ? (
+          <Headset size={20} />
         ) : (
           <MessageCircle size={20} />
         )}
@@ -43,89 +88,173 @@ export function ChatMessage({ message }: ChatMessageProps) {
       <div
         className={`flex-1 ${isUser ? "text-right" : "text-left"}`}
       >
-        <motion.div
-          className={`inline-block px-5 py-3 rounded-2xl shadow-sm ${
-            isUser
-              ? "bg-gradient-to-br from-blue-500 to-blue-600 text-white rounded-br-md"
-              : "bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md border border-gray-200 dark:border-gray-700"
-          }`}
-          whileHover={{ 
-            scale: 1.02,
-            boxShadow: "0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)"
-          }}
-          transition={{ duration: 0.2 }}
-        >
+        {isEditing ? (
+          <form onSubmit={handleSubmitEdit} className="inline-block w-full max-w-xl text-left">
+            <textarea
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setIsEditing(false)}
+              maxLength={5000}
+              rows={3}
+              className="w-full resize-none px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-2xl focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+            />
+            <div className="flex justify-end gap-2 mt-1 text-sm">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="px-3 py-1 text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={!draft.trim()}
+                className="px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white disabled:opacity-50"
+              >
+                Send
+              </button>
+            </div>
+          </form>
+        ) : (
           <motion.div
-            className="break-words leading-relaxed"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ duration: 0.3 }}
+            className={`inline-block px-5 py-3 rounded-2xl shadow-sm ${
+              isUser
+                ? "bg-gradient-to-br from-blue-500 to-blue-600 text-white rounded-br-md"
+                : "bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 rounded-bl-md border border-gray-200 dark:border-gray-700"
+            }`}
+            whileHover={{ 
+              scale: 1.02,
+              boxShadow: "0 10px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04)"
+            }}
+            transition={{ duration: 0.2 }}
           >
-            {isUser ? (
-              <p className="whitespace-pre-wrap m-0">{message.text}</p>
-            ) : (
-              <ReactMarkdown
-                className="markdown-content"
-                components={{
-                  // Style headings
-                  h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2 first:mt-0">{children}</h1>,
-                  h2: ({ children }) => <h2 className="text-lg font-bold mt-3 mb-2 first:mt-0">{children}</h2>,
-                  h3: ({ children }) => <h3 className="text-base font-bold mt-2 mb-1 first:mt-0">{children}</h3>,
-                  // Style paragraphs
-                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                  // Style lists
-                  ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1 ml-2">{children}</ul>,
-                  ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1 ml-2">{children}</ol>,
-                  li: ({ children }) => <li className="ml-2">{children}</li>,
-                  // Style bold and italic
-                  strong: ({ children }) => <strong className="font-semibold text-gray-900 dark:text-gray-100">{children}</strong>,
-                  em: ({ children }) => <em className="italic">{children}</em>,
-                  // Style code
-                  code: ({ children, className }) => {
-                    const isInline = !className;
-                    return isInline ? (
-                      <code className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>
-                    ) : (
-                      <code className={className}>{children}</code>
-                    );
-                  },
-                  // Style links
-                  a: ({ href, children }) => (
-                    <a
-                      href={href}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 dark:text-blue-400 hover:underline"
-                    >
-                      {children}
-                    </a>
-                  ),
-                  // Style blockquotes
-                  blockquote: ({ children }) => (
-                    <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-2">
-                      {children}
-                    </blockquote>
-                  ),
-                  // Style horizontal rules
-                  hr: () => <hr className="my-3 border-gray-200 dark:border-gray-700" />,
-                }}
-              >
-                {message.text}
-              </ReactMarkdown>
-            )}
+            <motion.div
+              className="break-words leading-relaxed"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.3 }}
+            >
+              {isUser || isAgent ? (
+                <p className="whitespace-pre-wrap m-0">{message.text}</p>
+              ) : (
+                <ReactMarkdown
+                  className="markdown-content"
+                  components={{
+                    // Style headings
+                    h1: ({ children }) => <h1 className="text-xl font-bold mt-4 mb-2 first:mt-0">{children}</h1>,
+                    h2: ({ children }) => <h2 className="text-lg font-bold mt-3 mb-2 first:mt-0">{children}</h2>,
+                    h3: ({ children }) => <h3 className="text-base font-bold mt-2 mb-1 first:mt-0">{children}</h3>,
+                    // Style paragraphs
+                    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                    // Style lists
+                    ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1 ml-2">{children}</ul>,
+                    ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1 ml-2">{children}</ol>,
+                    li: ({ children }) => <li className="ml-2">{children}</li>,
+                    // Style bold and italic
+                    strong: ({ children }) => <strong className="font-semibold text-gray-900 dark:text-gray-100">{children}</strong>,
+                    em: ({ children }) => <em className="italic">{children}</em>,
+                    // Style code
+                    code: ({ children, className }) => {
+                      const isInline = !className;
+                      return isInline ? (
+                        <code className="bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>
+                      ) : (
+                        <code className={className}>{children}</code>
+                      );
+                    },
+                    // Style links
+                    a: ({ href, children }) => (
+                      <a
+                        href={href}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        {children}
+                      </a>
+                    ),
+                    // Style blockquotes
+                    blockquote: ({ children }) => (
+                      <blockquote className="border-l-4 border-gray-300 dark:border-gray-600 pl-4 italic my-2">
+                        {children}
+                      </blockquote>
+                    ),
+                    // Style horizontal rules
+                    hr: () => <hr className="my-3 border-gray-200 dark:border-gray-700" />,
+                  }}
+                >
+                  {message.text}
+                </ReactMarkdown>
+              )}
+              {isStreaming && (
+                <motion.span
+                  className="inline-block w-2 h-4 ml-0.5 align-middle bg-gray-400 dark:bg-gray-500"
+                  animate={{ opacity: [1, 0, 1] }}
+                  transition={{ duration: 1, repeat: Infinity }}
+                  aria-hidden="true"
+                />
+              )}
+            </motion.div>
           </motion.div>
-        </motion.div>
+        )}
         <motion.p
           className="text-xs text-gray-500 dark:text-gray-400 mt-2 px-2"
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ delay: 0.2 }}
         >
+          {isAgent && "Support agent · "}
           {new Date(message.timestamp).toLocaleTimeString([], {
             hour: "2-digit",
             minute: "2-digit",
           })}
         </motion.p>
+        {showActions && !isEditing && (
+          <div
+            className={`flex items-center gap-1 px-2 mt-1 ${
+              isUser ? "justify-end" : "justify-start"
+            }`}
+          >
+            {onSelectAlternative && message.alternatives && message.id && (
+              <BranchSwitcher
+                messageId={message.id}
+                alternatives={message.alternatives}
+                disabled={actionsDisabled}
+                onSelect={onSelectAlternative}
+              />
+            )}
+            {onEdit && (
+              <button
+                onClick={startEditing}
+                disabled={actionsDisabled}
+                className={actionButtonClassName}
+                aria-label="Edit message"
+                title="Edit message"
+              >
+                <Pencil size={14} />
+              </button>
+            )}
+            {onRegenerate && (
+              <button
+                onClick={onRegenerate}
+                disabled={actionsDisabled}
+                className={actionButtonClassName}
+                aria-label="Regenerate reply"
+                title="Regenerate reply"
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+          </div>
+        )}
+        {message.sender === "ai" && !isStreaming && message.id && (
+          <FeedbackControls
+            messageId={message.id}
+            initialFeedback={message.feedback}
+            onChange={onFeedbackChange}
+          />
+        )}
       </div>
     </motion.div>
   );
@@ -0,0 +1,176 @@
+import { useState, type FormEvent } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Trash2, X } from "lucide-react";
+import type { Conversation } from "../types/chat";
+import { cn } from "../lib/utils";
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeSessionId: string | null;
+  showArchived: boolean;
+  disabled?: boolean;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+  onRename: (sessionId: string, title: string) => void;
+  onArchive: (sessionId: string, archived: boolean) => void;
+  onDelete: (sessionId: string) => void;
+  onToggleArchived: () => void;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeSessionId,
+  showArchived,
+  disabled,
+  onSelect,
+  onNew,
+  onRename,
+  onArchive,
+  onDelete,
+  onToggleArchived,
+}: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.sessionId);
+    setDraftTitle(conversation.title ?? "");
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    const title = draftTitle.trim();
+    if (editingId && title) {
+      onRename(editingId, title);
+    }
+    setEditingId(null);
+  };
+
+  const iconButtonClassName =
+    "p-1 rounded-md text-gray-400 hover:text-gray-700 hover:bg-gray-200 dark:hover:text-gray-200 dark:hover:bg-gray-700 transition-colors";
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col border-r border-gray-200/50 dark:border-gray-700/50 bg-white/60 dark:bg-gray-800/60 backdrop-blur-md">
+      <div className="p-3">
+        <motion.button
+          onClick={onNew}
+          disabled={disabled}
+          whileHover={{ scale: disabled ? 1 : 1.02 }}
+          whileTap={{ scale: disabled ? 1 : 0.98 }}
+          className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-xl hover:from-blue-600 hover:to-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2 shadow-md text-sm font-medium"
+        >
+          <Plus size={16} />
+          New chat
+        </motion.button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="px-2 py-4 text-sm text-center text-gray-400 dark:text-gray-500">
+            {showArchived ? "No archived chats" : "No conversations yet"}
+          </p>
+        )}
+        <AnimatePresence initial={false}>
+          {conversations.map((conversation) => {
+            const isActive = conversation.sessionId === activeSessionId;
+            const isEditing = conversation.sessionId === editingId;
+
+            return (
+              <motion.div
+                key={conversation.sessionId}
+                layout
+                initial={{ opacity: 0, x: -10 }}
+                animate={{ opacity: 1, x: 0 }}
+                exit={{ opacity: 0, x: -10 }}
+                transition={{ duration: 0.2 }}
+                className={cn(
+                  "group rounded-lg px-3 py-2 cursor-pointer transition-colors",
+                  isActive
+                    ? "bg-blue-50 dark:bg-blue-900/30"
+                    : "hover:bg-gray-100 dark:hover:bg-gray-700/50"
+                )}
+                onClick={() => !isEditing && !disabled && onSelect(conversation.sessionId)}
+              >
+                {isEditing ? (
+                  <form onSubmit={handleRename} className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === "Escape" && setEditingId(null)}
+                      maxLength={100}
+                      className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+                    />
+                    <button type="submit" className={iconButtonClassName} aria-label="Save title">
+                      <Check size={14} />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setEditingId(null)}
+                      className={iconButtonClassName}
+                      aria-label="Cancel rename"
+                    >
+                      <X size={14} />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="flex items-center gap-1">
+                      <span className="flex-1 min-w-0 truncate text-sm font-medium text-gray-800 dark:text-gray-100">
+                        {conversation.title || "New chat"}
+                      </span>
+                      <div
+                        className="hidden group-hover:flex items-center"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <button
+                          onClick={() => startEditing(conversation)}
+                          className={iconButtonClassName}
+                          aria-label="Rename"
+                          title="Rename"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => onArchive(conversation.sessionId, !conversation.archived)}
+                          className={iconButtonClassName}
+                          aria-label={conversation.archived ? "Unarchive" : "Archive"}
+                          title={conversation.archived ? "Unarchive" : "Archive"}
+                        >
+                          {conversation.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                        </button>
+                        <button
+                          onClick={() => onDelete(conversation.sessionId)}
+                          className={cn(iconButtonClassName, "hover:text-red-600 dark:hover:text-red-400")}
+                          aria-label="Delete"
+                          title="Delete"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {conversation.preview && (
+                      <p className="truncate text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+                        {conversation.preview}
+                      </p>
+                    )}
+                  </>
+                )}
+              </motion.div>
+            );
+          })}
+        </AnimatePresence>
+      </div>
+
+      <div className="p-3 border-t border-gray-200/50 dark:border-gray-700/50">
+        <button
+          onClick={onToggleArchived}
+          className="w-full flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+        >
+          <Archive size={14} />
+          {showArchived ? "Back to chats" : "Archived chats"}
+        </button>
+      </div>
+    </aside>
+  );
+}
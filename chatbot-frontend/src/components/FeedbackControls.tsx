@@ -0,0 +1,153 @@
+import { useState, type FormEvent } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { api } from "../lib/api";
+import { cn } from "../lib/utils";
+import type { FeedbackRating, FeedbackReason, MessageFeedback } from "../types/chat";
+
+interface FeedbackControlsProps {
+  messageId: string;
+  initialFeedback?: MessageFeedback;
+  onChange?: (feedback: MessageFeedback | null) => void;
+}
+
+// Offered after a thumbs down
+const REASONS: { value: FeedbackReason; label: string }[] = [
+  { value: "incorrect", label: "Incorrect" },
+  { value: "incomplete", label: "Incomplete" },
+  { value: "off_topic", label: "Off topic" },
+  { value: "not_helpful", label: "Not helpful" },
+  { value: "other", label: "Other" },
+];
+
+export function FeedbackControls({ messageId, initialFeedback, onChange }: FeedbackControlsProps) {
+  const [feedback, setFeedback] = useState<MessageFeedback | null>(initialFeedback ?? null);
+  const [showDetails, setShowDetails] = useState(false);
+  const [reason, setReason] = useState<FeedbackReason | null>(initialFeedback?.reason ?? null);
+  const [comment, setComment] = useState(initialFeedback?.comment ?? "");
+
+  const save = async (next: MessageFeedback | null) => {
+    const previous = feedback;
+    setFeedback(next);
+
+    try {
+      if (next) {
+        await api.rateMessage(messageId, next);
+      } else {
+        await api.clearFeedback(messageId);
+      }
+      onChange?.(next);
+    } catch (err) {
+      console.error("Failed to save feedback:", err);
+      setFeedback(previous);
+    }
+  };
+
+  const handleRate = (rating: FeedbackRating) => {
+    // Clicking the selected thumb again removes the rating
+    if (feedback?.rating === rating) {
+      setShowDetails(false);
+      save(null);
+      return;
+    }
+
+    setReason(null);
+    setComment("");
+    setShowDetails(rating === "down");
+    save({ rating });
+  };
+
+  const handleSubmitDetails = (e: FormEvent) => {
+    e.preventDefault();
+    setShowDetails(false);
+    save({ rating: "down", reason, comment: comment.trim() || null });
+  };
+
+  const buttonClassName = (rating: FeedbackRating) =>
+    cn(
+      "p-1 rounded-md transition-colors",
+      feedback?.rating === rating
+        ? "text-blue-600 dark:text-blue-400"
+        : "text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+    );
+
+  return (
+    <div className="px-2 mt-1">
+      <div className="flex items-center gap-1">
+        <button
+          onClick={() => handleRate("up")}
+          className={buttonClassName("up")}
+          aria-label="Good response"
+          aria-pressed={feedback?.rating === "up"}
+          title="Good response"
+        >
+          <ThumbsUp size={14} />
+        </button>
+        <button
+          onClick={() => handleRate("down")}
+          className={buttonClassName("down")}
+          aria-label="Bad response"
+          aria-pressed={feedback?.rating === "down"}
+          title="Bad response"
+        >
+          <ThumbsDown size={14} />
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {showDetails && (
+          <motion.form
+            onSubmit={handleSubmitDetails}
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            transition={{ duration: 0.2 }}
+            className="mt-2 max-w-md space-y-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-3 text-sm"
+          >
+            <p className="text-gray-600 dark:text-gray-300">What was wrong?</p>
+            <div className="flex flex-wrap gap-1">
+              {REASONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setReason(reason === option.value ? null : option.value)}
+                  className={cn(
+                    "px-2 py-1 rounded-full border text-xs transition-colors",
+                    reason === option.value
+                      ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                      : "border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Add a comment (optional)"
+              maxLength={1000}
+              rows={2}
+              className="w-full resize-none px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-900 dark:text-white"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setShowDetails(false)}
+                className="px-3 py-1 text-gray-500 dark:text-gray-400 hover:underline"
+              >
+                Skip
+              </button>
+              <button
+                type="submit"
+                className="px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white"
+              >
+                Send
+              </button>
+            </div>
+          </motion.form>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
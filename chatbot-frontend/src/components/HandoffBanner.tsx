@@ -0,0 +1,35 @@
+import { motion, AnimatePresence } from "framer-motion";
+import { Headset } from "lucide-react";
+import type { ConversationStatus } from "../types/chat";
+
+interface HandoffBannerProps {
+  status: ConversationStatus;
+}
+
+const MESSAGES: Record<Exclude<ConversationStatus, "bot">, string> = {
+  escalated: "A support agent will join shortly. The assistant can keep helping meanwhile.",
+  assigned: "A support agent has joined the conversation.",
+};
+
+/**
+ * Tells the customer a person is on the way or has taken over
+ */
+export function HandoffBanner({ status }: HandoffBannerProps) {
+  return (
+    <AnimatePresence>
+      {status !== "bot" && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -20 }}
+          transition={{ duration: 0.3 }}
+          className="bg-blue-50/90 dark:bg-blue-900/30 backdrop-blur-sm border-b border-blue-200 dark:border-blue-800/50 px-6 py-2 flex items-center gap-2 text-sm text-blue-800 dark:text-blue-200 max-w-4xl mx-auto w-full"
+          role="status"
+        >
+          <Headset size={16} />
+          <span>{MESSAGES[status]}</span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
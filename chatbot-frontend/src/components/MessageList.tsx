@@ -0,0 +1,191 @@
+import { useEffect, useLayoutEffect, useRef, type RefObject } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ChatMessage } from "./ChatMessage";
+import { TypingIndicator } from "./TypingIndicator";
+import type { Message, MessageFeedback } from "../types/chat";
+
+interface MessageListProps {
+  messages: Message[];
+  streamingText: string | null;
+  isLoading: boolean;
+  hasOlder: boolean;
+  isLoadingOlder: boolean;
+  onLoadOlder: () => void;
+  onFeedbackChange: (messageId: string, feedback: MessageFeedback | null) => void;
+  onRegenerate: (messageId: string) => void;
+  onEdit: (messageId: string, text: string) => void;
+  onSelectAlternative: (messageId: string) => void;
+  scrollElementRef: RefObject<HTMLDivElement | null>;
+}
+
+const ESTIMATED_MESSAGE_HEIGHT = 96; // Real heights are measured once rendered
+const LOAD_OLDER_THRESHOLD = 200; // Distance from the top (px) that triggers loading
+
+/**
+ * Stable key: server ID, or timestamp for messages not reloaded since sending
+ */
+function messageKey(message: Message): string {
+  return message.id ?? `local-${message.sender}-${message.timestamp}`;
+}
+
+function lastIndexOfSender(messages: Message[], sender: Message["sender"]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].sender === sender) return i;
+  }
+  return -1;
+}
+
+/**
+ * Virtualized message list: only the messages near the viewport are rendered,
+ * older pages are requested when scrolling close to the top
+ */
+export function MessageList({
+  messages,
+  streamingText,
+  isLoading,
+  hasOlder,
+  isLoadingOlder,
+  onLoadOlder,
+  onFeedbackChange,
+  onRegenerate,
+  onEdit,
+  onSelectAlternative,
+  scrollElementRef,
+}: MessageListProps) {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollElementRef.current,
+    estimateSize: () => ESTIMATED_MESSAGE_HEIGHT,
+    getItemKey: (index) => messageKey(messages[index]),
+    overscan: 6,
+  });
+
+  // Only the latest turn can be regenerated or edited
+  const lastUserIndex = lastIndexOfSender(messages, "user");
+  const lastAiIndex = lastIndexOfSender(messages, "ai");
+
+  const firstKey = messages.length > 0 ? messageKey(messages[0]) : null;
+  const lastKey =
+    messages.length > 0 ? messageKey(messages[messages.length - 1]) : null;
+  const previous = useRef<{
+    firstKey: string | null;
+    lastKey: string | null;
+    totalSize: number;
+  }>({ firstKey: null, lastKey: null, totalSize: 0 });
+
+  // Keep the viewport steady when older messages are prepended, and jump to
+  // the newest message when a conversation is loaded
+  useLayoutEffect(() => {
+    const prev = previous.current;
+    previous.current = { firstKey, lastKey, totalSize: virtualizer.getTotalSize() };
+
+    const scrollElement = scrollElementRef.current;
+    if (!scrollElement || (firstKey === prev.firstKey && lastKey === prev.lastKey)) {
+      return;
+    }
+
+    if (lastKey === prev.lastKey) {
+      scrollElement.scrollTop += virtualizer.getTotalSize() - prev.totalSize;
+    } else if (firstKey !== prev.firstKey && messages.length > 0) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: "end" });
+    }
+  }, [firstKey, lastKey, messages.length, virtualizer, scrollElementRef]);
+
+  // Follow new messages and the streamed reply
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [lastKey, isLoading, streamingText]);
+
+  // Load older messages when scrolled near the top
+  useEffect(() => {
+    const scrollElement = scrollElementRef.current;
+    if (!scrollElement || !hasOlder || isLoadingOlder) return;
+
+    const handleScroll = () => {
+      if (scrollElement.scrollTop < LOAD_OLDER_THRESHOLD) {
+        onLoadOlder();
+      }
+    };
+
+    // The first page may not fill the viewport, check without waiting for a scroll
+    handleScroll();
+    scrollElement.addEventListener("scroll", handleScroll, { passive: true });
+    return () => scrollElement.removeEventListener("scroll", handleScroll);
+  }, [hasOlder, isLoadingOlder, onLoadOlder, scrollElementRef]);
+
+  return (
+    <div>
+      <div className="h-8 flex items-center justify-center text-xs text-gray-400 dark:text-gray-500">
+        {isLoadingOlder && "Loading earlier messages..."}
+      </div>
+
+      <div className="relative w-full" style={{ height: `${virtualizer.getTotalSize()}px` }}>
+        {virtualizer.getVirtualItems().map((item) => {
+          const message = messages[item.index];
+
+          return (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              className="absolute top-0 left-0 w-full"
+              style={{ transform: `translateY(${item.start}px)` }}
+            >
+              {/* Only animate messages sent in this session, not loaded history */}
+              <motion.div
+                initial={message.id ? false : { opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                transition={{ duration: 0.3, ease: "easeOut" }}
+              >
+                <ChatMessage
+                  message={message}
+                  actionsDisabled={isLoading}
+                  onFeedbackChange={(feedback) =>
+                    message.id && onFeedbackChange(message.id, feedback)
+                  }
+                  onRegenerate={
+                    item.index === lastAiIndex && lastAiIndex > lastUserIndex
+                      ? () => message.id && onRegenerate(message.id)
+                      : undefined
+                  }
+                  onEdit={
+                    item.index === lastUserIndex
+                      ? (text) => message.id && onEdit(message.id, text)
+                      : undefined
+                  }
+                  onSelectAlternative={onSelectAlternative}
+                />
+              </motion.div>
+            </div>
+          );
+        })}
+      </div>
+
+      <AnimatePresence>
+        {streamingText && (
+          <motion.div
+            key="streaming-reply"
+            initial={{ opacity: 0, y: 20, scale: 0.95 }}
+            animate={{ opacity: 1, y: 0, scale: 1 }}
+            transition={{ duration: 0.3, ease: "easeOut" }}
+          >
+            <ChatMessage
+              message={{
+                sender: "ai",
+                text: streamingText,
+                timestamp: new Date().toISOString(),
+              }}
+              isStreaming
+            />
+          </motion.div>
+        )}
+        {isLoading && !streamingText && (
+          <TypingIndicator />
+        )}
+      </AnimatePresence>
+      <div ref={messagesEndRef} />
+    </div>
+  );
+}
@@ -1,43 +1,577 @@
-import type { ChatResponse, HistoryResponse } from "../types/chat";
+import type {
+  ChatResponse,
+  Conversation,
+  ConversationListResponse,
+  ConversationStatus,
+  ConversationUpdate,
+  HistoryResponse,
+  Message,
+  MessageFeedback,
+  StreamHandlers,
+} from "../types/chat";
+import type { AuthResponse, Credentials, User } from "../types/auth";
+import type { AgentConversation, QueuedConversation, QueueResponse } from "../types/agent";
+import { storage } from "./storage";
 
-const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000/api/v1";
+export const API_BASE_URL = import.meta.env.VITE_API_URL || "http://localhost:3000/api/v1";
+// Identifies this storefront to the API (see `npm run store:api-key` in the backend)
+export const STORE_API_KEY = import.meta.env.VITE_STORE_API_KEY || "";
+
+const MAX_SEND_ATTEMPTS = 3;
+const SEND_RETRY_DELAY_MS = 1000; // Multiplied by the attempt number
+
+/**
+ * Error returned by the API, with the HTTP status (401 = sign in again)
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+/**
+ * The store API key, required on every request
+ */
+function storeHeaders(): Record<string, string> {
+  return { "X-Api-Key": STORE_API_KEY };
+}
+
+/**
+ * Authorization header for the signed-in user (none when anonymous), plus
+ * the browser's client ID so guests can manage their conversations
+ */
+function authHeaders(): Record<string, string> {
+  const token = storage.getAuthToken();
+  const clientId = storage.getClientId();
+  return {
+    ...storeHeaders(),
+    ...(token && { Authorization: `Bearer ${token}` }),
+    ...(clientId && { "X-Client-Id": clientId }),
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Build an ApiError from a failed response
+ */
+async function toApiError(response: Response): Promise<ApiError> {
+  const error = await response.json().catch(() => ({ message: "Unknown error" }));
+  return new ApiError(error.message || `HTTP ${response.status}`, response.status);
+}
 
 export const api = {
   /**
    * Send a message and get AI reply
+   * Network failures are retried with the same Idempotency-Key, so a message
+   * the server already received is answered once and its reply returned
    */
   async sendMessage(
     message: string,
     sessionId?: string
   ): Promise<ChatResponse> {
-    const response = await fetch(`${API_BASE_URL}/chat/message`, {
+    const idempotencyKey = crypto.randomUUID();
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}/chat/message`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Idempotency-Key": idempotencyKey,
+            ...authHeaders(),
+          },
+          body: JSON.stringify({ message, sessionId }),
+        });
+      } catch (err) {
+        if (attempt >= MAX_SEND_ATTEMPTS) throw err;
+        await delay(SEND_RETRY_DELAY_MS * attempt);
+        continue;
+      }
+
+      // 409: an earlier attempt is still being answered, wait for its reply
+      if (response.status === 409 && attempt < MAX_SEND_ATTEMPTS) {
+        await delay(SEND_RETRY_DELAY_MS * attempt);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw await toApiError(response);
+      }
+
+      return response.json();
+    }
+  },
+
+  /**
+   * Send a message and stream the AI reply over Server-Sent Events
+   * Resolves with the full reply once the stream completes
+   */
+  async streamMessage(
+    message: string,
+    sessionId: string | undefined,
+    handlers: StreamHandlers = {}
+  ): Promise<ChatResponse> {
+    const response = await fetch(`${API_BASE_URL}/chat/message/stream`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...authHeaders(),
       },
       body: JSON.stringify({ message, sessionId }),
+      signal: handlers.signal,
+    });
+
+    return readReplyStream(response, handlers);
+  },
+
+  /**
+   * Stream another reply in place of an AI message
+   * The previous reply stays available as an alternative
+   */
+  async regenerateMessage(
+    messageId: string,
+    handlers: StreamHandlers = {}
+  ): Promise<ChatResponse> {
+    const response = await fetch(`${API_BASE_URL}/chat/messages/${messageId}/regenerate`, {
+      method: "POST",
+      headers: {
+        Accept: "text/event-stream",
+        ...authHeaders(),
+      },
+      signal: handlers.signal,
+    });
+
+    return readReplyStream(response, handlers);
+  },
+
+  /**
+   * Resend a user message with new text and stream the reply
+   * The original message stays available as an alternative
+   */
+  async editMessage(
+    messageId: string,
+    message: string,
+    handlers: StreamHandlers = {}
+  ): Promise<ChatResponse> {
+    const response = await fetch(`${API_BASE_URL}/chat/messages/${messageId}/edit`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...authHeaders(),
+      },
+      body: JSON.stringify({ message }),
+      signal: handlers.signal,
+    });
+
+    return readReplyStream(response, handlers);
+  },
+
+  /**
+   * Switch the conversation to the branch containing a message
+   */
+  async selectAlternative(messageId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/chat/messages/${messageId}/select`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Get a page of conversation history (the newest messages by default)
+   * Pass the previous page's nextCursor as `before` to get older messages
+   */
+  async getHistory(
+    sessionId: string,
+    page: { before?: number; limit?: number } = {}
+  ): Promise<HistoryResponse> {
+    const params = new URLSearchParams();
+    if (page.before !== undefined) params.set("before", String(page.before));
+    if (page.limit !== undefined) params.set("limit", String(page.limit));
+    const query = params.toString() ? `?${params}` : "";
+
+    const response = await fetch(`${API_BASE_URL}/chat/history/${sessionId}${query}`, {
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * List this user's (or browser's) conversations, most recent first
+   */
+  async listConversations(archived = false): Promise<Conversation[]> {
+    const query = archived ? "?archived=true" : "";
+    const response = await fetch(`${API_BASE_URL}/chat/conversations${query}`, {
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data: ConversationListResponse = await response.json();
+    return data.conversations;
+  },
+
+  /**
+   * Start a new, empty conversation
+   */
+  async createConversation(): Promise<Conversation> {
+    const response = await fetch(`${API_BASE_URL}/chat/conversations`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Rename and/or archive a conversation
+   */
+  async updateConversation(
+    sessionId: string,
+    changes: ConversationUpdate
+  ): Promise<Conversation> {
+    const response = await fetch(`${API_BASE_URL}/chat/conversations/${sessionId}`, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(),
+      },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Delete a conversation
+   */
+  async deleteConversation(sessionId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/chat/conversations/${sessionId}`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Rate an AI message (replaces an earlier rating)
+   */
+  async rateMessage(messageId: string, feedback: MessageFeedback): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/chat/messages/${messageId}/feedback`, {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        ...authHeaders(),
+      },
+      body: JSON.stringify(feedback),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Remove the rating of an AI message
+   */
+  async clearFeedback(messageId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/chat/messages/${messageId}/feedback`, {
+      method: "DELETE",
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Create an account
+   */
+  async register(credentials: Credentials): Promise<AuthResponse> {
+    const response = await fetch(`${API_BASE_URL}/auth/register`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...storeHeaders(),
+      },
+      body: JSON.stringify(credentials),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Sign in and get an access token
+   */
+  async login(credentials: Credentials): Promise<AuthResponse> {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...storeHeaders(),
+      },
+      body: JSON.stringify({
+        email: credentials.email,
+        password: credentials.password,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    return response.json();
+  },
+
+  /**
+   * Get the signed-in user (validates the stored token)
+   */
+  async getMe(): Promise<User> {
+    const response = await fetch(`${API_BASE_URL}/auth/me`, {
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data = await response.json();
+    return data.user;
+  },
+
+  /**
+   * Attach an anonymous conversation to the signed-in user
+   */
+  async claimConversation(sessionId: string): Promise<void> {
+    const response = await fetch(
+      `${API_BASE_URL}/chat/conversations/${sessionId}/claim`,
+      {
+        method: "POST",
+        headers: authHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Ask for a human support agent
+   */
+  async escalateConversation(sessionId: string, reason?: string): Promise<ConversationStatus> {
+    const response = await fetch(
+      `${API_BASE_URL}/chat/conversations/${sessionId}/escalate`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ reason }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data = await response.json();
+    return data.status;
+  },
+
+  /**
+   * Conversations waiting for or handled by an agent (agents only)
+   */
+  async getAgentQueue(): Promise<QueuedConversation[]> {
+    const response = await fetch(`${API_BASE_URL}/agent/queue`, {
+      headers: authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await toApiError(response);
+    }
+
+    const data: QueueResponse = await response.json();
+    return data.conversations;
+  },
+
+  /**
+   * A queued conversation with its handoff note and newest messages (agents only)
+   */
+  async getAgentConversation(sessionId: string): Promise<AgentConversation> {
+    const response = await fetch(`${API_BASE_URL}/agent/conversations/${sessionId}`, {
+      headers: authHeaders(),
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Unknown error" }));
-      throw new Error(error.message || `HTTP ${response.status}`);
+      throw await toApiError(response);
     }
 
     return response.json();
   },
 
   /**
-   * Get conversation history
+   * Claim, release or resolve a queued conversation (agents only)
    */
-  async getHistory(sessionId: string): Promise<HistoryResponse> {
-    const response = await fetch(`${API_BASE_URL}/chat/history/${sessionId}`);
+  async updateHandoff(
+    sessionId: string,
+    action: "claim" | "release" | "resolve"
+  ): Promise<void> {
+    const response = await fetch(
+      `${API_BASE_URL}/agent/conversations/${sessionId}/${action}`,
+      {
+        method: "POST",
+        headers: authHeaders(),
+      }
+    );
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: "Unknown error" }));
-      throw new Error(error.message || `HTTP ${response.status}`);
+      throw await toApiError(response);
+    }
+  },
+
+  /**
+   * Reply to the customer as the assigned agent
+   */
+  async sendAgentMessage(sessionId: string, message: string): Promise<Message> {
+    const response = await fetch(
+      `${API_BASE_URL}/agent/conversations/${sessionId}/messages`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(),
+        },
+        body: JSON.stringify({ message }),
+      }
+    );
+
+    if (!response.ok) {
+      throw await toApiError(response);
     }
 
     return response.json();
   },
 };
 
+
+/**
+ * Read a reply streamed over Server-Sent Events
+ * Resolves with the full reply once the stream completes
+ */
+async function readReplyStream(
+  response: Response,
+  handlers: StreamHandlers
+): Promise<ChatResponse> {
+  if (!response.ok || !response.body) {
+    throw await toApiError(response);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: ChatResponse | null = null;
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // SSE events are separated by a blank line
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+
+      const { event, data } = parseSseEvent(rawEvent);
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "session":
+          handlers.onSession?.(payload.sessionId);
+          break;
+        case "chunk":
+          handlers.onChunk?.(payload.text);
+          break;
+        case "replace":
+          handlers.onReplace?.(payload.text);
+          break;
+        case "done":
+          result = {
+            reply: payload.reply,
+            sessionId: payload.sessionId,
+            messageId: payload.messageId,
+            userMessageId: payload.userMessageId,
+            status: payload.status,
+          };
+          break;
+        case "error":
+          throw new Error(payload.message || "Stream failed");
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error("Connection closed before the reply was complete");
+  }
+
+  return result;
+}
+
+/**
+ * Parse one raw SSE event block into its event name and data payload
+ */
+function parseSseEvent(rawEvent: string): { event: string; data: string } {
+  let event = "message";
+  const dataLines: string[] = [];
+
+  for (const line of rawEvent.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  return { event, data: dataLines.join("\n") };
+}
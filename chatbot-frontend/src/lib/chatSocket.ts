@@ -0,0 +1,185 @@
+import type {
+  ChatResponse,
+  ChatSocketEvents,
+  Message,
+  StreamHandlers,
+} from "../types/chat";
+import { API_BASE_URL, STORE_API_KEY } from "./api";
+import { storage } from "./storage";
+
+// http(s)://host/api/v1 -> ws(s)://host/api/v1/chat/socket
+const SOCKET_URL = `${API_BASE_URL.replace(/^http/, "ws")}/chat/socket`;
+
+const INITIAL_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+type PendingReply = {
+  handlers: StreamHandlers;
+  resolve: (response: ChatResponse) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * WebSocket connection to the chat
+ *
+ * Sends messages and streams replies like api.streamMessage, and receives
+ * what happens in the followed conversation outside of this client's
+ * requests (support agent replies, status changes, the assistant typing).
+ * Reconnects with backoff until closed; callers fall back to REST while
+ * it is not open.
+ */
+export class ChatSocket {
+  private socket: WebSocket | null = null;
+  private pending = new Map<string, PendingReply>();
+  private sessionId: string | null = null;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private isClosed = false;
+  private events: ChatSocketEvents;
+
+  constructor(events: ChatSocketEvents) {
+    this.events = events;
+    this.connect();
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Follow a conversation (null = none); events of others are ignored
+   */
+  follow(sessionId: string | null): void {
+    this.sessionId = sessionId;
+    if (sessionId && this.isOpen) {
+      this.sendJson({ type: "subscribe", sessionId });
+    }
+  }
+
+  /**
+   * Send a message and stream the reply
+   * Resolves with the full reply once it completes
+   */
+  streamMessage(
+    message: string,
+    sessionId: string | undefined,
+    handlers: StreamHandlers = {}
+  ): Promise<ChatResponse> {
+    if (!this.isOpen) {
+      return Promise.reject(new Error("Not connected"));
+    }
+
+    const requestId = crypto.randomUUID();
+    return new Promise((resolve, reject) => {
+      this.pending.set(requestId, { handlers, resolve, reject });
+      this.sendJson({ type: "send", message, sessionId, requestId });
+    });
+  }
+
+  /**
+   * Disconnect for good (e.g. when the signed-in user changes)
+   */
+  close(): void {
+    this.isClosed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    this.socket?.close();
+  }
+
+  private connect(): void {
+    // Browsers can't set headers on a WebSocket: credentials go in the URL
+    const params = new URLSearchParams({ apiKey: STORE_API_KEY });
+    const token = storage.getAuthToken();
+    const clientId = storage.getClientId();
+    if (token) params.set("token", token);
+    if (clientId) params.set("clientId", clientId);
+
+    const socket = new WebSocket(`${SOCKET_URL}?${params}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+      if (this.sessionId) {
+        this.sendJson({ type: "subscribe", sessionId: this.sessionId });
+      }
+      this.events.onOpenChange?.(true);
+    };
+
+    socket.onmessage = (event) => {
+      this.handleServerMessage(JSON.parse(event.data));
+    };
+
+    socket.onclose = () => {
+      this.socket = null;
+      for (const { reject } of this.pending.values()) {
+        reject(new Error("Connection closed before the reply was complete"));
+      }
+      this.pending.clear();
+      this.events.onOpenChange?.(false);
+
+      if (!this.isClosed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), this.reconnectDelay);
+        this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      }
+    };
+  }
+
+  private sendJson(data: unknown): void {
+    this.socket?.send(JSON.stringify(data));
+  }
+
+  private handleServerMessage(data: { type: string; [key: string]: unknown }): void {
+    const pending =
+      typeof data.requestId === "string" ? this.pending.get(data.requestId) : undefined;
+
+    switch (data.type) {
+      case "session":
+        pending?.handlers.onSession?.(data.sessionId as string);
+        break;
+      case "chunk":
+        pending?.handlers.onChunk?.(data.text as string);
+        break;
+      case "replace":
+        pending?.handlers.onReplace?.(data.text as string);
+        break;
+      case "done":
+        if (pending) {
+          this.pending.delete(data.requestId as string);
+          pending.resolve({
+            reply: data.reply as ChatResponse["reply"],
+            sessionId: data.sessionId as string,
+            messageId: data.messageId as ChatResponse["messageId"],
+            userMessageId: data.userMessageId as string,
+            status: data.status as ChatResponse["status"],
+          });
+        }
+        break;
+      case "error":
+        if (pending) {
+          this.pending.delete(data.requestId as string);
+          pending.reject(new Error((data.message as string) || "Request failed"));
+        } else {
+          console.error("Chat socket error:", data.message);
+        }
+        break;
+      case "subscribed":
+      case "status":
+        if (data.sessionId === this.sessionId) {
+          this.events.onStatus?.(data.status as ChatResponse["status"]);
+        }
+        break;
+      case "message":
+        if (data.sessionId === this.sessionId) {
+          this.events.onMessage?.(data.message as Message);
+        }
+        break;
+      case "typing":
+        // Our own replies are streamed already
+        if (data.sessionId === this.sessionId && this.pending.size === 0) {
+          this.events.onTyping?.(data.isTyping as boolean);
+        }
+        break;
+    }
+  }
+}
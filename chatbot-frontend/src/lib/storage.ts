@@ -1,5 +1,10 @@
+import type { User } from "../types/auth";
+
 const SESSION_ID_KEY = "chatbot_session_id";
 const HEADER_HEIGHT_KEY = "chatbot_header_height";
+const AUTH_TOKEN_KEY = "chatbot_auth_token";
+const AUTH_USER_KEY = "chatbot_auth_user";
+const CLIENT_ID_KEY = "chatbot_client_id";
 
 export const storage = {
   /**
@@ -26,6 +31,20 @@ export const storage = {
     localStorage.removeItem(SESSION_ID_KEY);
   },
 
+  /**
+   * Get this browser's client ID, creating it on first use
+   * Lets the server list the conversations started here without an account
+   */
+  getClientId(): string | null {
+    if (typeof window === "undefined") return null;
+    let clientId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = crypto.randomUUID();
+      localStorage.setItem(CLIENT_ID_KEY, clientId);
+    }
+    return clientId;
+  },
+
   /**
    * Get header height from localStorage
    */
@@ -42,5 +61,44 @@ export const storage = {
     if (typeof window === "undefined") return;
     localStorage.setItem(HEADER_HEIGHT_KEY, height.toString());
   },
-};
 
+  /**
+   * Get access token from localStorage
+   */
+  getAuthToken(): string | null {
+    if (typeof window === "undefined") return null;
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  },
+
+  /**
+   * Get signed-in user from localStorage
+   */
+  getUser(): User | null {
+    if (typeof window === "undefined") return null;
+    const saved = localStorage.getItem(AUTH_USER_KEY);
+    if (!saved) return null;
+    try {
+      return JSON.parse(saved) as User;
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Save access token and user after login
+   */
+  setAuth(token: string, user: User): void {
+    if (typeof window === "undefined") return;
+    localStorage.setItem(AUTH_TOKEN_KEY, token);
+    localStorage.setItem(AUTH_USER_KEY, JSON.stringify(user));
+  },
+
+  /**
+   * Clear access token and user (logout)
+   */
+  clearAuth(): void {
+    if (typeof window === "undefined") return;
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+    localStorage.removeItem(AUTH_USER_KEY);
+  },
+};
@@ -2,9 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import AgentConsole from './AgentConsole.tsx'
+
+// Support agents work from /agent, customers chat everywhere else
+const isAgentConsole = window.location.pathname.startsWith('/agent')
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {isAgentConsole ? <AgentConsole /> : <App />}
   </StrictMode>,
 )
@@ -0,0 +1,35 @@
+import type { ConversationStatus, Message } from "./chat";
+
+export type AgentSummary = {
+  id: string;
+  name: string | null;
+  email: string;
+};
+
+export type QueuedConversation = {
+  sessionId: string;
+  title: string | null;
+  status: ConversationStatus;
+  reason: string | null;
+  handoffNote: string | null; // null until generated
+  preview: string | null;
+  escalatedAt: string | null;
+  lastMessageAt: string;
+  assignedAgent: AgentSummary | null;
+};
+
+export type QueueResponse = {
+  conversations: QueuedConversation[];
+};
+
+export type AgentConversation = {
+  sessionId: string;
+  title: string | null;
+  status: ConversationStatus;
+  reason: string | null;
+  handoffNote: string | null;
+  summary: string | null;
+  escalatedAt: string | null;
+  assignedAgentId: string | null;
+  messages: Message[];
+};
@@ -0,0 +1,18 @@
+export type User = {
+  id: string;
+  email: string;
+  name: string | null;
+  role: "customer" | "agent";
+  createdAt: string;
+};
+
+export type AuthResponse = {
+  token: string;
+  user: User;
+};
+
+export type Credentials = {
+  email: string;
+  password: string;
+  name?: string;
+};
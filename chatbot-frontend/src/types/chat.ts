@@ -1,15 +1,81 @@
 export type Message = {
-  sender: "user" | "ai";
+  id?: string; // Set for messages loaded from the server
+  seq?: number;
+  sender: "user" | "ai" | "agent"; // agent = human support agent
   text: string;
   timestamp: string;
+  feedback?: MessageFeedback; // The rating given to an AI message
+  alternatives?: string[]; // IDs of this message and its siblings, oldest first
 };
 
+export type FeedbackRating = "up" | "down";
+
+export type FeedbackReason =
+  | "helpful"
+  | "incorrect"
+  | "incomplete"
+  | "off_topic"
+  | "not_helpful"
+  | "other";
+
+export type MessageFeedback = {
+  rating: FeedbackRating;
+  reason?: FeedbackReason | null;
+  comment?: string | null;
+};
+
+/**
+ * bot: answered by the assistant, escalated: waiting for a support agent,
+ * assigned: a support agent is handling the conversation
+ */
+export type ConversationStatus = "bot" | "escalated" | "assigned";
+
 export type ChatResponse = {
-  reply: string;
+  reply: string | null; // null while a support agent handles the conversation
   sessionId: string;
+  messageId: string | null;
+  userMessageId: string; // The user message the reply answers
+  status: ConversationStatus;
 };
 
 export type HistoryResponse = {
   messages: Message[];
+  nextCursor: number | null; // Pass as `before` to load older messages
+  status: ConversationStatus;
+};
+
+
+export type StreamHandlers = {
+  onSession?: (sessionId: string) => void;
+  onChunk?: (text: string) => void;
+  onReplace?: (text: string) => void; // A guardrail withheld the streamed reply
+  signal?: AbortSignal;
 };
 
+/**
+ * Updates pushed over the chat socket for the followed conversation
+ */
+export type ChatSocketEvents = {
+  onOpenChange?: (isOpen: boolean) => void;
+  onMessage?: (message: Message) => void; // A support agent replied
+  onStatus?: (status: ConversationStatus) => void;
+  onTyping?: (isTyping: boolean) => void; // The assistant is writing a reply
+};
+
+export type Conversation = {
+  sessionId: string;
+  title: string | null;
+  preview: string | null;
+  lastMessageAt: string;
+  createdAt: string;
+  archived: boolean;
+};
+
+export type ConversationListResponse = {
+  conversations: Conversation[];
+};
+
+export type ConversationUpdate = {
+  title?: string;
+  archived?: boolean;
+};